@@ -0,0 +1,202 @@
+import { runGodotCommand } from '../utils/godot-utils.js';
+import { findGodot, listGodotInstalls } from './versions.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+// Subset of the extension_api.json format dumped by `godot --dump-extension-api`
+export interface ApiArgument {
+    name: string;
+    type: string;
+}
+
+export interface ApiMethod {
+    name: string;
+    is_virtual?: boolean;
+    arguments?: ApiArgument[];
+    return_value?: { type: string };
+}
+
+export interface ApiEnum {
+    name: string;
+    is_bitfield?: boolean;
+    values: { name: string; value: number }[];
+}
+
+export interface ApiSignal {
+    name: string;
+    arguments?: ApiArgument[];
+}
+
+export interface ApiProperty {
+    type: string;
+    name: string;
+    setter?: string;
+    getter?: string;
+    index?: number;
+}
+
+export interface ApiClass {
+    name: string;
+    inherits?: string;
+    is_instantiable?: boolean;
+    enums?: ApiEnum[];
+    methods?: ApiMethod[];
+    signals?: ApiSignal[];
+    properties?: ApiProperty[];
+}
+
+interface ExtensionApi {
+    global_enums?: ApiEnum[];
+    classes: ApiClass[];
+}
+
+// A property resolved through the class hierarchy
+export interface PropertyInfo {
+    name: string;
+    type: string;
+    className: string;
+    enum?: ApiEnum;
+}
+
+// Lookup tables over the engine's class reference
+export class ClassDb {
+    private classes = new Map<string, ApiClass>();
+    private globalEnums = new Map<string, ApiEnum>();
+
+    constructor(api: ExtensionApi) {
+        for (const cls of api.classes) {
+            this.classes.set(cls.name, cls);
+        }
+        for (const globalEnum of api.global_enums ?? []) {
+            this.globalEnums.set(globalEnum.name, globalEnum);
+        }
+    }
+
+    getClass(name: string): ApiClass | undefined {
+        return this.classes.get(name);
+    }
+
+    hasClass(name: string): boolean {
+        return this.classes.has(name);
+    }
+
+    // Whether a class is the given base class or inherits from it
+    inheritsFrom(name: string, base: string): boolean {
+        let current = this.classes.get(name);
+        while (current) {
+            if (current.name === base) {
+                return true;
+            }
+            current = current.inherits ? this.classes.get(current.inherits) : undefined;
+        }
+        return false;
+    }
+
+    // The class followed by its ancestors
+    getHierarchy(name: string): ApiClass[] {
+        const result: ApiClass[] = [];
+        let current = this.classes.get(name);
+        while (current) {
+            result.push(current);
+            current = current.inherits ? this.classes.get(current.inherits) : undefined;
+        }
+        return result;
+    }
+
+    // Resolve "enum::Class.Name", "bitfield::Class.Name" or a global enum name
+    getEnum(typeName: string): ApiEnum | undefined {
+        const name = typeName.replace(/^(enum|bitfield)::/, '');
+        const separator = name.lastIndexOf('.');
+        if (separator === -1) {
+            return this.globalEnums.get(name);
+        }
+        const cls = this.classes.get(name.slice(0, separator));
+        const enumName = name.slice(separator + 1);
+        return cls?.enums?.find(e => e.name === enumName) ?? this.globalEnums.get(name);
+    }
+
+    findMethod(className: string, methodName: string): ApiMethod | undefined {
+        for (const cls of this.getHierarchy(className)) {
+            const method = cls.methods?.find(m => m.name === methodName);
+            if (method) {
+                return method;
+            }
+        }
+        return undefined;
+    }
+
+    findSignal(className: string, signalName: string): ApiSignal | undefined {
+        for (const cls of this.getHierarchy(className)) {
+            const signal = cls.signals?.find(s => s.name === signalName);
+            if (signal) {
+                return signal;
+            }
+        }
+        return undefined;
+    }
+
+    // Find a property on a class or one of its ancestors
+    getProperty(className: string, propertyName: string): PropertyInfo | undefined {
+        for (const cls of this.getHierarchy(className)) {
+            const property = cls.properties?.find(p => p.name === propertyName);
+            if (property) {
+                return this.describeProperty(cls, property);
+            }
+        }
+        return undefined;
+    }
+
+    // All properties of a class including inherited ones
+    listProperties(className: string): PropertyInfo[] {
+        return this.getHierarchy(className).flatMap(cls =>
+            (cls.properties ?? []).map(property => this.describeProperty(cls, property)));
+    }
+
+    // Enum-typed properties are declared as "int"; the enum is on the setter argument
+    private describeProperty(cls: ApiClass, property: ApiProperty): PropertyInfo {
+        const info: PropertyInfo = { name: property.name, type: property.type, className: cls.name };
+
+        if (property.setter) {
+            const setter = this.findMethod(cls.name, property.setter);
+            const argument = setter?.arguments?.[property.index !== undefined ? 1 : 0];
+            if (argument && /^(enum|bitfield)::/.test(argument.type)) {
+                info.enum = this.getEnum(argument.type);
+            }
+        }
+        return info;
+    }
+}
+
+// Class references by engine version
+const classDbs = new Map<string, ClassDb>();
+
+// Load the class reference of the Godot a project uses (or the default one), dumping it once
+// per engine version. Returns null when no Godot executable is available.
+export async function loadClassDb(projectPath?: string): Promise<ClassDb | null> {
+    if ((await listGodotInstalls()).length === 0) {
+        return null;
+    }
+    const { path: godotPath, version: engine } = await findGodot(projectPath);
+    const version = engine.text.replace(/[^A-Za-z0-9._-]/g, '_');
+    const cached = classDbs.get(version);
+    if (cached) {
+        return cached;
+    }
+
+    const cacheDir = path.join(os.tmpdir(), 'godot_mcp_api', version);
+    const apiPath = path.join(cacheDir, 'extension_api.json');
+
+    if (!fs.existsSync(apiPath)) {
+        fs.mkdirSync(cacheDir, { recursive: true });
+        await runGodotCommand(godotPath, ['--headless', '--dump-extension-api'], cacheDir);
+        if (!fs.existsSync(apiPath)) {
+            throw new Error('Failed to dump the Godot extension API');
+        }
+    }
+
+    const api = JSON.parse(await fs.promises.readFile(apiPath, 'utf8')) as ExtensionApi;
+    const classDb = new ClassDb(api);
+    classDbs.set(version, classDb);
+    return classDb;
+}
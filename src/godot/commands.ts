@@ -1,45 +1,86 @@
-import { findGodotPath, runGodotCommand, isGodotProject } from '../utils/godot-utils.js';
+import { runGodotCommand, isGodotProject } from '../utils/godot-utils.js';
 import * as path from 'path';
 import * as fs from 'fs';
-import { spawn } from 'child_process';
+import * as os from 'os';
+import { spawn, ChildProcess } from 'child_process';
+import { OutputBuffer, OutputQuery } from './output-buffer.js';
+import { TscnDocument, TscnSection, createDocument, getProperty, readTscnFile, removeProperty, setProperty, writeTscnFile } from './tscn.js';
+import { Variant, isVariantKind, parseVariant } from './variant.js';
+import { variantToJson } from './scene.js';
+import { rawGodotValue } from './properties.js';
+import { GodotInstall, findGodot, listGodotInstalls } from './versions.js';
+import { applyTemplate, findTemplate } from './templates.js';
+import { DebugSession, closeDebugSession, debugArguments, describeDebugSession, startDebugSession } from './debugger.js';
+import { assertAllowed, assertWritable } from '../utils/sandbox.js';
+
+export type RunStatus = 'running' | 'exited' | 'crashed' | 'stopped' | 'failed';
+
+// A project process started by run_project
+export interface RunSession {
+    id: string;
+    projectPath: string;
+    scene?: string;
+    args: string[];
+    process: ChildProcess;
+    output: OutputBuffer;
+    startedAt: Date;
+    endedAt?: Date;
+    status: RunStatus;
+    exitCode: number | null;
+    signal: string | null;
+    error?: string;
+    stopRequested: boolean;
+    // Remote debugger endpoint the game is connected to
+    debugger?: DebugSession;
+}
 
-let godotPath: string | null = null;
-let godotProcess: any = null;
+export interface RunOptions {
+    // Scene to run instead of the project's main scene (res:// path)
+    scene?: string;
+    // Extra Godot command line arguments
+    args?: string[];
+    // Arguments for the game itself, passed after "--"
+    userArgs?: string[];
+    env?: Record<string, string>;
+    headless?: boolean;
+    // Connect the game to the remote debugger (default true; Godot 4 only)
+    debug?: boolean;
+}
 
-// Initialize the Godot path
-export async function initGodot(): Promise<string> {
-    if (!godotPath) {
-        godotPath = await findGodotPath();
-        if (!godotPath) {
-            throw new Error('Godot executable not found. Set GODOT_PATH environment variable to your Godot executable.');
-        }
-    }
-    return godotPath;
+// Run sessions by id; finished sessions are kept so their output stays readable
+const sessions = new Map<string, RunSession>();
+let nextSessionId = 1;
+const MAX_FINISHED_SESSIONS = 20;
+// How long run_project waits to report processes that exit right away
+const EARLY_EXIT_WINDOW_MS = 1000;
+
+// Path of the Godot executable for a project (or the default one), see findGodot
+export async function initGodot(projectPath?: string, allowGodot3: boolean = false): Promise<string> {
+    return (await findGodot(projectPath, { allowGodot3 })).path;
 }
 
-// Get Godot version
-export async function getGodotVersion(): Promise<string> {
-    const godotPath = await initGodot();
-    const { stdout } = await runGodotCommand(godotPath, ['--version']);
-    return stdout.trim();
+// The installed Godot versions, and which one a project (or the server by default) uses
+export async function getGodotVersions(projectPath?: string): Promise<{ installs: GodotInstall[]; selected: GodotInstall }> {
+    const installs = await listGodotInstalls(true);
+    return { installs, selected: await findGodot(projectPath, { allowGodot3: true }) };
 }
 
 // Launch Godot editor for a project
 export async function launchEditor(projectPath: string): Promise<string> {
-    const godotPath = await initGodot();
+    const godotPath = await initGodot(projectPath, true);
 
     if (!await isGodotProject(projectPath)) {
         throw new Error(`Invalid Godot project path: ${projectPath}`);
     }
 
     // Launch editor in a separate process
-    const process = spawn(godotPath, ['--editor', '--path', projectPath], {
+    const child = spawn(godotPath, ['--editor', '--path', projectPath], {
         detached: true,
         stdio: 'ignore'
     });
 
     // Let the process run independently of the parent
-    process.unref();
+    child.unref();
 
     return `Launched Godot editor for project: ${projectPath}`;
 }
@@ -69,12 +110,20 @@ export async function listProjects(directoryPath: string): Promise<string[]> {
 export async function createProject(
     parentDirectory: string,
     projectName: string,
-    template: string = "3d"
+    templateName: string = "3d",
+    variables: Record<string, string> = {}
 ): Promise<string> {
-    const godotPath = await initGodot();
-
-    // Create the project directory
+    // The project directory must stay inside the allowed roots
     const projectPath = path.join(parentDirectory, projectName);
+    assertAllowed(projectPath);
+
+    const template = findTemplate(templateName);
+
+    // The project targets the version new projects are opened with
+    const { version } = await findGodot();
+    if (version.major < 4) {
+        throw new Error(`New projects are created for Godot 4, but the default Godot is ${version.text}. Set GODOT_PATH to a Godot 4 executable.`);
+    }
 
     // Check if directory already exists
     if (fs.existsSync(projectPath)) {
@@ -84,14 +133,10 @@ export async function createProject(
     // Create the project directory
     fs.mkdirSync(projectPath, { recursive: true });
 
-    // Create basic project structure
-    fs.mkdirSync(path.join(projectPath, 'scenes'), { recursive: true });
-    fs.mkdirSync(path.join(projectPath, 'scripts'), { recursive: true });
-    fs.mkdirSync(path.join(projectPath, 'assets'), { recursive: true });
-
-    // Create project.godot file with basic settings
-    const projectConfig =
-        `; Engine configuration file.
+    try {
+        // Create project.godot file with basic settings; the template adds its own
+        const projectConfig =
+            `; Engine configuration file.
 ; It's best edited using the editor UI and not directly,
 ; since the parameters that go here are not all obvious.
 ;
@@ -104,94 +149,619 @@ config_version=5
 [application]
 
 config/name="${projectName}"
-config/features=PackedStringArray("4.4")
+config/features=PackedStringArray("${version.major}.${version.minor}")
 config/icon="res://icon.svg"
-
-[rendering]
-
-renderer/rendering_method="gl_compatibility"
-renderer/rendering_method.mobile="gl_compatibility"
 `;
 
-    fs.writeFileSync(path.join(projectPath, 'project.godot'), projectConfig);
+        fs.writeFileSync(path.join(projectPath, 'project.godot'), projectConfig);
 
-    // Add default icon
-    const iconSvg =
-        `<svg height="128" width="128" xmlns="http://www.w3.org/2000/svg">
+        // Add default icon
+        const iconSvg =
+            `<svg height="128" width="128" xmlns="http://www.w3.org/2000/svg">
   <rect x="2" y="2" width="124" height="124" rx="14" fill="#363d52" stroke="#212532" stroke-width="4"/>
   <circle cx="64" cy="64" r="42" fill="#478cbf"/>
 </svg>`;
 
-    fs.writeFileSync(path.join(projectPath, 'icon.svg'), iconSvg);
+        fs.writeFileSync(path.join(projectPath, 'icon.svg'), iconSvg);
 
-    // Create a default scene if it's a 3D or 2D project
-    if (template === "3d" || template === "2d") {
-        const sceneType = template === "3d" ? "Node3D" : "Node2D";
-        const scenePath = path.join(projectPath, 'scenes', 'Main.tscn');
-
-        // Create a minimal scene file
-        const sceneContent =
-            `[gd_scene format=3 uid="uid://bvip5r7kng6y7"]
-
-[node name="Main" type="${sceneType}"]
-`;
+        const files = await applyTemplate(projectPath, template, {
+            ...variables,
+            projectName,
+            godotVersion: `${version.major}.${version.minor}`
+        });
+        return `Created new Godot project at: ${projectPath} from the ${template.name} template (${files.length} file(s) copied)`;
+    } catch (error) {
+        // Leave no half-created project behind
+        fs.rmSync(projectPath, { recursive: true, force: true });
+        throw error;
+    }
+}
 
-        fs.writeFileSync(scenePath, sceneContent);
+// Drop the oldest finished sessions beyond the limit
+function pruneSessions() {
+    const finished = [...sessions.values()].filter(session => session.status !== 'running');
+    for (const session of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_SESSIONS))) {
+        sessions.delete(session.id);
     }
+}
 
-    return `Created new Godot project at: ${projectPath}`;
+// Summary of a session for tool output
+export function describeSession(session: RunSession) {
+    const end = session.endedAt ?? new Date();
+    return {
+        id: session.id,
+        status: session.status,
+        pid: session.process.pid ?? null,
+        projectPath: session.projectPath,
+        scene: session.scene,
+        args: session.args,
+        startedAt: session.startedAt.toISOString(),
+        uptimeSeconds: Math.round((end.getTime() - session.startedAt.getTime()) / 1000),
+        exitCode: session.exitCode,
+        signal: session.signal,
+        error: session.error,
+        debugger: session.debugger ? describeDebugSession(session.debugger) : undefined
+    };
 }
 
-// Run a Godot project
-export async function runProject(projectPath: string): Promise<string> {
-    const godotPath = await initGodot();
+// Wait for a process to end, up to a timeout; resolves to whether it ended
+function waitForExit(session: RunSession, timeoutMs: number): Promise<boolean> {
+    if (session.status !== 'running') {
+        return Promise.resolve(true);
+    }
+    return new Promise(resolve => {
+        const timer = setTimeout(() => resolve(false), timeoutMs);
+        session.process.once('exit', () => {
+            clearTimeout(timer);
+            resolve(true);
+        });
+    });
+}
 
+// Run a Godot project; returns the new run session
+export async function runProject(projectPath: string, options: RunOptions = {}): Promise<RunSession> {
     if (!await isGodotProject(projectPath)) {
         throw new Error(`Invalid Godot project path: ${projectPath}`);
     }
-
-    // If a project is already running, stop it first
-    if (godotProcess) {
-        await stopProject();
+    const { path: godotPath, version } = await findGodot(projectPath, { allowGodot3: true });
+    if (options.debug && version.major < 4) {
+        throw new Error(`The debugger supports Godot 4 only; ${path.basename(projectPath)} runs with Godot ${version.text}`);
     }
 
+    // The game connects to the debugger when it starts; Godot 4.2 added thread ids to its messages
+    const debugSession = (options.debug ?? version.major >= 4)
+        ? await startDebugSession(projectPath, version.major > 4 || version.minor >= 2)
+        : undefined;
+
+    const args = [
+        // Godot 3 has no headless mode in its regular builds, only a hidden window
+        ...(options.headless ? [version.major < 4 ? '--no-window' : '--headless'] : []),
+        '--path', projectPath,
+        ...(debugSession ? debugArguments(debugSession) : []),
+        ...(options.args ?? []),
+        ...(options.scene ? [options.scene] : []),
+        ...(options.userArgs && options.userArgs.length > 0 ? ['--', ...options.userArgs] : [])
+    ];
+
     // Launch the project
-    godotProcess = spawn(godotPath, ['--path', projectPath], {
-        stdio: ['ignore', 'pipe', 'pipe']
+    const child = spawn(godotPath, args, {
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: { ...process.env, ...options.env }
     });
 
+    const session: RunSession = {
+        id: `run_${nextSessionId++}`,
+        projectPath,
+        scene: options.scene,
+        args,
+        process: child,
+        output: new OutputBuffer(),
+        startedAt: new Date(),
+        status: 'running',
+        exitCode: null,
+        signal: null,
+        stopRequested: false,
+        debugger: debugSession
+    };
+    sessions.set(session.id, session);
+
     // Capture output
-    let output = '';
-    godotProcess.stdout.on('data', (data: Buffer) => {
-        output += data.toString();
+    child.stdout!.on('data', (data: Buffer) => {
+        session.output.write('stdout', data.toString());
     });
 
-    godotProcess.stderr.on('data', (data: Buffer) => {
-        output += data.toString();
+    child.stderr!.on('data', (data: Buffer) => {
+        session.output.write('stderr', data.toString());
     });
 
-    return `Running Godot project: ${projectPath}`;
+    child.on('error', (error) => {
+        session.status = 'failed';
+        session.error = error.message;
+        session.endedAt = new Date();
+        if (debugSession) {
+            closeDebugSession(debugSession);
+        }
+    });
+
+    child.on('close', () => {
+        session.output.flush();
+    });
+
+    child.on('exit', (code, signal) => {
+        if (debugSession) {
+            closeDebugSession(debugSession);
+        }
+        session.exitCode = code;
+        session.signal = signal;
+        session.endedAt = session.endedAt ?? new Date();
+        if (session.status === 'running') {
+            if (session.stopRequested) {
+                session.status = 'stopped';
+            } else {
+                session.status = code === 0 ? 'exited' : 'crashed';
+            }
+        }
+        pruneSessions();
+    });
+
+    // Report processes that fail to start or quit immediately
+    await waitForExit(session, EARLY_EXIT_WINDOW_MS);
+
+    return session;
 }
 
-// Stop running project
-export async function stopProject(): Promise<string> {
-    if (!godotProcess) {
-        return 'No Godot project is currently running';
+// List all run sessions, most recent first
+export function listRuns(): RunSession[] {
+    return [...sessions.values()].reverse();
+}
+
+// Get a session by id, or the most recent one
+export function getSession(sessionId?: string): RunSession | undefined {
+    if (sessionId) {
+        return sessions.get(sessionId);
     }
+    return listRuns()[0];
+}
 
-    godotProcess.kill();
-    godotProcess = null;
+// The debugger of a session (the most recent one by default); with running false, sessions
+// that ended are accepted too, so their errors stay readable
+export function getDebugSession(sessionId?: string, running: boolean = true): DebugSession {
+    const session = getSession(sessionId);
+    if (!session) {
+        throw new Error(sessionId ? `Unknown run session: ${sessionId}` : 'No run session');
+    }
+    if (!session.debugger) {
+        throw new Error(`Session ${session.id} was started without the debugger`);
+    }
+    if (running && session.status !== 'running') {
+        throw new Error(`Session ${session.id} is not running (${session.status})`);
+    }
+    return session.debugger;
+}
+
+// Stop one session, trying a graceful shutdown before killing it
+async function stopSession(session: RunSession, timeoutMs: number): Promise<string> {
+    if (session.status !== 'running') {
+        return `Session ${session.id} is not running (${session.status})`;
+    }
 
-    return 'Stopped running Godot project';
+    session.stopRequested = true;
+    session.process.kill('SIGTERM');
+
+    if (!await waitForExit(session, timeoutMs)) {
+        session.process.kill('SIGKILL');
+        await waitForExit(session, timeoutMs);
+        return `Killed session ${session.id} after it did not stop within ${timeoutMs}ms`;
+    }
+
+    return `Stopped session ${session.id}`;
 }
 
-// Get debug output from the running project
-export async function getDebugOutput(): Promise<string> {
-    if (!godotProcess) {
+// Stop a running project, or every running project when no session id is given
+export async function stopProject(sessionId?: string, timeoutMs: number = 5000): Promise<string> {
+    if (sessionId) {
+        const session = sessions.get(sessionId);
+        if (!session) {
+            throw new Error(`Unknown run session: ${sessionId}`);
+        }
+        return stopSession(session, timeoutMs);
+    }
+
+    const running = listRuns().filter(session => session.status === 'running');
+    if (running.length === 0) {
         return 'No Godot project is currently running';
     }
 
-    // We would read from the stdout/stderr channels that we've been capturing
-    // This is a placeholder - in a real implementation, you'd need to manage this better
-    return 'Debug output would be shown here';
-}
\ No newline at end of file
+    const results = await Promise.all(running.map(session => stopSession(session, timeoutMs)));
+    return results.join('\n');
+}
+
+// Get debug output from a run session (the most recent one by default)
+export async function getDebugOutput(sessionId?: string, query: OutputQuery = {}): Promise<any> {
+    const session = getSession(sessionId);
+    if (!session) {
+        if (sessionId) {
+            throw new Error(`Unknown run session: ${sessionId}`);
+        }
+        return { sessionId: null, status: null, entries: [], cursor: 0, truncated: false };
+    }
+
+    return {
+        sessionId: session.id,
+        status: session.status,
+        ...session.output.query(query)
+    };
+}
+
+export type ExportPlatform = 'linux' | 'windows' | 'macos' | 'web' | 'android';
+export type ExportMode = 'release' | 'debug' | 'pack';
+
+// An export preset from export_presets.cfg
+export interface ExportPreset {
+    index: number;
+    name: string;
+    platform: string;
+    runnable: boolean;
+    exportPath: string;
+    // all_resources, scenes, resources, exclude or customized
+    exportFilter: string;
+    includeFilter: string;
+    excludeFilter: string;
+    options: Record<string, unknown>;
+}
+
+// Settings accepted when creating or updating a preset
+export interface ExportPresetSettings {
+    name?: string;
+    runnable?: boolean;
+    exportPath?: string;
+    exportFilter?: string;
+    includeFilter?: string;
+    excludeFilter?: string;
+    // Platform options such as "binary_format/embed_pck"; null removes an option
+    options?: Record<string, unknown>;
+}
+
+export interface ExportMessage {
+    message: string;
+    file?: string;
+    line?: number;
+}
+
+export interface ExportResult {
+    success: boolean;
+    preset: string;
+    platform: string;
+    mode: ExportMode;
+    outputPath: string;
+    durationMs: number;
+    // Export template files that need to be installed first
+    missingTemplates: string[];
+    errors: ExportMessage[];
+    warnings: ExportMessage[];
+}
+
+// Platform names used in export_presets.cfg and the default file extension of their exports
+const EXPORT_PLATFORMS: Record<ExportPlatform, { name: string; extension: string }> = {
+    linux: { name: 'Linux', extension: '.x86_64' },
+    windows: { name: 'Windows Desktop', extension: '.exe' },
+    macos: { name: 'macOS', extension: '.zip' },
+    web: { name: 'Web', extension: '.html' },
+    android: { name: 'Android', extension: '.apk' }
+};
+const EXPORT_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Convert a JSON value to a preset value; {"$godot": "..."} passes a raw Godot value
+function toPresetValue(value: unknown, existing: Variant | undefined): Variant {
+    const raw = rawGodotValue(value);
+    if (raw !== undefined) {
+        return parseVariant(raw);
+    }
+    if (Array.isArray(value)) {
+        const items = value.map(item => toPresetValue(item, undefined));
+        return isVariantKind(existing, 'constructor')
+            ? { kind: 'constructor', name: existing.name, args: items }
+            : items;
+    }
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+        return value as Variant;
+    }
+    throw new Error(`Unsupported export option value: ${JSON.stringify(value)}`);
+}
+
+async function readExportPresetsFile(projectPath: string): Promise<TscnDocument> {
+    const filePath = path.join(projectPath, 'export_presets.cfg');
+    return fs.existsSync(filePath) ? readTscnFile(filePath) : createDocument(true);
+}
+
+function presetSections(doc: TscnDocument): { index: number; preset: TscnSection; options?: TscnSection }[] {
+    return doc.sections
+        .map(section => /^preset\.(\d+)$/.exec(section.tag))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map(match => ({
+            index: Number(match[1]),
+            preset: doc.sections.find(section => section.tag === match[0])!,
+            options: doc.sections.find(section => section.tag === `${match[0]}.options`)
+        }));
+}
+
+function describePreset(entry: { index: number; preset: TscnSection; options?: TscnSection }): ExportPreset {
+    const text = (key: string) => {
+        const value = getProperty(entry.preset, key);
+        return typeof value === 'string' ? value : '';
+    };
+    return {
+        index: entry.index,
+        name: text('name'),
+        platform: text('platform'),
+        runnable: getProperty(entry.preset, 'runnable') === true,
+        exportPath: text('export_path'),
+        exportFilter: text('export_filter'),
+        includeFilter: text('include_filter'),
+        excludeFilter: text('exclude_filter'),
+        options: Object.fromEntries((entry.options?.properties ?? []).map(p => [p.key, variantToJson(p.value)]))
+    };
+}
+
+// Find a preset by name, or the only one when no name is given
+function findPreset(doc: TscnDocument, name?: string) {
+    const presets = presetSections(doc);
+    if (name === undefined) {
+        if (presets.length !== 1) {
+            throw new Error(presets.length === 0
+                ? 'The project has no export presets'
+                : `Several export presets exist, choose one of: ${presets.map(p => describePreset(p).name).join(', ')}`);
+        }
+        return presets[0];
+    }
+    const preset = presets.find(p => describePreset(p).name === name);
+    if (!preset) {
+        throw new Error(`Export preset not found: ${name}`);
+    }
+    return preset;
+}
+
+// Apply settings to a preset; only one runnable preset is allowed per platform
+function applyPresetSettings(doc: TscnDocument, entry: { preset: TscnSection; options?: TscnSection }, settings: ExportPresetSettings) {
+    const fields: [keyof ExportPresetSettings, string][] = [
+        ['name', 'name'], ['runnable', 'runnable'], ['exportPath', 'export_path'], ['exportFilter', 'export_filter'],
+        ['includeFilter', 'include_filter'], ['excludeFilter', 'exclude_filter']
+    ];
+    for (const [field, key] of fields) {
+        if (settings[field] !== undefined) {
+            setProperty(entry.preset, key, settings[field] as Variant);
+        }
+    }
+
+    if (settings.runnable) {
+        const platform = getProperty(entry.preset, 'platform');
+        for (const other of presetSections(doc)) {
+            if (other.preset !== entry.preset && getProperty(other.preset, 'platform') === platform) {
+                setProperty(other.preset, 'runnable', false);
+            }
+        }
+    }
+
+    for (const [key, value] of Object.entries(settings.options ?? {})) {
+        if (value === null) {
+            removeProperty(entry.options!, key);
+        } else {
+            setProperty(entry.options!, key, toPresetValue(value, getProperty(entry.options!, key)));
+        }
+    }
+}
+
+// List the export presets of a project
+export async function listExportPresets(projectPath: string): Promise<ExportPreset[]> {
+    if (!await isGodotProject(projectPath)) {
+        throw new Error(`Invalid Godot project path: ${projectPath}`);
+    }
+    return presetSections(await readExportPresetsFile(projectPath)).map(describePreset);
+}
+
+// Add an export preset for a platform
+export async function createExportPreset(
+    projectPath: string,
+    platform: ExportPlatform,
+    settings: ExportPresetSettings = {}
+): Promise<ExportPreset> {
+    if (!await isGodotProject(projectPath)) {
+        throw new Error(`Invalid Godot project path: ${projectPath}`);
+    }
+
+    const doc = await readExportPresetsFile(projectPath);
+    const presets = presetSections(doc);
+    const { name: platformName, extension } = EXPORT_PLATFORMS[platform];
+    const name = settings.name ?? platformName;
+    if (presets.some(p => describePreset(p).name === name)) {
+        throw new Error(`Export preset already exists: ${name}`);
+    }
+
+    const index = presets.length > 0 ? Math.max(...presets.map(p => p.index)) + 1 : 0;
+    const safeName = (text: string) => text.toLowerCase().replace(/[^\w.-]+/g, '_');
+    const fileName = platform === 'web' ? 'index' : safeName(path.basename(projectPath));
+    const preset: TscnSection = {
+        tag: `preset.${index}`,
+        attributes: {},
+        properties: Object.entries({
+            name,
+            platform: platformName,
+            runnable: !presets.some(p => getProperty(p.preset, 'platform') === platformName),
+            advanced_options: false,
+            dedicated_server: false,
+            custom_features: '',
+            export_filter: 'all_resources',
+            include_filter: '',
+            exclude_filter: '',
+            export_path: `build/${safeName(name)}/${fileName}${extension}`,
+            encryption_include_filters: '',
+            encryption_exclude_filters: '',
+            encrypt_pck: false,
+            encrypt_directory: false,
+            script_export_mode: 2
+        }).map(([key, value]) => ({ key, value }))
+    };
+    const options: TscnSection = { tag: `preset.${index}.options`, attributes: {}, properties: [] };
+    doc.sections.push(preset, options);
+
+    const entry = { index, preset, options };
+    applyPresetSettings(doc, entry, { ...settings, name });
+    await writeTscnFile(path.join(projectPath, 'export_presets.cfg'), doc);
+    return describePreset(entry);
+}
+
+// Change an existing export preset
+export async function updateExportPreset(
+    projectPath: string,
+    presetName: string,
+    settings: ExportPresetSettings
+): Promise<ExportPreset> {
+    const doc = await readExportPresetsFile(projectPath);
+    const entry = findPreset(doc, presetName);
+    if (!entry.options) {
+        entry.options = { tag: `preset.${entry.index}.options`, attributes: {}, properties: [] };
+        doc.sections.splice(doc.sections.indexOf(entry.preset) + 1, 0, entry.options);
+    }
+
+    applyPresetSettings(doc, entry, settings);
+    await writeTscnFile(path.join(projectPath, 'export_presets.cfg'), doc);
+    return describePreset(entry);
+}
+
+// Directory export templates are installed to for a Godot version ("4.4.1.stable.official.abc")
+function exportTemplatesDir(version: string): string {
+    const match = /^(\d+\.\d+(?:\.\d+)?)\.([a-z]+\d*)/.exec(version);
+    const name = match ? `${match[1]}.${match[2]}${version.includes('.mono') ? '.mono' : ''}` : version;
+
+    switch (process.platform) {
+        case 'win32':
+            return path.join(process.env.APPDATA ?? path.join(os.homedir(), 'AppData', 'Roaming'), 'Godot', 'export_templates', name);
+        case 'darwin':
+            return path.join(os.homedir(), 'Library', 'Application Support', 'Godot', 'export_templates', name);
+        default:
+            return path.join(process.env.XDG_DATA_HOME ?? path.join(os.homedir(), '.local', 'share'), 'godot', 'export_templates', name);
+    }
+}
+
+// Template files a preset needs that are not installed
+function findMissingTemplates(projectPath: string, preset: ExportPreset, mode: ExportMode, templatesDir: string): string[] {
+    const build = mode === 'debug' ? 'debug' : 'release';
+    const customTemplate = preset.options[`custom_template/${build}`];
+    if (typeof customTemplate === 'string' && customTemplate !== '') {
+        return fs.existsSync(customTemplate) ? [] : [customTemplate];
+    }
+
+    const architecture = typeof preset.options['binary_format/architecture'] === 'string'
+        ? preset.options['binary_format/architecture']
+        : 'x86_64';
+    let templates: string[];
+    switch (preset.platform) {
+        case 'Linux':
+        case 'Linux/X11':
+            templates = [`linux_${build}.${architecture}`];
+            break;
+        case 'Windows Desktop':
+            templates = [`windows_${build}_${architecture}.exe`];
+            break;
+        case 'macOS':
+            templates = ['macos.zip'];
+            break;
+        case 'Web':
+            templates = [preset.options['variant/thread_support'] === true ? `web_${build}.zip` : `web_nothreads_${build}.zip`];
+            break;
+        case 'Android':
+            if (preset.options['gradle_build/use_gradle_build'] === true) {
+                const buildTemplate = path.join(projectPath, 'android', 'build', 'build.gradle');
+                return fs.existsSync(buildTemplate) ? [] : ['res://android/build (Android build template)'];
+            }
+            templates = [`android_${build}.apk`];
+            break;
+        default:
+            return [];
+    }
+
+    return templates
+        .map(template => path.join(templatesDir, template))
+        .filter(template => !fs.existsSync(template));
+}
+
+// Export a project with one of its presets
+export async function exportProject(
+    projectPath: string,
+    presetName: string | undefined,
+    mode: ExportMode = 'release',
+    outputPath?: string,
+    timeoutMs: number = EXPORT_TIMEOUT_MS
+): Promise<ExportResult> {
+    if (!await isGodotProject(projectPath)) {
+        throw new Error(`Invalid Godot project path: ${projectPath}`);
+    }
+    const { path: godotPath, version } = await findGodot(projectPath);
+
+    const preset = describePreset(findPreset(await readExportPresetsFile(projectPath), presetName));
+    let output = outputPath ?? preset.exportPath;
+    if (!output) {
+        throw new Error(`Export preset "${preset.name}" has no export path; pass an output path`);
+    }
+    if (mode === 'pack' && !/\.(pck|zip)$/.test(output)) {
+        output = output.replace(/\.[^./\\]*$/, '') + '.pck';
+    }
+    // The preset's export path is project data, so it is checked like an output argument
+    output = path.resolve(projectPath, output);
+    assertAllowed(output);
+    assertWritable('Writing the export');
+
+    const result: ExportResult = {
+        success: false,
+        preset: preset.name,
+        platform: preset.platform,
+        mode,
+        outputPath: output,
+        durationMs: 0,
+        missingTemplates: [],
+        errors: [],
+        warnings: []
+    };
+
+    if (mode !== 'pack') {
+        const templatesDir = exportTemplatesDir(version.text);
+        result.missingTemplates = findMissingTemplates(projectPath, preset, mode, templatesDir);
+        if (result.missingTemplates.length > 0) {
+            result.errors.push({ message: `Export templates are not installed in ${templatesDir}` });
+            return result;
+        }
+    }
+
+    fs.mkdirSync(path.dirname(output), { recursive: true });
+    const started = Date.now();
+    const flag = { release: '--export-release', debug: '--export-debug', pack: '--export-pack' }[mode];
+    const { stdout, stderr, exitCode, timedOut } = await runGodotCommand(
+        godotPath,
+        ['--headless', '--path', projectPath, flag, preset.name, output],
+        projectPath,
+        timeoutMs
+    );
+    result.durationMs = Date.now() - started;
+
+    const buffer = new OutputBuffer(Number.MAX_SAFE_INTEGER);
+    buffer.write('stdout', stdout);
+    buffer.write('stderr', stderr);
+    buffer.flush();
+    for (const entry of buffer.query({ levels: ['error', 'warning'] }).entries) {
+        const message = { message: entry.message, file: entry.file, line: entry.line };
+        (entry.level === 'error' ? result.errors : result.warnings).push(message);
+    }
+
+    if (timedOut) {
+        result.errors.push({ message: `Export did not finish within ${timeoutMs}ms` });
+    } else if (exitCode !== 0 && result.errors.length === 0) {
+        const tail = (stdout + stderr).trim().split('\n').slice(-10).join('\n');
+        result.errors.push({ message: `Godot exited with code ${exitCode}:\n${tail}` });
+    }
+    if (!fs.existsSync(output) && result.errors.length === 0) {
+        result.errors.push({ message: `Export finished but ${output} was not created` });
+    }
+
+    result.success = exitCode === 0 && !timedOut && fs.existsSync(output);
+    return result;
+}
@@ -0,0 +1,487 @@
+import { toResPath } from '../utils/godot-utils.js';
+import { decodeVariant, encodeVariant, VARIANT_TYPES } from './marshalls.js';
+import { Variant } from './variant.js';
+import { variantToJson } from './scene.js';
+import * as net from 'net';
+import * as path from 'path';
+
+export interface StackFrame {
+    file: string;
+    line: number;
+    function: string;
+}
+
+export interface StackVariable {
+    name: string;
+    scope: 'local' | 'member' | 'global';
+    type: string;
+    value: unknown;
+}
+
+// An error or warning the game reported through the debugger, with its script backtrace
+export interface RuntimeError {
+    id: number;
+    time: string;
+    message: string;
+    description: string;
+    file: string;
+    function: string;
+    line: number;
+    warning: boolean;
+    backtrace: StackFrame[];
+}
+
+interface PendingVariables {
+    resolve: (variables: StackVariable[]) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+    // Number of stack_frame_var messages announced by stack_frame_vars
+    count: number | null;
+    variables: StackVariable[];
+}
+
+// The debugger endpoint of a run: a local TCP server the game connects to with
+// --remote-debug. Messages are Variant arrays ([command, data], with a thread id between
+// them since Godot 4.2), each prefixed with its length (uint32 LE).
+export interface DebugSession {
+    projectPath: string;
+    server: net.Server;
+    port: number;
+    socket: net.Socket | null;
+    buffer: Buffer;
+    threadIds: boolean;
+    // Thread the game stopped in; commands while stopped go to it
+    threadId: number | bigint;
+    paused: boolean;
+    canContinue: boolean;
+    // Why the game stopped, e.g. "Breakpoint" or the script error
+    reason: string | null;
+    stack: StackFrame[] | null;
+    // Resolved when the game has stopped and its stack is known
+    stopWaiters: (() => void)[];
+    pendingVariables: PendingVariables | null;
+    // Variables requests wait for the one before them
+    queue: Promise<unknown>;
+    errors: RuntimeError[];
+    nextErrorId: number;
+    closed: boolean;
+}
+
+export type StepMode = 'into' | 'over';
+
+// Thread id of the main thread, which receives commands while the game runs
+const MAIN_THREAD_ID = 1;
+const MAX_MESSAGE_SIZE = 64 * 1024 * 1024;
+const MAX_ERRORS = 200;
+const DEFAULT_TIMEOUT_MS = 5000;
+const SCOPES: StackVariable['scope'][] = ['local', 'member', 'global'];
+
+// Breakpoints by project, as "res://path:line"; they apply to every run of the project
+const breakpoints = new Map<string, Set<string>>();
+// Debug sessions of running projects
+const active = new Set<DebugSession>();
+
+function projectKey(projectPath: string): string {
+    return path.resolve(projectPath);
+}
+
+function send(session: DebugSession, command: string, data: Variant[] = []) {
+    if (!session.socket) {
+        return;
+    }
+    const threadId = session.paused ? session.threadId : MAIN_THREAD_ID;
+    const payload = encodeVariant(session.threadIds ? [command, threadId, data] : [command, data]);
+    const header = Buffer.alloc(4);
+    header.writeUInt32LE(payload.length);
+    session.socket.write(Buffer.concat([header, payload]));
+}
+
+function text(value: Variant | undefined): string {
+    return typeof value === 'string' ? value : '';
+}
+
+function int(value: Variant | undefined): number {
+    return typeof value === 'number' ? value : 0;
+}
+
+function resolveStopWaiters(session: DebugSession) {
+    const waiters = session.stopWaiters;
+    session.stopWaiters = [];
+    for (const resolve of waiters) {
+        resolve();
+    }
+}
+
+function handleMessage(session: DebugSession, command: string, data: Variant[]) {
+    switch (command) {
+        case 'debug_enter':
+            // [can_continue, error, has_stack, thread name]
+            session.paused = true;
+            session.canContinue = data[0] === true;
+            session.reason = text(data[1]) || null;
+            session.stack = null;
+            if (data[2] === true) {
+                send(session, 'get_stack_dump');
+            } else {
+                session.stack = [];
+                resolveStopWaiters(session);
+            }
+            break;
+        case 'debug_exit':
+            session.paused = false;
+            session.reason = null;
+            session.stack = null;
+            break;
+        case 'stack_dump': {
+            // [frame count * 3, then file, line, function of each frame]
+            const frames: StackFrame[] = [];
+            for (let i = 1; i + 2 < data.length; i += 3) {
+                frames.push({ file: text(data[i]), line: int(data[i + 1]), function: text(data[i + 2]) });
+            }
+            session.stack = frames;
+            resolveStopWaiters(session);
+            break;
+        }
+        case 'stack_frame_vars': {
+            const pending = session.pendingVariables;
+            if (pending) {
+                pending.count = int(data[0]);
+                if (pending.variables.length >= pending.count) {
+                    finishVariables(session);
+                }
+            }
+            break;
+        }
+        case 'stack_frame_var': {
+            const pending = session.pendingVariables;
+            if (pending) {
+                // [name, scope, type, value]; older versions leave out the type
+                const value = data.length >= 4 ? data[3] : data[2];
+                pending.variables.push({
+                    name: text(data[0]),
+                    scope: SCOPES[int(data[1])] ?? 'global',
+                    type: data.length >= 4 ? VARIANT_TYPES[int(data[2])] ?? 'Variant' : 'Variant',
+                    value: variantToJson(value ?? null)
+                });
+                if (pending.count !== null && pending.variables.length >= pending.count) {
+                    finishVariables(session);
+                }
+            }
+            break;
+        }
+        case 'error': {
+            // [hour, minute, second, msec, file, function, line, error, description, warning,
+            //  frame count * 3, then file, function, line of each frame]
+            const backtrace: StackFrame[] = [];
+            for (let i = 11; i + 2 < data.length; i += 3) {
+                backtrace.push({ file: text(data[i]), function: text(data[i + 1]), line: int(data[i + 2]) });
+            }
+            session.errors.push({
+                id: session.nextErrorId++,
+                time: new Date().toISOString(),
+                file: text(data[4]),
+                function: text(data[5]),
+                line: int(data[6]),
+                message: text(data[7]),
+                description: text(data[8]),
+                warning: data[9] === true,
+                backtrace
+            });
+            if (session.errors.length > MAX_ERRORS) {
+                session.errors.splice(0, session.errors.length - MAX_ERRORS);
+            }
+            break;
+        }
+    }
+}
+
+function finishVariables(session: DebugSession) {
+    const pending = session.pendingVariables;
+    if (pending) {
+        clearTimeout(pending.timer);
+        session.pendingVariables = null;
+        pending.resolve(pending.variables);
+    }
+}
+
+function receive(session: DebugSession, chunk: Buffer) {
+    session.buffer = Buffer.concat([session.buffer, chunk]);
+    while (session.buffer.length >= 4) {
+        const length = session.buffer.readUInt32LE(0);
+        if (length > MAX_MESSAGE_SIZE) {
+            console.error(`Debugger message of ${length} bytes from ${session.projectPath}; disconnecting`);
+            session.socket?.destroy();
+            return;
+        }
+        if (session.buffer.length < 4 + length) {
+            return;
+        }
+        const frame = session.buffer.subarray(4, 4 + length);
+        session.buffer = session.buffer.subarray(4 + length);
+        try {
+            const { value } = decodeVariant(frame);
+            if (!Array.isArray(value) || typeof value[0] !== 'string') {
+                continue;
+            }
+            // Godot 4.2 and later send [command, thread id, data]
+            const threaded = value.length === 3;
+            session.threadIds = threaded;
+            if (threaded && value[0] === 'debug_enter') {
+                session.threadId = typeof value[1] === 'bigint' ? value[1] : int(value[1]);
+            }
+            const data = value[threaded ? 2 : 1];
+            handleMessage(session, value[0], Array.isArray(data) ? data : []);
+        } catch (error) {
+            console.error(`Invalid debugger message from ${session.projectPath}:`, error);
+        }
+    }
+}
+
+function disconnect(session: DebugSession) {
+    session.socket = null;
+    session.paused = false;
+    session.stack = null;
+    resolveStopWaiters(session);
+    const pending = session.pendingVariables;
+    if (pending) {
+        clearTimeout(pending.timer);
+        session.pendingVariables = null;
+        pending.reject(new Error('The game disconnected from the debugger'));
+    }
+}
+
+// Start listening for a game of a project; threadIds is the message format to use until the
+// game sends its first message (Godot 4.2 and later)
+export async function startDebugSession(projectPath: string, threadIds: boolean): Promise<DebugSession> {
+    const server = net.createServer();
+    const session: DebugSession = {
+        projectPath,
+        server,
+        port: 0,
+        socket: null,
+        buffer: Buffer.alloc(0),
+        threadIds,
+        threadId: MAIN_THREAD_ID,
+        paused: false,
+        canContinue: false,
+        reason: null,
+        stack: null,
+        stopWaiters: [],
+        pendingVariables: null,
+        queue: Promise.resolve(),
+        errors: [],
+        nextErrorId: 1,
+        closed: false
+    };
+
+    server.on('connection', socket => {
+        // One game per run; anything else connecting is turned away
+        if (session.socket || session.closed) {
+            socket.destroy();
+            return;
+        }
+        session.socket = socket;
+        socket.on('data', chunk => receive(session, chunk));
+        socket.on('close', () => disconnect(session));
+        // Connections reset when the game is killed; close follows every error
+        socket.on('error', () => undefined);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            server.off('error', reject);
+            resolve();
+        });
+    });
+    session.port = (server.address() as net.AddressInfo).port;
+    active.add(session);
+    return session;
+}
+
+// Command line arguments that connect the game to the session and set the project's breakpoints
+export function debugArguments(session: DebugSession): string[] {
+    const args = ['--remote-debug', `tcp://127.0.0.1:${session.port}`];
+    const lines = [...breakpoints.get(projectKey(session.projectPath)) ?? []];
+    if (lines.length > 0) {
+        // The editor passes spaces in paths as %20
+        args.push('--breakpoints', lines.map(line => line.replace(/ /g, '%20')).join(','));
+    }
+    return args;
+}
+
+// Stop listening and drop the connection (when the run ends)
+export function closeDebugSession(session: DebugSession) {
+    if (session.closed) {
+        return;
+    }
+    session.closed = true;
+    active.delete(session);
+    session.socket?.destroy();
+    session.server.close();
+}
+
+// Set or clear a breakpoint of a project; running games of the project are updated
+export function setBreakpoint(projectPath: string, file: string, line: number, enabled: boolean = true): string {
+    if (!Number.isInteger(line) || line < 1) {
+        throw new Error(`Invalid line: ${line}`);
+    }
+    const resPath = toResPath(projectPath, file);
+    const key = projectKey(projectPath);
+    const lines = breakpoints.get(key) ?? new Set<string>();
+    const breakpoint = `${resPath}:${line}`;
+    if (enabled) {
+        lines.add(breakpoint);
+    } else if (!lines.delete(breakpoint)) {
+        throw new Error(`No breakpoint at ${breakpoint}`);
+    }
+    breakpoints.set(key, lines);
+
+    let updated = 0;
+    for (const session of active) {
+        if (projectKey(session.projectPath) === key && session.socket) {
+            send(session, 'breakpoint', [resPath, line, enabled]);
+            updated++;
+        }
+    }
+    return `${enabled ? 'Set' : 'Cleared'} breakpoint at ${breakpoint}`
+        + (updated > 0 ? ` (updated ${updated} running game(s))` : '');
+}
+
+// Breakpoints of a project
+export function listBreakpoints(projectPath: string): { file: string; line: number }[] {
+    return [...breakpoints.get(projectKey(projectPath)) ?? []].map(breakpoint => {
+        const separator = breakpoint.lastIndexOf(':');
+        return { file: breakpoint.slice(0, separator), line: Number(breakpoint.slice(separator + 1)) };
+    });
+}
+
+function assertConnected(session: DebugSession) {
+    if (!session.socket) {
+        throw new Error('The game is not connected to the debugger');
+    }
+}
+
+function assertPaused(session: DebugSession) {
+    assertConnected(session);
+    if (!session.paused) {
+        throw new Error('The game is running; pause it or wait for a breakpoint first');
+    }
+}
+
+function assertCanContinue(session: DebugSession) {
+    assertPaused(session);
+    if (!session.canContinue) {
+        throw new Error(`Execution cannot continue after this error: ${session.reason}`);
+    }
+}
+
+// Wait until the game stops with a known stack; resolves to whether it did
+function waitForStop(session: DebugSession, timeoutMs: number): Promise<boolean> {
+    if (session.paused && session.stack) {
+        return Promise.resolve(true);
+    }
+    return new Promise(resolve => {
+        const done = () => {
+            clearTimeout(timer);
+            resolve(session.paused && session.stack !== null);
+        };
+        const timer = setTimeout(() => {
+            session.stopWaiters = session.stopWaiters.filter(waiter => waiter !== done);
+            resolve(false);
+        }, timeoutMs);
+        session.stopWaiters.push(done);
+    });
+}
+
+// Where the game is stopped, for tool output
+export function describeStop(session: DebugSession) {
+    return {
+        paused: session.paused,
+        reason: session.reason,
+        canContinue: session.paused ? session.canContinue : undefined,
+        location: session.stack?.[0]
+    };
+}
+
+// Summary of a debug session for tool output
+export function describeDebugSession(session: DebugSession) {
+    return {
+        port: session.port,
+        connected: session.socket !== null,
+        ...describeStop(session),
+        errors: session.errors.length
+    };
+}
+
+// Break into the debugger, like the editor's pause button
+export async function pause(session: DebugSession, timeoutMs: number = DEFAULT_TIMEOUT_MS) {
+    assertConnected(session);
+    if (!session.paused) {
+        send(session, 'break');
+    }
+    if (!await waitForStop(session, timeoutMs)) {
+        throw new Error(`The game did not pause within ${timeoutMs}ms`);
+    }
+    return describeStop(session);
+}
+
+// Continue after a stop
+export function resume(session: DebugSession) {
+    assertCanContinue(session);
+    send(session, 'continue');
+    session.paused = false;
+    session.reason = null;
+    session.stack = null;
+    return describeStop(session);
+}
+
+// Run to the next line (into calls, or over them) and wait for the game to stop there
+export async function step(session: DebugSession, mode: StepMode = 'into', timeoutMs: number = DEFAULT_TIMEOUT_MS) {
+    assertCanContinue(session);
+    send(session, mode === 'over' ? 'next' : 'step');
+    session.paused = false;
+    session.reason = null;
+    session.stack = null;
+    await waitForStop(session, timeoutMs);
+    return describeStop(session);
+}
+
+// Stack of the stopped game, innermost frame first
+export function getStackTrace(session: DebugSession): StackFrame[] {
+    assertPaused(session);
+    if (!session.stack) {
+        throw new Error('The stack trace has not arrived yet; try again');
+    }
+    return session.stack;
+}
+
+// Local, member and global variables of a frame of the stopped game
+export function getStackVariables(session: DebugSession, frame: number = 0, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<StackVariable[]> {
+    const stack = getStackTrace(session);
+    if (!Number.isInteger(frame) || frame < 0 || frame >= stack.length) {
+        throw new Error(`Frame ${frame} does not exist; the stack has ${stack.length} frame(s)`);
+    }
+
+    const request = session.queue.then(() => new Promise<StackVariable[]>((resolve, reject) => {
+        assertPaused(session);
+        session.pendingVariables = {
+            resolve,
+            reject,
+            count: null,
+            variables: [],
+            timer: setTimeout(() => {
+                session.pendingVariables = null;
+                reject(new Error(`The game did not send the variables within ${timeoutMs}ms`));
+            }, timeoutMs)
+        };
+        send(session, 'get_stack_frame_vars', [frame]);
+    }));
+    session.queue = request.catch(() => undefined);
+    return request;
+}
+
+// Errors and warnings reported through the debugger, optionally only those after an id
+export function getRuntimeErrors(session: DebugSession, since: number = 0): RuntimeError[] {
+    return session.errors.filter(error => error.id > since);
+}
@@ -0,0 +1,241 @@
+import { ClassDb } from './class-db.js';
+import { jsonToVariant, rawGodotValue } from './properties.js';
+import { Variant, formatString, formatVariant } from './variant.js';
+
+export interface ScriptParameter {
+    name: string;
+    type?: string;
+}
+
+export interface ScriptSignal {
+    name: string;
+    parameters?: ScriptParameter[];
+}
+
+export interface ScriptVariable {
+    name: string;
+    type?: string;
+    // JSON default value, converted like node properties ({"$godot": "..."} for raw GDScript)
+    default?: unknown;
+    // Whether to add @export (default: true)
+    export?: boolean;
+    // @export_range(min, max[, step]) instead of @export
+    range?: number[];
+}
+
+// An @onready reference to a node of the scene the script is attached to
+export interface OnreadyReference {
+    name: string;
+    // Path relative to the node with the script, or a %UniqueName
+    nodePath: string;
+    type?: string;
+}
+
+export interface ScriptSpec {
+    // Base class name or res:// path of a base script (default: Node)
+    extends?: string;
+    className?: string;
+    tool?: boolean;
+    signals?: ScriptSignal[];
+    variables?: ScriptVariable[];
+    onready?: OnreadyReference[];
+    // Methods to stub out, e.g. _ready, _process, _physics_process
+    methods?: string[];
+}
+
+// Signatures of the usual virtual methods
+const LIFECYCLE_METHODS: Record<string, string> = {
+    _init: '_init() -> void',
+    _enter_tree: '_enter_tree() -> void',
+    _ready: '_ready() -> void',
+    _exit_tree: '_exit_tree() -> void',
+    _process: '_process(delta: float) -> void',
+    _physics_process: '_physics_process(delta: float) -> void',
+    _input: '_input(event: InputEvent) -> void',
+    _unhandled_input: '_unhandled_input(event: InputEvent) -> void',
+    _unhandled_key_input: '_unhandled_key_input(event: InputEvent) -> void',
+    _shortcut_input: '_shortcut_input(event: InputEvent) -> void',
+    _gui_input: '_gui_input(event: InputEvent) -> void',
+    _draw: '_draw() -> void',
+    _notification: '_notification(what: int) -> void'
+};
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function checkIdentifier(name: string, what: string) {
+    if (!IDENTIFIER.test(name)) {
+        throw new Error(`Invalid ${what} name: ${name}`);
+    }
+}
+
+// Element type of a packed array type, e.g. PackedVector2Array -> Vector2
+function packedElementType(type: string): string | undefined {
+    const element = /^Packed(\w+)Array$/.exec(type)?.[1];
+    if (!element) {
+        return undefined;
+    }
+    if (/^(Byte|Int32|Int64)$/.test(element)) {
+        return 'int';
+    }
+    if (/^Float(32|64)$/.test(element)) {
+        return 'float';
+    }
+    return element;
+}
+
+// Write a Variant as a GDScript expression; the text format mostly is valid GDScript already
+function variantToExpression(value: Variant, type: string | undefined): string {
+    if (typeof value === 'number' && type === 'float' && Number.isInteger(value)) {
+        return `${value}.0`;
+    }
+    if (value !== null && typeof value === 'object' && !Array.isArray(value) && value.kind === 'node_path') {
+        return `^${formatString(value.value)}`;
+    }
+    return formatVariant(value);
+}
+
+// Convert a JSON default value to a GDScript expression for a variable of the given type
+export function toExpression(value: unknown, type: string | undefined, classDb: ClassDb | null): string {
+    const raw = rawGodotValue(value);
+    if (raw !== undefined) {
+        return raw;
+    }
+    // Resources are loaded with preload() rather than referenced as ExtResource
+    if (typeof value === 'string' && value.startsWith('res://') && !['String', 'StringName', 'NodePath'].includes(type ?? 'String')) {
+        return `preload(${formatString(value)})`;
+    }
+    const elementType = type && packedElementType(type);
+    if (elementType && Array.isArray(value)) {
+        return `${type}([${value.map(item => toExpression(item, elementType, classDb)).join(', ')}])`;
+    }
+
+    const variant = jsonToVariant(value, type, {
+        classDb,
+        addResource: (resourcePath: string) => {
+            throw new Error(`Use the res:// path as the value to preload ${resourcePath}`);
+        }
+    });
+    return variantToExpression(variant, type);
+}
+
+// Write a node path as a $ or % shorthand
+function nodeReference(nodePath: string): string {
+    if (/^%[A-Za-z_][A-Za-z0-9_]*$/.test(nodePath)) {
+        return nodePath;
+    }
+    if (/^[A-Za-z_][A-Za-z0-9_]*(\/[A-Za-z_][A-Za-z0-9_]*)*$/.test(nodePath)) {
+        return `$${nodePath}`;
+    }
+    return `$${formatString(nodePath)}`;
+}
+
+function typed(name: string, type: string | undefined): string {
+    return type ? `${name}: ${type}` : name;
+}
+
+// Signature of a method stub: the usual virtual methods are known, others are looked up in the class reference
+function methodSignature(name: string, baseClass: string, classDb: ClassDb | null): string {
+    checkIdentifier(name, 'method');
+    if (LIFECYCLE_METHODS[name]) {
+        return LIFECYCLE_METHODS[name];
+    }
+    const method = classDb?.hasClass(baseClass) ? classDb.findMethod(baseClass, name) : undefined;
+    if (method && !method.is_virtual) {
+        throw new Error(`${name} is not a virtual method of ${baseClass} and cannot be overridden`);
+    }
+    if (method) {
+        const parameters = (method.arguments ?? []).map(argument => `${argument.name}: ${argument.type.replace(/^(enum|bitfield)::/, '').replace(/^typedarray::(.*)$/, 'Array[$1]')}`);
+        const returnType = method.return_value?.type ?? 'void';
+        return `${name}(${parameters.join(', ')}) -> ${returnType.replace(/^(enum|bitfield)::/, '')}`;
+    }
+    return `${name}() -> void`;
+}
+
+// Generate GDScript source following the order of the official style guide
+export function generateScript(spec: ScriptSpec, classDb: ClassDb | null): string {
+    const baseClass = spec.extends ?? 'Node';
+    const isPath = baseClass.startsWith('res://');
+    if (!isPath) {
+        checkIdentifier(baseClass, 'base class');
+        if (classDb && !classDb.hasClass(baseClass)) {
+            throw new Error(`Unknown base class: ${baseClass}`);
+        }
+    }
+    if (spec.className) {
+        checkIdentifier(spec.className, 'class');
+        if (classDb?.hasClass(spec.className)) {
+            throw new Error(`class_name ${spec.className} hides the built-in class of the same name`);
+        }
+    }
+
+    const names = new Set<string>();
+    const declare = (name: string, what: string) => {
+        checkIdentifier(name, what);
+        if (names.has(name)) {
+            throw new Error(`Duplicate name: ${name}`);
+        }
+        names.add(name);
+    };
+
+    const blocks: string[][] = [];
+    const header: string[] = [];
+    if (spec.tool) {
+        header.push('@tool');
+    }
+    if (spec.className) {
+        header.push(`class_name ${spec.className}`);
+    }
+    header.push(`extends ${isPath ? formatString(baseClass) : baseClass}`);
+    blocks.push(header);
+
+    const signals = (spec.signals ?? []).map(signal => {
+        declare(signal.name, 'signal');
+        const parameters = (signal.parameters ?? []).map(parameter => {
+            checkIdentifier(parameter.name, 'parameter');
+            return typed(parameter.name, parameter.type);
+        });
+        return parameters.length > 0 ? `signal ${signal.name}(${parameters.join(', ')})` : `signal ${signal.name}`;
+    });
+    blocks.push(signals);
+
+    const variables = spec.variables ?? [];
+    const formatVariable = (variable: ScriptVariable): string => {
+        declare(variable.name, 'variable');
+        let annotation = '';
+        if (variable.range) {
+            if (variable.range.length < 2 || variable.range.length > 3) {
+                throw new Error(`range for ${variable.name} must be [min, max] or [min, max, step]`);
+            }
+            annotation = `@export_range(${variable.range.join(', ')}) `;
+        } else if (variable.export !== false) {
+            annotation = '@export ';
+        }
+        if (annotation && !variable.type && variable.default === undefined) {
+            throw new Error(`Exported variable ${variable.name} needs a type or a default value`);
+        }
+        let line = `${annotation}var ${typed(variable.name, variable.type)}`;
+        if (variable.default !== undefined) {
+            try {
+                line += ` = ${toExpression(variable.default, variable.type, classDb)}`;
+            } catch (error: any) {
+                throw new Error(`Invalid default for ${variable.name}: ${error.message}`);
+            }
+        }
+        return line;
+    };
+    blocks.push(variables.filter(variable => variable.range || variable.export !== false).map(formatVariable));
+    blocks.push(variables.filter(variable => !variable.range && variable.export === false).map(formatVariable));
+
+    blocks.push((spec.onready ?? []).map(reference => {
+        declare(reference.name, 'variable');
+        return `@onready var ${typed(reference.name, reference.type)} = ${nodeReference(reference.nodePath)}`;
+    }));
+
+    let source = blocks.filter(block => block.length > 0).map(block => block.join('\n')).join('\n\n') + '\n';
+
+    const methods = [...new Set(spec.methods ?? [])];
+    for (const method of methods) {
+        source += `\n\nfunc ${methodSignature(method, baseClass, classDb)}:\n\tpass\n`;
+    }
+    return source;
+}
@@ -0,0 +1,383 @@
+import { editProjectFile, getSetting, putSetting, readProjectFile } from './project-settings.js';
+import { Variant, VariantObject, dictionaryGet, formatVariant, isVariantKind, parseVariant } from './variant.js';
+import { TscnDocument } from './tscn.js';
+
+interface ModifierKeys {
+    ctrl?: boolean;
+    shift?: boolean;
+    alt?: boolean;
+    meta?: boolean;
+}
+
+// Input events as JSON. Keys, buttons and axes are Godot enum names without their
+// prefix ("A", "Space", "left", "dpad_up", "left_x"), or numbers.
+export type InputEventJson =
+    // physical (default true) binds the key position rather than the layout's character
+    | ({ type: 'key'; key: string; physical?: boolean; device?: number } & ModifierKeys)
+    | ({ type: 'mouse_button'; button: string; device?: number } & ModifierKeys)
+    | { type: 'joypad_button'; button: string; device?: number }
+    // direction is the side of the axis that triggers the action (-1 or 1)
+    | { type: 'joypad_axis'; axis: string; direction: number; device?: number }
+    // Events without a JSON form, as their Godot text
+    | { type: 'other'; godot: string };
+
+export interface InputAction {
+    name: string;
+    deadzone: number;
+    events: InputEventJson[];
+}
+
+const DEFAULT_DEADZONE = 0.5;
+// Events apply to all devices unless bound to one
+const ALL_DEVICES = -1;
+
+// Godot's Key enum: printable keys use their (uppercase) character code,
+// other keys start at KEY_SPECIAL (1 << 22)
+const KEY_SPECIAL = 1 << 22;
+const SPECIAL_KEYS = [
+    'ESCAPE', 'TAB', 'BACKTAB', 'BACKSPACE', 'ENTER', 'KP_ENTER', 'INSERT', 'DELETE', 'PAUSE', 'PRINT',
+    'SYSREQ', 'CLEAR', 'HOME', 'END', 'LEFT', 'UP', 'RIGHT', 'DOWN', 'PAGEUP', 'PAGEDOWN',
+    'SHIFT', 'CTRL', 'META', 'ALT', 'CAPSLOCK', 'NUMLOCK', 'SCROLLLOCK'
+];
+const PRINTABLE_KEYS: Record<string, number> = {
+    SPACE: 32, EXCLAM: 33, QUOTEDBL: 34, NUMBERSIGN: 35, DOLLAR: 36, PERCENT: 37, AMPERSAND: 38,
+    APOSTROPHE: 39, PARENLEFT: 40, PARENRIGHT: 41, ASTERISK: 42, PLUS: 43, COMMA: 44, MINUS: 45,
+    PERIOD: 46, SLASH: 47, COLON: 58, SEMICOLON: 59, LESS: 60, EQUAL: 61, GREATER: 62, QUESTION: 63,
+    AT: 64, BRACKETLEFT: 91, BACKSLASH: 92, BRACKETRIGHT: 93, ASCIICIRCUM: 94, UNDERSCORE: 95,
+    QUOTELEFT: 96, BRACELEFT: 123, BAR: 124, BRACERIGHT: 125, ASCIITILDE: 126
+};
+
+const KEY_CODES: Record<string, number> = (() => {
+    const codes: Record<string, number> = { ...PRINTABLE_KEYS };
+    SPECIAL_KEYS.forEach((name, index) => { codes[name] = KEY_SPECIAL + 1 + index; });
+    for (let i = 1; i <= 35; i++) {
+        codes[`F${i}`] = KEY_SPECIAL + 0x1C + i - 1;
+    }
+    ['KP_MULTIPLY', 'KP_DIVIDE', 'KP_SUBTRACT', 'KP_PERIOD', 'KP_ADD']
+        .forEach((name, index) => { codes[name] = KEY_SPECIAL + 0x81 + index; });
+    for (let i = 0; i <= 9; i++) {
+        codes[`KP_${i}`] = KEY_SPECIAL + 0x86 + i;
+        codes[String(i)] = 48 + i;
+    }
+    for (let i = 0; i < 26; i++) {
+        codes[String.fromCharCode(65 + i)] = 65 + i;
+    }
+    return codes;
+})();
+
+const KEY_ALIASES: Record<string, string> = {
+    ESC: 'ESCAPE', RETURN: 'ENTER', CONTROL: 'CTRL', DEL: 'DELETE', PAGE_UP: 'PAGEUP', PAGE_DOWN: 'PAGEDOWN',
+    ARROW_LEFT: 'LEFT', ARROW_RIGHT: 'RIGHT', ARROW_UP: 'UP', ARROW_DOWN: 'DOWN'
+};
+
+const MOUSE_BUTTONS = ['', 'LEFT', 'RIGHT', 'MIDDLE', 'WHEEL_UP', 'WHEEL_DOWN', 'WHEEL_LEFT', 'WHEEL_RIGHT', 'XBUTTON1', 'XBUTTON2'];
+const JOY_BUTTONS = [
+    'A', 'B', 'X', 'Y', 'BACK', 'GUIDE', 'START', 'LEFT_STICK', 'RIGHT_STICK', 'LEFT_SHOULDER', 'RIGHT_SHOULDER',
+    'DPAD_UP', 'DPAD_DOWN', 'DPAD_LEFT', 'DPAD_RIGHT', 'MISC1', 'PADDLE1', 'PADDLE2', 'PADDLE3', 'PADDLE4', 'TOUCHPAD'
+];
+const JOY_AXES = ['LEFT_X', 'LEFT_Y', 'RIGHT_X', 'RIGHT_Y', 'TRIGGER_LEFT', 'TRIGGER_RIGHT'];
+
+// Look up an enum value by name (case-insensitive, with or without its prefix) or number
+function enumValue(value: string | number, names: Record<string, number>, prefix: string, label: string): number {
+    if (typeof value === 'number' || (/^\d+$/.test(value) && names[value] === undefined)) {
+        return Number(value);
+    }
+    let name = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+    if (name.startsWith(prefix)) {
+        name = name.slice(prefix.length);
+    }
+    if (prefix === 'KEY_' && KEY_ALIASES[name]) {
+        name = KEY_ALIASES[name];
+    }
+    if (names[name] === undefined) {
+        throw new Error(`Unknown ${label}: ${value}`);
+    }
+    return names[name];
+}
+
+function enumName(value: number, names: Record<string, number>): string {
+    const entry = Object.entries(names).find(([, code]) => code === value);
+    return entry ? entry[0] : String(value);
+}
+
+function indexTable(names: string[]): Record<string, number> {
+    return Object.fromEntries(names.map((name, index) => [name, index]).filter(([name]) => name !== ''));
+}
+
+const MOUSE_BUTTON_CODES = indexTable(MOUSE_BUTTONS);
+const JOY_BUTTON_CODES = indexTable(JOY_BUTTONS);
+const JOY_AXIS_CODES = indexTable(JOY_AXES);
+
+// The properties Godot writes for each event class, in its order
+function modifierProperties(event: ModifierKeys, device: number | undefined): [string, Variant][] {
+    return [
+        ['resource_local_to_scene', false],
+        ['resource_name', ''],
+        ['device', device ?? ALL_DEVICES],
+        ['window_id', 0],
+        ['alt_pressed', event.alt ?? false],
+        ['shift_pressed', event.shift ?? false],
+        ['ctrl_pressed', event.ctrl ?? false],
+        ['meta_pressed', event.meta ?? false]
+    ];
+}
+
+// Convert a JSON event to the Object(InputEvent...) value stored in project.godot
+export function inputEventToVariant(event: InputEventJson): VariantObject {
+    switch (event.type) {
+        case 'key': {
+            const code = enumValue(event.key, KEY_CODES, 'KEY_', 'key');
+            const physical = event.physical ?? true;
+            const unicode = code < KEY_SPECIAL ? String.fromCharCode(code).toLowerCase().charCodeAt(0) : 0;
+            return {
+                kind: 'object',
+                className: 'InputEventKey',
+                properties: [
+                    ...modifierProperties(event, event.device),
+                    ['pressed', false],
+                    ['keycode', physical ? 0 : code],
+                    ['physical_keycode', physical ? code : 0],
+                    ['key_label', 0],
+                    ['unicode', unicode],
+                    ['location', 0],
+                    ['echo', false],
+                    ['script', null]
+                ]
+            };
+        }
+        case 'mouse_button':
+            return {
+                kind: 'object',
+                className: 'InputEventMouseButton',
+                properties: [
+                    ...modifierProperties(event, event.device),
+                    ['button_mask', 0],
+                    ['position', { kind: 'constructor', name: 'Vector2', args: [0, 0] }],
+                    ['global_position', { kind: 'constructor', name: 'Vector2', args: [0, 0] }],
+                    ['factor', 1],
+                    ['button_index', enumValue(event.button, MOUSE_BUTTON_CODES, 'MOUSE_BUTTON_', 'mouse button')],
+                    ['canceled', false],
+                    ['pressed', true],
+                    ['double_click', false],
+                    ['script', null]
+                ]
+            };
+        case 'joypad_button':
+            return {
+                kind: 'object',
+                className: 'InputEventJoypadButton',
+                properties: [
+                    ['resource_local_to_scene', false],
+                    ['resource_name', ''],
+                    ['device', event.device ?? ALL_DEVICES],
+                    ['button_index', enumValue(event.button, JOY_BUTTON_CODES, 'JOY_BUTTON_', 'joypad button')],
+                    ['pressure', 0],
+                    ['pressed', true],
+                    ['script', null]
+                ]
+            };
+        case 'joypad_axis':
+            if (event.direction !== 1 && event.direction !== -1) {
+                throw new Error(`Axis direction must be 1 or -1, got ${event.direction}`);
+            }
+            return {
+                kind: 'object',
+                className: 'InputEventJoypadMotion',
+                properties: [
+                    ['resource_local_to_scene', false],
+                    ['resource_name', ''],
+                    ['device', event.device ?? ALL_DEVICES],
+                    ['axis', enumValue(event.axis, JOY_AXIS_CODES, 'JOY_AXIS_', 'joypad axis')],
+                    ['axis_value', event.direction],
+                    ['script', null]
+                ]
+            };
+        case 'other': {
+            const value = parseVariant(event.godot);
+            if (!isVariantKind(value, 'object') || !value.className.startsWith('InputEvent')) {
+                throw new Error(`Expected an Object(InputEvent...) value, got ${event.godot}`);
+            }
+            return value;
+        }
+        default: {
+            // Unreachable for typed callers; events parsed from JSON can still hold other types
+            const unsupported: never = event;
+            throw new Error(`Unsupported input event type: ${(unsupported as InputEventJson).type}`);
+        }
+    }
+}
+
+function objectProperty(event: VariantObject, key: string): Variant | undefined {
+    return event.properties.find(([name]) => name === key)?.[1];
+}
+
+function numberProperty(event: VariantObject, key: string): number {
+    const value = objectProperty(event, key);
+    return typeof value === 'number' ? value : 0;
+}
+
+// Only non-default fields are included, so decoded events stay short
+function decodeModifiers(event: VariantObject): ModifierKeys & { device?: number } {
+    const result: ModifierKeys & { device?: number } = {};
+    for (const modifier of ['ctrl', 'shift', 'alt', 'meta'] as const) {
+        if (objectProperty(event, `${modifier}_pressed`) === true) {
+            result[modifier] = true;
+        }
+    }
+    const device = numberProperty(event, 'device');
+    if (objectProperty(event, 'device') !== undefined && device !== ALL_DEVICES) {
+        result.device = device;
+    }
+    return result;
+}
+
+// Convert a stored event back to JSON
+export function variantToInputEvent(value: Variant): InputEventJson {
+    if (!isVariantKind(value, 'object')) {
+        return { type: 'other', godot: formatVariant(value) };
+    }
+
+    const { device, ...modifiers } = decodeModifiers(value);
+    const withDevice = device !== undefined ? { device } : {};
+    switch (value.className) {
+        case 'InputEventKey': {
+            const physical = numberProperty(value, 'physical_keycode');
+            const code = physical || numberProperty(value, 'keycode') || numberProperty(value, 'key_label');
+            return {
+                type: 'key',
+                key: enumName(code, KEY_CODES),
+                ...(physical ? {} : { physical: false }),
+                ...modifiers,
+                ...withDevice
+            };
+        }
+        case 'InputEventMouseButton':
+            return {
+                type: 'mouse_button',
+                button: enumName(numberProperty(value, 'button_index'), MOUSE_BUTTON_CODES).toLowerCase(),
+                ...modifiers,
+                ...withDevice
+            };
+        case 'InputEventJoypadButton':
+            return {
+                type: 'joypad_button',
+                button: enumName(numberProperty(value, 'button_index'), JOY_BUTTON_CODES).toLowerCase(),
+                ...withDevice
+            };
+        case 'InputEventJoypadMotion':
+            return {
+                type: 'joypad_axis',
+                axis: enumName(numberProperty(value, 'axis'), JOY_AXIS_CODES).toLowerCase(),
+                direction: numberProperty(value, 'axis_value') < 0 ? -1 : 1,
+                ...withDevice
+            };
+    }
+    return { type: 'other', godot: formatVariant(value) };
+}
+
+// Whether two stored events would trigger on the same input
+function sameEvent(a: Variant, b: Variant): boolean {
+    return JSON.stringify(variantToInputEvent(a)) === JSON.stringify(variantToInputEvent(b));
+}
+
+function readAction(doc: TscnDocument, name: string): InputAction | undefined {
+    const value = getSetting(doc, `input/${name}`);
+    if (!isVariantKind(value, 'dictionary')) {
+        return undefined;
+    }
+    const deadzone = dictionaryGet(value, 'deadzone');
+    const events = dictionaryGet(value, 'events');
+    return {
+        name,
+        deadzone: typeof deadzone === 'number' ? deadzone : DEFAULT_DEADZONE,
+        events: Array.isArray(events) ? events.map(variantToInputEvent) : []
+    };
+}
+
+function writeAction(doc: TscnDocument, name: string, deadzone: number, events: Variant[]) {
+    putSetting(doc, `input/${name}`, {
+        kind: 'dictionary',
+        entries: [['deadzone', deadzone], ['events', events]]
+    });
+}
+
+// Stored events of an action, as Variants
+function actionEvents(doc: TscnDocument, name: string): Variant[] {
+    const value = getSetting(doc, `input/${name}`);
+    const events = isVariantKind(value, 'dictionary') ? dictionaryGet(value, 'events') : undefined;
+    return Array.isArray(events) ? [...events] : [];
+}
+
+// List the input actions defined in the project (not the built-in ui_* actions unless overridden)
+export async function listInputActions(projectPath: string): Promise<InputAction[]> {
+    const doc = await readProjectFile(projectPath);
+    const section = doc.sections.find(s => s.tag === 'input');
+    return (section?.properties ?? [])
+        .map(property => readAction(doc, property.key))
+        .filter((action): action is InputAction => action !== undefined);
+}
+
+// Add an input action, optionally with its first events
+export async function addInputAction(
+    projectPath: string,
+    name: string,
+    events: InputEventJson[] = [],
+    deadzone: number = DEFAULT_DEADZONE
+): Promise<string> {
+    if (name.trim() === '' || /[\s"=\[\]]/.test(name)) {
+        throw new Error(`Invalid action name: ${name}`);
+    }
+    const variants = events.map(inputEventToVariant);
+
+    return editProjectFile(projectPath, doc => {
+        if (getSetting(doc, `input/${name}`) !== undefined) {
+            throw new Error(`Input action already exists: ${name}`);
+        }
+        writeAction(doc, name, deadzone, variants);
+        return `Added input action ${name} with ${variants.length} event(s)`;
+    });
+}
+
+// Remove an input action
+export async function removeInputAction(projectPath: string, name: string): Promise<string> {
+    return editProjectFile(projectPath, doc => {
+        if (getSetting(doc, `input/${name}`) === undefined) {
+            throw new Error(`Input action not found: ${name}`);
+        }
+        putSetting(doc, `input/${name}`, undefined);
+        return `Removed input action ${name}`;
+    });
+}
+
+// Bind an event to an action, or unbind it; binding an event twice has no effect
+export async function bindInputEvent(
+    projectPath: string,
+    name: string,
+    event: InputEventJson,
+    unbind: boolean = false
+): Promise<string> {
+    const variant = inputEventToVariant(event);
+
+    return editProjectFile(projectPath, doc => {
+        const action = readAction(doc, name);
+        if (!action) {
+            throw new Error(`Input action not found: ${name}`);
+        }
+
+        const events = actionEvents(doc, name);
+        const index = events.findIndex(existing => sameEvent(existing, variant));
+        if (unbind) {
+            if (index === -1) {
+                throw new Error(`Event is not bound to ${name}`);
+            }
+            events.splice(index, 1);
+        } else if (index === -1) {
+            events.push(variant);
+        }
+
+        writeAction(doc, name, action.deadzone, events);
+        return unbind
+            ? `Unbound event from ${name}`
+            : `${index === -1 ? 'Bound' : 'Already bound'}: event on ${name} (${events.length} event(s))`;
+    });
+}
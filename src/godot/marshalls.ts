@@ -0,0 +1,326 @@
+import { Variant, VariantConstructor } from './variant.js';
+
+// Godot's binary Variant format (core/io/marshalls.cpp), as used by the remote debugger and
+// PacketPeer. Values decode to the same Variant model as the text formats; objects sent as
+// instance ids become EncodedObjectAsID(id). 64-bit integers a number cannot hold exactly
+// (large ints, object ids, RIDs) decode to bigints.
+
+// Variant::Type, in order
+export const VARIANT_TYPES = [
+    'Nil', 'bool', 'int', 'float', 'String', 'Vector2', 'Vector2i', 'Rect2', 'Rect2i', 'Vector3',
+    'Vector3i', 'Transform2D', 'Vector4', 'Vector4i', 'Plane', 'Quaternion', 'AABB', 'Basis',
+    'Transform3D', 'Projection', 'Color', 'StringName', 'NodePath', 'RID', 'Object', 'Callable',
+    'Signal', 'Dictionary', 'Array', 'PackedByteArray', 'PackedInt32Array', 'PackedInt64Array',
+    'PackedFloat32Array', 'PackedFloat64Array', 'PackedStringArray', 'PackedVector2Array',
+    'PackedVector3Array', 'PackedColorArray', 'PackedVector4Array'
+];
+
+const TYPE_MASK = 0xFF;
+// 64-bit ints, doubles and double precision math types; objects sent as ids use the same bit
+const FLAG_64 = 1 << 16;
+// Containers: bit 31 of the size marks shared arrays and dictionaries
+const SIZE_MASK = 0x7FFFFFFF;
+// Element type of typed arrays (bits 16-17) and typed dictionary keys/values (16-17, 18-19)
+const CONTAINER_TYPE_NONE = 0;
+const CONTAINER_TYPE_BUILTIN = 1;
+const CONTAINER_TYPE_CLASS_NAME = 2;
+const CONTAINER_TYPE_SCRIPT = 3;
+
+// Number of real_t components of the math types
+const REAL_COMPONENTS: Record<string, number> = {
+    Vector2: 2, Rect2: 4, Vector3: 3, Transform2D: 6, Vector4: 4, Plane: 4, Quaternion: 4,
+    AABB: 6, Basis: 9, Transform3D: 12, Projection: 16
+};
+const INT_COMPONENTS: Record<string, number> = { Vector2i: 2, Rect2i: 4, Vector3i: 3, Vector4i: 4 };
+const PACKED_VECTOR_COMPONENTS: Record<string, number> = { PackedVector2Array: 2, PackedVector3Array: 3, PackedVector4Array: 4 };
+
+function typeId(name: string): number {
+    return VARIANT_TYPES.indexOf(name);
+}
+
+function constructor(name: string, args: Variant[]): VariantConstructor {
+    return { kind: 'constructor', name, args };
+}
+
+function toInteger(value: bigint): number | bigint {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+}
+
+// Reads values from a buffer, failing on truncated data
+class Reader {
+    constructor(private buffer: Buffer, public offset: number) {}
+
+    private need(size: number) {
+        if (this.offset + size > this.buffer.length) {
+            throw new Error(`Truncated Variant data at byte ${this.offset}`);
+        }
+    }
+
+    uint32(): number {
+        this.need(4);
+        const value = this.buffer.readUInt32LE(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    int32(): number {
+        this.need(4);
+        const value = this.buffer.readInt32LE(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    int64(): number | bigint {
+        this.need(8);
+        const value = toInteger(this.buffer.readBigInt64LE(this.offset));
+        this.offset += 8;
+        return value;
+    }
+
+    uint64(): number | bigint {
+        this.need(8);
+        const value = toInteger(this.buffer.readBigUInt64LE(this.offset));
+        this.offset += 8;
+        return value;
+    }
+
+    float(): number {
+        this.need(4);
+        const value = this.buffer.readFloatLE(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    double(): number {
+        this.need(8);
+        const value = this.buffer.readDoubleLE(this.offset);
+        this.offset += 8;
+        return value;
+    }
+
+    real(is64: boolean): number {
+        return is64 ? this.double() : this.float();
+    }
+
+    // Strings are their UTF-8 length, the bytes and padding to 4 bytes
+    string(): string {
+        const length = this.uint32();
+        this.need(length);
+        const value = this.buffer.toString('utf8', this.offset, this.offset + length);
+        this.offset += length + (4 - length % 4) % 4;
+        return value;
+    }
+
+    bytes(length: number): Buffer {
+        this.need(length);
+        const value = this.buffer.subarray(this.offset, this.offset + length);
+        this.offset += length + (4 - length % 4) % 4;
+        return value;
+    }
+}
+
+// Element type of a typed container, or undefined for untyped ones
+function readContainerType(reader: Reader, kind: number): string | undefined {
+    switch (kind) {
+        case CONTAINER_TYPE_NONE:
+            return undefined;
+        case CONTAINER_TYPE_BUILTIN:
+            return VARIANT_TYPES[reader.uint32()] ?? 'Variant';
+        case CONTAINER_TYPE_CLASS_NAME:
+        case CONTAINER_TYPE_SCRIPT:
+            return reader.string();
+        default:
+            throw new Error(`Invalid container type: ${kind}`);
+    }
+}
+
+function readValue(reader: Reader): Variant {
+    const header = reader.uint32();
+    const type = VARIANT_TYPES[header & TYPE_MASK];
+    const is64 = (header & FLAG_64) !== 0;
+
+    if (type in REAL_COMPONENTS) {
+        return constructor(type, Array.from({ length: REAL_COMPONENTS[type] }, () => reader.real(is64)));
+    }
+    if (type in INT_COMPONENTS) {
+        return constructor(type, Array.from({ length: INT_COMPONENTS[type] }, () => reader.int32()));
+    }
+
+    switch (type) {
+        case 'Nil':
+            return null;
+        case 'bool':
+            return reader.int32() !== 0;
+        case 'int':
+            return is64 ? reader.int64() : reader.int32();
+        case 'float':
+            return is64 ? reader.double() : reader.float();
+        case 'String':
+            return reader.string();
+        case 'Color':
+            return constructor(type, [reader.float(), reader.float(), reader.float(), reader.float()]);
+        case 'StringName':
+            return { kind: 'string_name', value: reader.string() };
+        case 'NodePath': {
+            const nameCount = reader.uint32();
+            if ((nameCount & 0x80000000) === 0) {
+                throw new Error('Unsupported NodePath encoding');
+            }
+            const subnameCount = reader.uint32();
+            const flags = reader.uint32();
+            const names = Array.from({ length: nameCount & SIZE_MASK }, () => reader.string());
+            // Bit 2 is an old format that stored the property separately from the subnames
+            const subnames = Array.from({ length: subnameCount + (flags & 2 ? 1 : 0) }, () => reader.string());
+            const text = ((flags & 1) ? '/' : '') + names.join('/') + subnames.map(subname => `:${subname}`).join('');
+            return { kind: 'node_path', value: text };
+        }
+        case 'RID':
+            return constructor(type, [reader.uint64()]);
+        case 'Object': {
+            if (is64) {
+                const id = reader.uint64();
+                return id === 0 ? null : constructor('EncodedObjectAsID', [id]);
+            }
+            const className = reader.string();
+            if (className === '') {
+                return null;
+            }
+            const count = reader.uint32();
+            const properties: [string, Variant][] = [];
+            for (let i = 0; i < count; i++) {
+                properties.push([reader.string(), readValue(reader)]);
+            }
+            return { kind: 'object', className, properties };
+        }
+        case 'Callable':
+            return constructor(type, []);
+        case 'Signal': {
+            const name = reader.string();
+            return constructor(type, [reader.uint64(), name]);
+        }
+        case 'Dictionary': {
+            const keyType = readContainerType(reader, (header >> 16) & 3);
+            const valueType = readContainerType(reader, (header >> 18) & 3);
+            const count = reader.uint32() & SIZE_MASK;
+            const entries: [Variant, Variant][] = [];
+            for (let i = 0; i < count; i++) {
+                entries.push([readValue(reader), readValue(reader)]);
+            }
+            return keyType !== undefined || valueType !== undefined
+                ? { kind: 'dictionary', entries, keyType: keyType ?? 'Variant', valueType: valueType ?? 'Variant' }
+                : { kind: 'dictionary', entries };
+        }
+        case 'Array': {
+            const elementType = readContainerType(reader, (header >> 16) & 3);
+            const count = reader.uint32() & SIZE_MASK;
+            const items = Array.from({ length: count }, () => readValue(reader));
+            return elementType !== undefined ? { kind: 'typed_array', elementType, items } : items;
+        }
+        case 'PackedByteArray':
+            return constructor(type, [...reader.bytes(reader.uint32())]);
+        case 'PackedInt32Array':
+            return constructor(type, Array.from({ length: reader.uint32() }, () => reader.int32()));
+        case 'PackedInt64Array':
+            return constructor(type, Array.from({ length: reader.uint32() }, () => reader.int64()));
+        case 'PackedFloat32Array':
+            return constructor(type, Array.from({ length: reader.uint32() }, () => reader.float()));
+        case 'PackedFloat64Array':
+            return constructor(type, Array.from({ length: reader.uint32() }, () => reader.double()));
+        case 'PackedStringArray':
+            return constructor(type, Array.from({ length: reader.uint32() }, () => reader.string()));
+        case 'PackedVector2Array':
+        case 'PackedVector3Array':
+        case 'PackedVector4Array':
+            return constructor(type, Array.from({ length: reader.uint32() * PACKED_VECTOR_COMPONENTS[type] }, () => reader.real(is64)));
+        case 'PackedColorArray':
+            return constructor(type, Array.from({ length: reader.uint32() * 4 }, () => reader.float()));
+        default:
+            throw new Error(`Unknown Variant type: ${header & TYPE_MASK}`);
+    }
+}
+
+// Decode one value starting at offset; returns the value and the number of bytes it used
+export function decodeVariant(buffer: Buffer, offset: number = 0): { value: Variant; length: number } {
+    const reader = new Reader(buffer, offset);
+    const value = readValue(reader);
+    return { value, length: reader.offset - offset };
+}
+
+function uint32(value: number): Buffer {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(value >>> 0);
+    return buffer;
+}
+
+function encodeString(value: string): Buffer {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([uint32(bytes.length), bytes, Buffer.alloc((4 - bytes.length % 4) % 4)]);
+}
+
+function encodeInt64(value: bigint): Buffer {
+    const buffer = Buffer.alloc(12);
+    buffer.writeUInt32LE(typeId('int') | FLAG_64);
+    buffer.writeBigInt64LE(value, 4);
+    return buffer;
+}
+
+// Encode a value. Integral numbers and bigints become ints, other numbers floats. Only the types the
+// debugger protocol sends are supported: scalars, strings, string names, node paths,
+// arrays and dictionaries.
+export function encodeVariant(value: Variant): Buffer {
+    if (value === null) {
+        return uint32(typeId('Nil'));
+    }
+    if (typeof value === 'boolean') {
+        return Buffer.concat([uint32(typeId('bool')), uint32(value ? 1 : 0)]);
+    }
+    if (typeof value === 'number') {
+        if (Number.isInteger(value)) {
+            if (value >= -0x80000000 && value <= 0x7FFFFFFF) {
+                const buffer = Buffer.alloc(8);
+                buffer.writeUInt32LE(typeId('int'));
+                buffer.writeInt32LE(value, 4);
+                return buffer;
+            }
+            return encodeInt64(BigInt(value));
+        }
+        const buffer = Buffer.alloc(12);
+        buffer.writeUInt32LE(typeId('float') | FLAG_64);
+        buffer.writeDoubleLE(value, 4);
+        return buffer;
+    }
+    if (typeof value === 'bigint') {
+        return encodeInt64(value);
+    }
+    if (typeof value === 'string') {
+        return Buffer.concat([uint32(typeId('String')), encodeString(value)]);
+    }
+    if (Array.isArray(value)) {
+        return Buffer.concat([uint32(typeId('Array')), uint32(value.length), ...value.map(encodeVariant)]);
+    }
+
+    switch (value.kind) {
+        case 'string_name':
+            return Buffer.concat([uint32(typeId('StringName')), encodeString(value.value)]);
+        case 'node_path': {
+            const absolute = value.value.startsWith('/');
+            const [path, ...subnames] = value.value.replace(/^\//, '').split(':');
+            const names = path === '' ? [] : path.split('/');
+            return Buffer.concat([
+                uint32(typeId('NodePath')),
+                uint32(names.length | 0x80000000),
+                uint32(subnames.length),
+                uint32(absolute ? 1 : 0),
+                ...[...names, ...subnames].map(encodeString)
+            ]);
+        }
+        case 'dictionary':
+            return Buffer.concat([
+                uint32(typeId('Dictionary')),
+                uint32(value.entries.length),
+                ...value.entries.flatMap(([key, entry]) => [encodeVariant(key), encodeVariant(entry)])
+            ]);
+        default:
+            throw new Error(`Cannot encode ${value.kind} values`);
+    }
+}
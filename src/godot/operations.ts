@@ -1,4 +1,14 @@
-import { findGodotPath, runGodotCommand } from '../utils/godot-utils.js';
+import { resolveResPath, toResPath } from '../utils/godot-utils.js';
+import { runWorkerOperations } from './worker.js';
+import { searchFiles, createUnifiedDiff } from '../utils/file-operations.js';
+import { readTscnFile, writeTscnFile, parseTscn, serializeTscn, setProperty, removeProperty, getProperty, TscnDocument, TscnSection } from './tscn.js';
+import * as scene from './scene.js';
+import { generateUid, readResourceUid, usesUidFiles } from './uid.js';
+import { ScriptSpec, generateScript } from './gdscript.js';
+import * as signals from './signals.js';
+import { extResource } from './variant.js';
+import { loadClassDb, ClassDb } from './class-db.js';
+import { jsonToVariant, variantToJsonValue, readNodeScriptVariables, resolvePropertyType } from './properties.js';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
@@ -6,7 +16,7 @@ import * as os from 'os';
 // Path to the GDScript operations file
 let gdScriptPath: string | null = null;
 
-// Initialize the operations script
+// Initialize the operations script; the worker loads it and calls its methods by operation name
 export async function initOperationsScript(): Promise<string> {
     // Create the script in a temp directory
     if (!gdScriptPath) {
@@ -14,73 +24,14 @@ export async function initOperationsScript(): Promise<string> {
         gdScriptPath = path.join(tempDir, 'godot_operations.gd');
 
         // Define the script content directly
-        const gdScriptContent = `@tool
-extends SceneTree
+        const gdScriptContent = `extends RefCounted
 
-# Operations script for Godot MCP Server
-var result = {}
-
-func _init():
-    var args = OS.get_cmdline_args()
-    
-    # Better error handling for arguments
-    if args.size() < 2:
-        print_error("Missing operation parameters")
-        quit(1)
-        return
-    
-    # Read operation data from file instead of command line
-    var json_file_path = args[1]
-    if not FileAccess.file_exists(json_file_path):
-        print_error("JSON file not found: " + json_file_path)
-        quit(1)
-        return
-    
-    # Read the file content
-    var file = FileAccess.open(json_file_path, FileAccess.READ)
-    var json_text = file.get_as_text()
-    file.close()
-    
-    # Parse JSON
-    var json = JSON.new()
-    var parse_result = json.parse(json_text)
-    if parse_result != OK:
-        print_error("Failed to parse JSON: " + json.get_error_message() + " at line " + str(json.get_error_line()))
-        quit(1)
-        return
-    
-    var operation_data = json.get_data()
-    if operation_data == null:
-        print_error("Invalid JSON data")
-        quit(1)
-        return
-    
-    # Handle the operation
-    handle_operation(operation_data)
-    quit()
-
-func handle_operation(data):
-    if not data.has("operation"):
-        print_error("Missing operation type")
-        return
-    
-    var operation = data["operation"]
-    print("Executing operation: " + operation)
-    
-    match operation:
-        "get_scene_tree":
-            get_scene_tree(data)
-        "create_scene":
-            create_scene(data)
-        "add_node":
-            add_node(data)
-        _:
-            print_error("Unknown operation: " + operation)
+# Operations script for Godot MCP Server. Each operation takes the request
+# parameters and returns a result dictionary.
 
 func create_scene(data):
     if not data.has("projectPath") or not data.has("sceneName"):
-        print_error("Missing required parameters for create_scene")
-        return
+        return fail("Missing required parameters for create_scene")
     
     var project_path = data["projectPath"]
     var scene_name = data["sceneName"]
@@ -89,75 +40,35 @@ func create_scene(data):
     if data.has("nodeType"):
         node_type = data["nodeType"]
     
-    print("Creating scene: " + scene_name + " with root node type: " + node_type)
-    
-    # Create the scene
-    var scene = SceneTree.new()
-    var root = Node.new()
-    
-    # Try to create the desired node type dynamically
-    var script = GDScript.new()
-    script.source_code = "extends RefCounted\\nfunc create():\\n\\treturn " + node_type + ".new()"
-    script.reload()
-    var root_node = script.new().create()
-    
-    if root_node == null:
-        print_error("Failed to create node of type: " + node_type)
-        return
-    
+    if not ClassDB.class_exists(node_type) or not ClassDB.is_parent_class(node_type, "Node"):
+        return fail("Failed to create node of type: " + node_type)
+    var root_node = ClassDB.instantiate(node_type)
     root_node.name = scene_name.get_file().get_basename()
     
     # Save the scene
-    var scene_path = "res://scenes/"
     if not DirAccess.dir_exists_absolute(project_path + "/scenes"):
         DirAccess.make_dir_recursive_absolute(project_path + "/scenes")
     
     var full_path = project_path + "/scenes/" + scene_name + ".tscn"
     var packed_scene = PackedScene.new()
     packed_scene.pack(root_node)
+    root_node.free()
     
     var save_result = ResourceSaver.save(packed_scene, full_path)
     if save_result != OK:
-        print_error("Failed to save scene to: " + full_path + ", error: " + str(save_result))
-        return
+        return fail("Failed to save scene to: " + full_path + ", error: " + str(save_result))
     
-    result = {
+    return {
         "success": true,
         "message": "Scene created at " + full_path
     }
-    print_json(result)
 
-func get_scene_tree(data):
-    # Implementation for getting scene tree
-    result = {
-        "success": true,
-        "data": {
-            "name": "Scene Tree Example",
-            "nodes": [
-                {"name": "Root", "type": "Node3D"},
-                {"name": "Camera", "type": "Camera3D"}
-            ]
-        }
-    }
-    print_json(result)
-
-func add_node(data):
-    # Implementation for adding a node
-    result = {
-        "success": true,
-        "message": "Node added"
-    }
-    print_json(result)
-
-func print_error(message):
-    result = {
+func fail(message):
+    return {
         "success": false,
         "error": message
     }
-    print_json(result)
-
-func print_json(data):
-    print(JSON.stringify(data))`;
+`;
 
         // Write the script content to the temp file
         try {
@@ -170,90 +81,626 @@ func print_json(data):
     return gdScriptPath;
 }
 
-// Run a Godot operation using the GDScript operations file
+// Run a Godot operation in the project's worker process
 export async function runGodotOperation(
     projectPath: string,
     operation: string,
     params: any = {}
 ): Promise<any> {
-    const godotPath = await findGodotPath();
-    if (!godotPath) {
-        throw new Error('Godot executable not found');
-    }
+    const [result] = await runGodotOperations(projectPath, [{ operation, params }]);
+    return result;
+}
 
+// Run several operations in one engine session, in order
+export async function runGodotOperations(
+    projectPath: string,
+    requests: { operation: string; params?: any }[],
+    timeoutMs?: number
+): Promise<any[]> {
     const scriptPath = await initOperationsScript();
-
-    // Prepare the operation data
-    const operationData = {
-        operation,
+    return runWorkerOperations(
         projectPath,
-        ...params
-    };
-
-    // Write the JSON to a temporary file instead of passing as command line
-    const tempDir = os.tmpdir();
-    const tempJsonPath = path.join(tempDir, `godot_op_${Date.now()}.json`);
-    fs.writeFileSync(tempJsonPath, JSON.stringify(operationData));
-
-    // Run the operation script, passing the temp file path
-    const { stdout, stderr } = await runGodotCommand(
-        godotPath,
-        ['--script', scriptPath, tempJsonPath],
-        projectPath
+        scriptPath,
+        requests.map(item => ({ operation: item.operation, params: { projectPath, ...item.params } })),
+        timeoutMs
     );
+}
 
-    // Clean up the temp file
+// Define specific operations
+
+// Read the node hierarchy of a scene file directly, no Godot process needed
+export async function getSceneTree(
+    projectPath: string,
+    scenePath: string,
+    options: scene.SceneTreeOptions = {}
+): Promise<any> {
     try {
-        fs.unlinkSync(tempJsonPath);
-    } catch (e) {
-        console.error("Failed to clean up temp file:", e);
+        const tree = await scene.getSceneTree(projectPath, scenePath, options);
+        return { success: true, data: tree };
+    } catch (error: any) {
+        return { success: false, error: error.message };
     }
+}
+
+export async function createScene(
+    projectPath: string,
+    sceneName: string,
+    nodeType: string = 'Node3D'
+): Promise<any> {
+    return runGodotOperation(projectPath, 'create_scene', {
+        sceneName,
+        nodeType
+    });
+}
 
-    if (stderr && stderr.length > 0) {
-        console.error('GDScript operation error:', stderr);
+// Type of the node an @onready reference points at, relative to the node the script is attached to
+function referencedNodeType(doc: TscnDocument, owner: TscnSection, nodePath: string): string | undefined {
+    let target: TscnSection | undefined;
+    if (nodePath.startsWith('%')) {
+        target = scene.getNodeSections(doc).find(section =>
+            section.attributes.name === nodePath.slice(1) && getProperty(section, 'unique_name_in_owner') === true);
+    } else {
+        const ownerPath = scene.getNodePath(owner);
+        target = scene.findNode(doc, path.posix.normalize(ownerPath === '.' ? nodePath : `${ownerPath}/${nodePath}`));
+    }
+    if (!target) {
+        throw new Error(`Node not found for @onready reference: ${nodePath}`);
     }
+    return typeof target.attributes.type === 'string' ? target.attributes.type : undefined;
+}
 
-    // Parse the result JSON
+// Write a GDScript file from a structured description and optionally attach it to a node in a scene
+export async function createScript(
+    projectPath: string,
+    scriptPath: string,
+    spec: ScriptSpec,
+    attach?: { scenePath: string; nodePath: string },
+    overwrite: boolean = false
+): Promise<any> {
     try {
-        // Look for a JSON object in the output (Godot might print other info too)
-        const jsonMatch = stdout.match(/{[\s\S]*}/);
-        if (jsonMatch) {
-            const result = JSON.parse(jsonMatch[0]);
-            return result;
-        } else {
-            throw new Error(`No JSON found in output: ${stdout}`);
+        const resPath = toResPath(projectPath, scriptPath);
+        const filePath = resolveResPath(projectPath, resPath);
+        if (!resPath.endsWith('.gd')) {
+            throw new Error(`Scripts must have the .gd extension: ${scriptPath}`);
         }
-    } catch (error) {
-        throw new Error(`Failed to parse GDScript operation result: ${stdout}`);
+        if (fs.existsSync(filePath) && !overwrite) {
+            throw new Error(`Script already exists: ${resPath}`);
+        }
+
+        const classDb = await tryLoadClassDb(projectPath);
+        let onready = spec.onready;
+        let doc: TscnDocument | undefined;
+        let node: TscnSection | undefined;
+        if (attach) {
+            const scenePath = resolveResPath(projectPath, attach.scenePath);
+            if (!fs.existsSync(scenePath)) {
+                throw new Error(`Scene not found: ${attach.scenePath}`);
+            }
+            doc = await readTscnFile(scenePath);
+            node = scene.findNode(doc, attach.nodePath);
+            if (!node) {
+                throw new Error(`Node not found: ${attach.nodePath}`);
+            }
+
+            const nodeType = typeof node.attributes.type === 'string' ? node.attributes.type : undefined;
+            const baseClass = spec.extends ?? 'Node';
+            if (classDb && nodeType && classDb.hasClass(baseClass) && !classDb.inheritsFrom(nodeType, baseClass)) {
+                throw new Error(`A script extending ${baseClass} cannot be attached to a ${nodeType} node`);
+            }
+            // Type the @onready variables from the scene when no type is given
+            const owner = node;
+            onready = onready?.map(reference => reference.type
+                ? reference
+                : { ...reference, type: referencedNodeType(doc!, owner, reference.nodePath) });
+        }
+
+        const source = generateScript({ ...spec, onready }, classDb);
+        if (spec.className) {
+            const { matches } = searchFiles(projectPath, `^class_name\\s+${spec.className}\\b`, { glob: '*.gd' });
+            const other = matches.find(match => `res://${match.file}` !== resPath);
+            if (other) {
+                throw new Error(`class_name ${spec.className} is already used by res://${other.file}`);
+            }
+        }
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, source);
+
+        let uid = readResourceUid(filePath);
+        if (!uid && await usesUidFiles(projectPath)) {
+            uid = generateUid();
+            fs.writeFileSync(`${filePath}.uid`, `${uid}\n`);
+        }
+
+        let message = `Created ${resPath}`;
+        if (doc && node && attach) {
+            const previous = setNodeScript(doc, node, resPath, uid);
+            await writeTscnFile(resolveResPath(projectPath, attach.scenePath), doc);
+            message += ` and attached it to ${scene.getNodePath(node)} in ${attach.scenePath}`
+                + (previous && previous !== resPath ? ` (replacing ${previous})` : '');
+        }
+
+        return { success: true, scriptPath: resPath, source, message };
+    } catch (error: any) {
+        return { success: false, error: error.message };
     }
 }
 
-// Define specific operations
+// Point the script property of a node at a script; returns the script it replaces
+function setNodeScript(doc: TscnDocument, node: TscnSection, resPath: string, uid?: string): string | undefined {
+    const previous = scene.resolveExtResourcePath(doc, getProperty(node, 'script'));
+    setProperty(node, 'script', extResource(scene.addExtResource(doc, 'Script', resPath, uid)));
+    return previous;
+}
+
+// Attach an existing script to a node, checking that the script can extend the node's class
+function attachScriptInScene(
+    projectPath: string,
+    doc: TscnDocument,
+    nodePath: string,
+    scriptPath: string,
+    classDb: ClassDb | null
+): any {
+    const node = scene.findNode(doc, nodePath);
+    if (!node) {
+        throw new Error(`Node not found: ${nodePath}`);
+    }
+    const resPath = toResPath(projectPath, scriptPath);
+    const filePath = resolveResPath(projectPath, resPath);
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Script not found: ${resPath}`);
+    }
+
+    const nodeType = typeof node.attributes.type === 'string' ? node.attributes.type : undefined;
+    const baseClass = resPath.endsWith('.gd') ? signals.readScriptSignals(projectPath, resPath).baseClass : undefined;
+    if (classDb && nodeType && baseClass && classDb.hasClass(baseClass) && !classDb.inheritsFrom(nodeType, baseClass)) {
+        throw new Error(`${resPath} extends ${baseClass} and cannot be attached to a ${nodeType} node`);
+    }
 
-export async function getSceneTree(projectPath: string): Promise<any> {
-    return runGodotOperation(projectPath, 'get_scene_tree');
+    const previous = setNodeScript(doc, node, resPath, readResourceUid(filePath));
+    const normalized = scene.getNodePath(node);
+    return {
+        nodePath: normalized,
+        message: `Attached ${resPath} to ${normalized}` + (previous && previous !== resPath ? ` (replacing ${previous})` : '')
+    };
 }
 
-export async function createScene(
+// Load a scene file, apply an edit and write it back. Nothing is written if the edit throws.
+async function editScene(
     projectPath: string,
-    sceneName: string,
-    nodeType: string = 'Node3D'
+    scenePath: string,
+    edit: (doc: TscnDocument) => any | Promise<any>
 ): Promise<any> {
-    return runGodotOperation(projectPath, 'create_scene', {
-        sceneName,
-        nodeType
-    });
+    try {
+        const filePath = resolveResPath(projectPath, scenePath);
+        if (!fs.existsSync(filePath)) {
+            throw new Error(`Scene not found: ${scenePath}`);
+        }
+
+        const doc = await readTscnFile(filePath);
+        const result = await edit(doc);
+        await writeTscnFile(filePath, doc);
+
+        return { success: true, ...result };
+    } catch (error: any) {
+        return { success: false, error: error.message };
+    }
 }
 
 export async function addNode(
     projectPath: string,
+    scenePath: string,
     parentPath: string,
     nodeName: string,
-    nodeType: string
+    nodeType: string,
+    index?: number
 ): Promise<any> {
-    return runGodotOperation(projectPath, 'add_node', {
-        parentPath,
-        nodeName,
-        nodeType
+    return editScene(projectPath, scenePath, doc => {
+        const nodePath = scene.addNode(doc, parentPath, nodeName, nodeType, index);
+        return { nodePath, message: `Added ${nodeType} "${nodeName}" at ${nodePath}` };
+    });
+}
+
+export async function removeNode(
+    projectPath: string,
+    scenePath: string,
+    nodePath: string
+): Promise<any> {
+    return editScene(projectPath, scenePath, doc => {
+        const removed = scene.removeNode(doc, nodePath);
+        return { removed, message: `Removed ${removed.length} node(s): ${removed.join(', ')}` };
+    });
+}
+
+export async function renameNode(
+    projectPath: string,
+    scenePath: string,
+    nodePath: string,
+    newName: string
+): Promise<any> {
+    return editScene(projectPath, scenePath, doc => {
+        const newPath = scene.renameNode(doc, nodePath, newName);
+        return { nodePath: newPath, message: `Renamed ${nodePath} to ${newPath}` };
+    });
+}
+
+export async function reparentNode(
+    projectPath: string,
+    scenePath: string,
+    nodePath: string,
+    newParentPath: string,
+    index?: number
+): Promise<any> {
+    return editScene(projectPath, scenePath, doc => {
+        const newPath = scene.reparentNode(doc, nodePath, newParentPath, index);
+        return { nodePath: newPath, message: `Moved ${nodePath} to ${newPath}` };
+    });
+}
+
+export async function duplicateNode(
+    projectPath: string,
+    scenePath: string,
+    nodePath: string,
+    newName?: string
+): Promise<any> {
+    return editScene(projectPath, scenePath, doc => {
+        const newPath = scene.duplicateNode(doc, nodePath, newName);
+        return { nodePath: newPath, message: `Duplicated ${nodePath} as ${newPath}` };
     });
-}
\ No newline at end of file
+}
+
+export async function reorderNode(
+    projectPath: string,
+    scenePath: string,
+    nodePath: string,
+    index: number
+): Promise<any> {
+    return editScene(projectPath, scenePath, doc => {
+        const newPath = scene.reorderNode(doc, nodePath, index);
+        return { nodePath: newPath, message: `Moved ${newPath} to child index ${index}` };
+    });
+}
+
+// Class reference used to validate properties; validation is skipped when Godot is not available
+async function tryLoadClassDb(projectPath: string): Promise<ClassDb | null> {
+    try {
+        return await loadClassDb(projectPath);
+    } catch (error) {
+        console.error('Failed to load the Godot class reference:', error);
+        return null;
+    }
+}
+
+export async function getNodeProperties(
+    projectPath: string,
+    scenePath: string,
+    nodePath: string,
+    includeClassProperties: boolean = false
+): Promise<any> {
+    try {
+        const filePath = resolveResPath(projectPath, scenePath);
+        if (!fs.existsSync(filePath)) {
+            throw new Error(`Scene not found: ${scenePath}`);
+        }
+
+        const doc = await readTscnFile(filePath);
+        const section = scene.findNode(doc, nodePath);
+        if (!section) {
+            throw new Error(`Node not found: ${nodePath}`);
+        }
+
+        const type = typeof section.attributes.type === 'string' ? section.attributes.type : undefined;
+        const properties: Record<string, unknown> = {};
+        for (const property of section.properties) {
+            properties[property.key] = variantToJsonValue(property.value, doc);
+        }
+
+        const data: Record<string, unknown> = {
+            nodePath: scene.normalizeNodePath(doc, nodePath),
+            type,
+            instance: scene.resolveExtResourcePath(doc, section.attributes.instance),
+            properties
+        };
+
+        if (includeClassProperties && type) {
+            const classDb = await tryLoadClassDb(projectPath);
+            if (classDb) {
+                data.classProperties = classDb.listProperties(type).map(info => ({
+                    name: info.name,
+                    type: info.type,
+                    enum: info.enum?.values.map(v => v.name)
+                }));
+            }
+        }
+
+        return { success: true, data };
+    } catch (error: any) {
+        return { success: false, error: error.message };
+    }
+}
+
+// Resolves resources referenced by property values to ext_resources of the scene
+function propertyContext(projectPath: string, doc: TscnDocument, classDb: ClassDb | null) {
+    return {
+        classDb,
+        addResource: (resourcePath: string, resourceType: string) =>
+            scene.addExtResource(doc, resourceType, resourcePath, readResourceUid(resolveResPath(projectPath, resourcePath)))
+    };
+}
+
+async function setPropertiesInScene(
+    projectPath: string,
+    doc: TscnDocument,
+    nodePath: string,
+    properties: Record<string, unknown>,
+    reset: string[],
+    classDb: ClassDb | null
+): Promise<any> {
+    const section = scene.findNode(doc, nodePath);
+    if (!section) {
+        throw new Error(`Node not found: ${nodePath}`);
+    }
+
+    const type = typeof section.attributes.type === 'string' ? section.attributes.type : undefined;
+    const scriptVariables = readNodeScriptVariables(projectPath, doc, section);
+    const context = propertyContext(projectPath, doc, classDb);
+
+    // Convert everything first so an invalid value leaves the scene untouched
+    const values = Object.entries(properties).map(([key, value]) => {
+        try {
+            const expected = resolvePropertyType(classDb, type, scriptVariables, key);
+            return { key, value: jsonToVariant(value, expected.type, context, expected.enum) };
+        } catch (error: any) {
+            throw new Error(`Invalid value for "${key}": ${error.message}`);
+        }
+    });
+
+    for (const { key, value } of values) {
+        setProperty(section, key, value);
+    }
+    for (const key of reset) {
+        removeProperty(section, key);
+    }
+
+    const changed = [...values.map(v => v.key), ...reset];
+    const validation = classDb ? '' : ' (not validated: Godot executable not found)';
+    return {
+        nodePath: scene.normalizeNodePath(doc, nodePath),
+        message: `Updated ${changed.join(', ')} on ${scene.normalizeNodePath(doc, nodePath)}${validation}`
+    };
+}
+
+export async function setNodeProperties(
+    projectPath: string,
+    scenePath: string,
+    nodePath: string,
+    properties: Record<string, unknown>,
+    reset: string[] = []
+): Promise<any> {
+    const classDb = await tryLoadClassDb(projectPath);
+
+    return editScene(projectPath, scenePath, doc =>
+        setPropertiesInScene(projectPath, doc, nodePath, properties, reset, classDb));
+}
+
+// Connections of a scene, and with a node path also the signals that node can emit
+export async function listSignals(projectPath: string, scenePath: string, nodePath?: string): Promise<any> {
+    try {
+        const filePath = resolveResPath(projectPath, scenePath);
+        if (!fs.existsSync(filePath)) {
+            throw new Error(`Scene not found: ${scenePath}`);
+        }
+
+        const doc = await readTscnFile(filePath);
+        const data: Record<string, unknown> = { connections: signals.getConnections(doc, nodePath) };
+        if (nodePath !== undefined) {
+            const section = scene.findNode(doc, nodePath);
+            if (!section) {
+                throw new Error(`Node not found: ${nodePath}`);
+            }
+            data.signals = await signals.listNodeSignals(projectPath, doc, section, await tryLoadClassDb(projectPath));
+        }
+        return { success: true, data };
+    } catch (error: any) {
+        return { success: false, error: error.message };
+    }
+}
+
+type ConnectOptions = { flags?: signals.ConnectFlag[]; binds?: unknown[]; unbinds?: number; createMethod?: boolean };
+
+async function connectSignalInScene(
+    projectPath: string,
+    doc: TscnDocument,
+    signal: string,
+    fromPath: string,
+    toPath: string,
+    method: string,
+    options: ConnectOptions,
+    classDb: ClassDb | null
+): Promise<any> {
+    const source = scene.findNode(doc, fromPath);
+    const target = scene.findNode(doc, toPath);
+    if (!source) {
+        throw new Error(`Node not found: ${fromPath}`);
+    }
+    if (!target) {
+        throw new Error(`Node not found: ${toPath}`);
+    }
+
+    // The signal can only be ruled out when the class of the node is known
+    const available = await signals.listNodeSignals(projectPath, doc, source, classDb);
+    const signalInfo = available.find(info => info.name === signal);
+    const classKnown = classDb !== null && available.some(info => classDb.hasClass(info.source));
+    if (!signalInfo && classKnown) {
+        throw new Error(`${scene.getNodePath(source)} has no signal "${signal}"`);
+    }
+    const unbinds = options.unbinds ?? 0;
+    if (signalInfo && unbinds > signalInfo.arguments.length) {
+        throw new Error(`Cannot unbind ${unbinds} argument(s): ${signal} has ${signalInfo.arguments.length}`);
+    }
+
+    const context = propertyContext(projectPath, doc, classDb);
+    const binds = (options.binds ?? []).map(value => jsonToVariant(value, undefined, context));
+    const connection = signals.addConnection(doc, signal, fromPath, toPath, method, { flags: options.flags, binds, unbinds });
+
+    const notes: string[] = [];
+    if (!signalInfo) {
+        notes.push(`signal "${signal}" not validated: ${classDb ? 'the node class is unknown' : 'Godot executable not found'}`);
+    }
+    const { type, script } = await signals.describeNode(projectPath, doc, target);
+    if (script && signals.scriptHasMethod(projectPath, script, method)) {
+        // The handler exists
+    } else if (classDb && type && classDb.findMethod(type, method)) {
+        // Built-in method such as queue_free or hide
+    } else if (options.createMethod && script?.endsWith('.gd')) {
+        signals.appendMethodStub(projectPath, script, method, signalInfo, binds.length, unbinds);
+        notes.push(`added ${method}() to ${script}`);
+    } else {
+        notes.push(script
+            ? `${script} has no method "${method}"; set createMethod to add it`
+            : `${connection.to} has no script to handle "${method}"`);
+    }
+
+    return {
+        connection,
+        message: `Connected ${signal} of "${connection.from}" to ${method} of "${connection.to}"`
+            + (notes.length > 0 ? ` (${notes.join('; ')})` : '')
+    };
+}
+
+// Connect a signal of one node to a method of another, checking that the signal exists.
+// With createMethod, a missing handler is added to the target node's script.
+export async function connectSignal(
+    projectPath: string,
+    scenePath: string,
+    signal: string,
+    fromPath: string,
+    toPath: string,
+    method: string,
+    options: ConnectOptions = {}
+): Promise<any> {
+    const classDb = await tryLoadClassDb(projectPath);
+
+    return editScene(projectPath, scenePath, doc =>
+        connectSignalInScene(projectPath, doc, signal, fromPath, toPath, method, options, classDb));
+}
+
+// Remove a signal connection
+export async function disconnectSignal(
+    projectPath: string,
+    scenePath: string,
+    signal: string,
+    fromPath: string,
+    toPath: string,
+    method: string
+): Promise<any> {
+    return editScene(projectPath, scenePath, doc => {
+        const connection = signals.removeConnection(doc, signal, fromPath, toPath, method);
+        return { connection, message: `Disconnected ${signal} of "${connection.from}" from ${method} of "${connection.to}"` };
+    });
+}
+
+// One step of a batch of scene edits
+export type SceneEdit =
+    | { action: 'add_node'; scenePath: string; parentPath: string; nodeName: string; nodeType: string; index?: number }
+    | { action: 'remove_node'; scenePath: string; nodePath: string }
+    | { action: 'set_properties'; scenePath: string; nodePath: string; properties?: Record<string, unknown>; reset?: string[] }
+    | { action: 'attach_script'; scenePath: string; nodePath: string; scriptPath: string }
+    | {
+        action: 'connect_signal'; scenePath: string; signal: string; from: string; to: string; method: string;
+        flags?: signals.ConnectFlag[]; binds?: unknown[]; unbinds?: number
+    };
+
+async function applySceneEdit(projectPath: string, doc: TscnDocument, edit: SceneEdit, classDb: ClassDb | null): Promise<any> {
+    switch (edit.action) {
+        case 'add_node': {
+            const nodePath = scene.addNode(doc, edit.parentPath, edit.nodeName, edit.nodeType, edit.index);
+            return { nodePath, message: `Added ${edit.nodeType} "${edit.nodeName}" at ${nodePath}` };
+        }
+        case 'remove_node': {
+            const removed = scene.removeNode(doc, edit.nodePath);
+            return { removed, message: `Removed ${removed.length} node(s): ${removed.join(', ')}` };
+        }
+        case 'set_properties':
+            return setPropertiesInScene(projectPath, doc, edit.nodePath, edit.properties ?? {}, edit.reset ?? [], classDb);
+        case 'attach_script':
+            return attachScriptInScene(projectPath, doc, edit.nodePath, edit.scriptPath, classDb);
+        case 'connect_signal':
+            // Handlers are not generated here: writing scripts would escape the transaction
+            return connectSignalInScene(projectPath, doc, edit.signal, edit.from, edit.to, edit.method, {
+                flags: edit.flags,
+                binds: edit.binds,
+                unbinds: edit.unbinds
+            }, classDb);
+    }
+}
+
+// Apply edits to one or more scenes as a unit: every edit runs in memory first and the
+// scenes are only written when all of them succeed. With dryRun nothing is written and
+// a unified diff of each changed scene is returned instead.
+export async function applySceneEdits(projectPath: string, edits: SceneEdit[], dryRun: boolean = false): Promise<any> {
+    try {
+        const classDb = await tryLoadClassDb(projectPath);
+        const scenes = new Map<string, { scenePath: string; filePath: string; original: string; doc: TscnDocument }>();
+        const results: any[] = [];
+
+        for (const [index, edit] of edits.entries()) {
+            try {
+                const resPath = toResPath(projectPath, edit.scenePath);
+                let entry = scenes.get(resPath);
+                if (!entry) {
+                    const filePath = resolveResPath(projectPath, resPath);
+                    if (!fs.existsSync(filePath)) {
+                        throw new Error(`Scene not found: ${edit.scenePath}`);
+                    }
+                    const original = await fs.promises.readFile(filePath, 'utf8');
+                    let doc: TscnDocument;
+                    try {
+                        doc = parseTscn(original);
+                    } catch (error: any) {
+                        throw new Error(`Failed to parse ${resPath}: ${error.message}`);
+                    }
+                    entry = { scenePath: resPath, filePath, original, doc };
+                    scenes.set(resPath, entry);
+                }
+                const result = await applySceneEdit(projectPath, entry.doc, edit, classDb);
+                results.push({ action: edit.action, scenePath: resPath, ...result });
+            } catch (error: any) {
+                throw new Error(`Edit ${index + 1} (${edit.action}) failed, no scene was changed: ${error.message}`);
+            }
+        }
+
+        const changes = [...scenes.values()]
+            .map(entry => ({ ...entry, text: serializeTscn(entry.doc) }))
+            .filter(entry => entry.text !== entry.original);
+
+        if (dryRun) {
+            const diff = changes
+                .map(change => createUnifiedDiff(change.original, change.text, change.scenePath.replace(/^res:\/\//, '')))
+                .join('');
+            return { success: true, dryRun: true, results, diff, message: `${edits.length} edit(s) would change ${changes.length} scene(s)` };
+        }
+
+        // Restore the scenes already written if a later write fails
+        const written: typeof changes = [];
+        try {
+            for (const change of changes) {
+                await fs.promises.writeFile(change.filePath, change.text);
+                written.push(change);
+            }
+        } catch (error: any) {
+            for (const change of written) {
+                await fs.promises.writeFile(change.filePath, change.original);
+            }
+            throw new Error(`Failed to write ${changes[written.length].scenePath}, no scene was changed: ${error.message}`);
+        }
+
+        return {
+            success: true,
+            results,
+            scenes: changes.map(change => change.scenePath),
+            message: `Applied ${edits.length} edit(s) to ${changes.length} scene(s)`
+        };
+    } catch (error: any) {
+        return { success: false, error: error.message };
+    }
+}
@@ -0,0 +1,137 @@
+export type OutputLevel = 'print' | 'warning' | 'error';
+
+// One line (or one ERROR/WARNING block) of output from a running Godot process
+export interface OutputEntry {
+    id: number;
+    time: string;
+    stream: 'stdout' | 'stderr';
+    level: OutputLevel;
+    message: string;
+    // Source location of ERROR/WARNING blocks ("at: function (file:line)")
+    function?: string;
+    file?: string;
+    line?: number;
+    // GDScript backtrace lines printed after script errors
+    backtrace?: string[];
+}
+
+export interface OutputQuery {
+    // Only return entries with an id greater than this cursor
+    since?: number;
+    // Only return the last N matching entries
+    tail?: number;
+    levels?: OutputLevel[];
+}
+
+export interface OutputQueryResult {
+    entries: OutputEntry[];
+    // Pass as `since` on the next call to get only new entries
+    cursor: number;
+    // True when entries after `since` were already dropped from the buffer
+    truncated: boolean;
+}
+
+// Start of an error or warning block, e.g. "SCRIPT ERROR: ...", "USER WARNING: ..."
+const BLOCK_START = /^(?:USER )?(?:SCRIPT |SHADER )?(ERROR|WARNING):/;
+// Location line of a block: "   at: _ready (res://player.gd:10)"
+const LOCATION = /^\s+at:\s*(.*?)\s*\((.*):(\d+)\)\s*$/;
+// Backtrace lines: "   GDScript backtrace (most recent call first):" then "   [0] _ready (res://player.gd:10)"
+const BACKTRACE_HEADER = /^\s+GDScript backtrace/;
+const BACKTRACE = /^\s+\[\d+\]/;
+
+// Bounded buffer of timestamped process output, parsed into entries
+export class OutputBuffer {
+    private entries: OutputEntry[] = [];
+    private nextId = 1;
+    private partial: Record<'stdout' | 'stderr', string> = { stdout: '', stderr: '' };
+
+    constructor(private capacity: number = 5000) {}
+
+    // Add a chunk of raw output; incomplete lines are kept until the rest arrives
+    write(stream: 'stdout' | 'stderr', chunk: string) {
+        const text = this.partial[stream] + chunk;
+        const lines = text.split(/\r?\n/);
+        this.partial[stream] = lines.pop() ?? '';
+
+        for (const line of lines) {
+            this.addLine(stream, line);
+        }
+    }
+
+    // Process any incomplete trailing lines (call when the process exits)
+    flush() {
+        for (const stream of ['stdout', 'stderr'] as const) {
+            if (this.partial[stream] !== '') {
+                this.addLine(stream, this.partial[stream]);
+                this.partial[stream] = '';
+            }
+        }
+    }
+
+    // Id of the most recent entry
+    get cursor(): number {
+        return this.nextId - 1;
+    }
+
+    query(options: OutputQuery = {}): OutputQueryResult {
+        const since = options.since ?? 0;
+        let result = this.entries.filter(entry => entry.id > since);
+
+        if (options.levels && options.levels.length > 0) {
+            result = result.filter(entry => options.levels!.includes(entry.level));
+        }
+        if (options.tail !== undefined) {
+            result = result.slice(-options.tail);
+        }
+
+        const oldest = this.entries.length > 0 ? this.entries[0].id : this.nextId;
+        return {
+            entries: result,
+            cursor: this.cursor,
+            truncated: since < oldest - 1
+        };
+    }
+
+    private addLine(stream: 'stdout' | 'stderr', line: string) {
+        const last = this.entries[this.entries.length - 1];
+        const inBlock = last && last.stream === stream && last.level !== 'print';
+
+        // Continuation lines of an ERROR/WARNING block
+        if (inBlock) {
+            const location = LOCATION.exec(line);
+            if (location && last.file === undefined) {
+                last.function = location[1];
+                last.file = location[2];
+                last.line = Number(location[3]);
+                return;
+            }
+            if (BACKTRACE_HEADER.test(line)) {
+                return;
+            }
+            if (BACKTRACE.test(line)) {
+                last.backtrace = [...(last.backtrace ?? []), line.trim()];
+                return;
+            }
+        }
+
+        if (line.trim() === '') {
+            return;
+        }
+
+        const block = BLOCK_START.exec(line);
+        this.push({
+            id: this.nextId++,
+            time: new Date().toISOString(),
+            stream,
+            level: block ? (block[1] === 'ERROR' ? 'error' : 'warning') : 'print',
+            message: line
+        });
+    }
+
+    private push(entry: OutputEntry) {
+        this.entries.push(entry);
+        if (this.entries.length > this.capacity) {
+            this.entries.splice(0, this.entries.length - this.capacity);
+        }
+    }
+}
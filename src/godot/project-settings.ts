@@ -0,0 +1,305 @@
+import { TscnDocument, TscnSection, getProperty, readTscnFile, removeProperty, setProperty, writeTscnFile } from './tscn.js';
+import { Variant, isVariantKind } from './variant.js';
+import { jsonToVariant, variantToJsonValue } from './properties.js';
+import { isGodotProject, resolveResPath, toResPath } from '../utils/godot-utils.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+// An autoload singleton from the [autoload] section
+export interface Autoload {
+    name: string;
+    path: string;
+    // Whether the autoload is also a global variable ("*" prefix)
+    global: boolean;
+}
+
+export type RenderingMethod = 'forward_plus' | 'mobile' | 'gl_compatibility';
+export type LayerType = '2d_render' | '3d_render' | '2d_physics' | '3d_physics' | '2d_navigation' | '3d_navigation' | 'avoidance';
+
+// Feature tags the editor adds to config/features for each rendering method
+const RENDERING_FEATURES: Record<RenderingMethod, string> = {
+    forward_plus: 'Forward Plus',
+    mobile: 'Mobile',
+    gl_compatibility: 'GL Compatibility'
+};
+
+// Split "application/run/main_scene" into its section and key; names without a "/" are top-level keys
+export function splitSettingName(name: string): { section: string; key: string } {
+    const index = name.indexOf('/');
+    if (index === -1) {
+        return { section: '', key: name };
+    }
+    return { section: name.slice(0, index), key: name.slice(index + 1) };
+}
+
+function settingName(section: TscnSection, key: string): string {
+    return section.tag === '' ? key : `${section.tag}/${key}`;
+}
+
+// Parse project.godot
+export async function readProjectFile(projectPath: string): Promise<TscnDocument> {
+    if (!await isGodotProject(projectPath)) {
+        throw new Error(`Invalid Godot project path: ${projectPath}`);
+    }
+    return readTscnFile(path.join(projectPath, 'project.godot'));
+}
+
+// Read project.godot, apply an edit and write it back
+export async function editProjectFile<T>(projectPath: string, edit: (doc: TscnDocument) => T): Promise<T> {
+    const doc = await readProjectFile(projectPath);
+    const result = edit(doc);
+    await writeTscnFile(path.join(projectPath, 'project.godot'), doc);
+    return result;
+}
+
+// Find a section, creating it in alphabetical order (as the editor writes them) if needed
+function getSection(doc: TscnDocument, tag: string, create: boolean): TscnSection | undefined {
+    const existing = doc.sections.find(section => section.tag === tag);
+    if (existing || !create) {
+        return existing;
+    }
+
+    const section: TscnSection = { tag, attributes: {}, properties: [] };
+    if (tag === '') {
+        doc.sections.unshift(section);
+        return section;
+    }
+    const next = doc.sections.findIndex(other => other.tag !== '' && other.tag > tag);
+    doc.sections.splice(next === -1 ? doc.sections.length : next, 0, section);
+    return section;
+}
+
+// Get a setting by its full name ("section/key")
+export function getSetting(doc: TscnDocument, name: string): Variant | undefined {
+    const { section, key } = splitSettingName(name);
+    const found = getSection(doc, section, false);
+    return found ? getProperty(found, key) : undefined;
+}
+
+// Convert a JSON value for a setting, keeping the type of the current value when there is one
+function toSettingValue(value: unknown, current: Variant | undefined): Variant {
+    let type: string | undefined;
+    if (isVariantKind(current, 'constructor')) {
+        type = current.name;
+    } else if (isVariantKind(current, 'string_name')) {
+        type = 'StringName';
+    }
+
+    return jsonToVariant(value, type, {
+        classDb: null,
+        addResource: () => {
+            throw new Error('Project settings reference resources by path; pass the res:// path as a string');
+        }
+    });
+}
+
+// Set or (with null) remove a setting; empty sections are removed too
+export function putSetting(doc: TscnDocument, name: string, value: Variant | undefined) {
+    const { section: tag, key } = splitSettingName(name);
+    if (value === undefined) {
+        const section = getSection(doc, tag, false);
+        if (section && removeProperty(section, key) && section.properties.length === 0 && tag !== '') {
+            doc.sections.splice(doc.sections.indexOf(section), 1);
+        }
+        return;
+    }
+    setProperty(getSection(doc, tag, true)!, key, value);
+}
+
+// Get project settings as JSON values, optionally only those starting with a prefix
+export async function getProjectSettings(projectPath: string, prefix: string = ''): Promise<Record<string, unknown>> {
+    const doc = await readProjectFile(projectPath);
+    const settings: Record<string, unknown> = {};
+
+    for (const section of doc.sections) {
+        for (const property of section.properties) {
+            const name = settingName(section, property.key);
+            if (name.startsWith(prefix)) {
+                settings[name] = variantToJsonValue(property.value, doc);
+            }
+        }
+    }
+    return settings;
+}
+
+// Set one setting ("section/key"); null removes it so the engine default applies
+export async function setProjectSetting(projectPath: string, name: string, value: unknown): Promise<string> {
+    if (name.trim() === '' || name.endsWith('/')) {
+        throw new Error(`Invalid setting name: ${name}`);
+    }
+
+    return editProjectFile(projectPath, doc => {
+        if (value === null) {
+            putSetting(doc, name, undefined);
+            return `Removed ${name}`;
+        }
+        putSetting(doc, name, toSettingValue(value, getSetting(doc, name)));
+        return `Set ${name}`;
+    });
+}
+
+// Set the scene the project starts with
+export async function setMainScene(projectPath: string, scenePath: string): Promise<string> {
+    const resPath = toResPath(projectPath, scenePath);
+    if (!fs.existsSync(resolveResPath(projectPath, resPath))) {
+        throw new Error(`Scene not found: ${scenePath}`);
+    }
+
+    return editProjectFile(projectPath, doc => {
+        putSetting(doc, 'application/run/main_scene', resPath);
+        return `Main scene set to ${resPath}`;
+    });
+}
+
+function readAutoloads(doc: TscnDocument): Autoload[] {
+    const section = getSection(doc, 'autoload', false);
+    return (section?.properties ?? []).map(property => {
+        const value = typeof property.value === 'string' ? property.value : '';
+        return {
+            name: property.key,
+            path: value.replace(/^\*/, ''),
+            global: value.startsWith('*')
+        };
+    });
+}
+
+// Autoloads in load order
+export async function listAutoloads(projectPath: string): Promise<Autoload[]> {
+    return readAutoloads(await readProjectFile(projectPath));
+}
+
+// Register a script or scene as an autoload singleton, at the end of the load order by default
+export async function addAutoload(
+    projectPath: string,
+    name: string,
+    scriptPath: string,
+    global: boolean = true,
+    index?: number
+): Promise<string> {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        throw new Error(`Invalid autoload name: ${name}`);
+    }
+    const resPath = toResPath(projectPath, scriptPath);
+    if (!/\.(gd|tscn|scn)$/.test(resPath)) {
+        throw new Error(`Autoloads must be scripts or scenes: ${scriptPath}`);
+    }
+    if (!fs.existsSync(resolveResPath(projectPath, resPath))) {
+        throw new Error(`File not found: ${scriptPath}`);
+    }
+
+    return editProjectFile(projectPath, doc => {
+        const section = getSection(doc, 'autoload', true)!;
+        if (getProperty(section, name) !== undefined) {
+            throw new Error(`Autoload already exists: ${name}`);
+        }
+
+        const property = { key: name, value: `${global ? '*' : ''}${resPath}` };
+        const position = index === undefined ? section.properties.length : Math.max(0, Math.min(index, section.properties.length));
+        section.properties.splice(position, 0, property);
+        return `Added autoload ${name} (${resPath}) at position ${position}`;
+    });
+}
+
+// Unregister an autoload
+export async function removeAutoload(projectPath: string, name: string): Promise<string> {
+    return editProjectFile(projectPath, doc => {
+        if (getSetting(doc, `autoload/${name}`) === undefined) {
+            throw new Error(`Autoload not found: ${name}`);
+        }
+        putSetting(doc, `autoload/${name}`, undefined);
+        return `Removed autoload ${name}`;
+    });
+}
+
+// Move an autoload to another position in the load order
+export async function reorderAutoload(projectPath: string, name: string, index: number): Promise<string> {
+    return editProjectFile(projectPath, doc => {
+        const section = getSection(doc, 'autoload', false);
+        const current = section?.properties.findIndex(property => property.key === name) ?? -1;
+        if (!section || current === -1) {
+            throw new Error(`Autoload not found: ${name}`);
+        }
+
+        const [property] = section.properties.splice(current, 1);
+        const position = Math.max(0, Math.min(index, section.properties.length));
+        section.properties.splice(position, 0, property);
+        return `Moved autoload ${name} to position ${position}`;
+    });
+}
+
+// Set the viewport size and optionally how it stretches when the window is resized
+export async function setWindowSize(
+    projectPath: string,
+    width: number,
+    height: number,
+    stretchMode?: 'disabled' | 'canvas_items' | 'viewport',
+    stretchAspect?: 'ignore' | 'keep' | 'keep_width' | 'keep_height' | 'expand'
+): Promise<string> {
+    return editProjectFile(projectPath, doc => {
+        putSetting(doc, 'display/window/size/viewport_width', width);
+        putSetting(doc, 'display/window/size/viewport_height', height);
+        if (stretchMode) {
+            putSetting(doc, 'display/window/stretch/mode', stretchMode);
+        }
+        if (stretchAspect) {
+            putSetting(doc, 'display/window/stretch/aspect', stretchAspect);
+        }
+        return `Window size set to ${width}x${height}`;
+    });
+}
+
+// Name a render, physics, navigation or avoidance layer (1-32); an empty name clears it
+export async function setLayerName(projectPath: string, layerType: LayerType, layer: number, name: string): Promise<string> {
+    if (!Number.isInteger(layer) || layer < 1 || layer > 32) {
+        throw new Error(`Layer must be between 1 and 32: ${layer}`);
+    }
+
+    return editProjectFile(projectPath, doc => {
+        putSetting(doc, `layer_names/${layerType}/layer_${layer}`, name === '' ? undefined : name);
+        return name === ''
+            ? `Cleared the name of ${layerType} layer ${layer}`
+            : `Named ${layerType} layer ${layer} "${name}"`;
+    });
+}
+
+// Switch the renderer, updating the feature tags the editor uses to show it
+export async function setRenderingMethod(projectPath: string, method: RenderingMethod): Promise<string> {
+    return editProjectFile(projectPath, doc => {
+        putSetting(doc, 'rendering/renderer/rendering_method', method);
+        // Mobile devices use the compatibility renderer only when it is chosen explicitly
+        putSetting(doc, 'rendering/renderer/rendering_method.mobile', method === 'gl_compatibility' ? method : undefined);
+
+        const features = getSetting(doc, 'application/config/features');
+        if (isVariantKind(features, 'constructor')) {
+            const renderingFeatures = Object.values(RENDERING_FEATURES);
+            features.args = [
+                ...features.args.filter(arg => typeof arg !== 'string' || !renderingFeatures.includes(arg)),
+                RENDERING_FEATURES[method]
+            ];
+        }
+        return `Rendering method set to ${method}`;
+    });
+}
+
+// Directory user:// points at for a project, following Godot's rules for
+// application/config/name and the custom user directory settings
+export async function getUserDataDir(projectPath: string): Promise<string> {
+    const doc = await readProjectFile(projectPath);
+    const text = (name: string) => {
+        const value = getSetting(doc, name);
+        return typeof value === 'string' ? value.replace(/[:\/\\?*"|%<>]/g, '_').trim() : '';
+    };
+
+    const dataPath = process.platform === 'win32'
+        ? process.env.APPDATA ?? path.join(os.homedir(), 'AppData', 'Roaming')
+        : process.platform === 'darwin'
+            ? path.join(os.homedir(), 'Library', 'Application Support')
+            : process.env.XDG_DATA_HOME ?? path.join(os.homedir(), '.local', 'share');
+    const appName = text('application/config/name') || '[unnamed project]';
+
+    if (getSetting(doc, 'application/config/use_custom_user_dir') === true) {
+        return path.join(dataPath, text('application/config/custom_user_dir_name') || appName);
+    }
+    return path.join(dataPath, ['win32', 'darwin'].includes(process.platform) ? 'Godot' : 'godot', 'app_userdata', appName);
+}
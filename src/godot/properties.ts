@@ -0,0 +1,516 @@
+import { ClassDb, ApiEnum } from './class-db.js';
+import { TscnDocument, TscnSection, getProperty } from './tscn.js';
+import { Variant, formatVariant, isVariantKind, parseVariant } from './variant.js';
+import { guessResourceType, resolveExtResourcePath } from './scene.js';
+import { walkScriptChain } from './script-classes.js';
+
+// Everything needed to turn JSON into Variant values for one scene
+export interface ConversionContext {
+    classDb: ClassDb | null;
+    // Returns the ExtResource id for a res:// path, adding it to the scene if needed
+    addResource: (resourcePath: string, type: string) => string | number;
+}
+
+// Variant types that are not classes
+const BUILTIN_TYPES = new Set([
+    'Nil', 'Variant', 'bool', 'int', 'float', 'String', 'StringName', 'NodePath',
+    'Vector2', 'Vector2i', 'Vector3', 'Vector3i', 'Vector4', 'Vector4i',
+    'Rect2', 'Rect2i', 'Transform2D', 'Plane', 'Quaternion', 'AABB', 'Basis',
+    'Transform3D', 'Projection', 'Color', 'RID', 'Callable', 'Signal',
+    'Dictionary', 'Array', 'PackedByteArray', 'PackedInt32Array', 'PackedInt64Array',
+    'PackedFloat32Array', 'PackedFloat64Array', 'PackedStringArray',
+    'PackedVector2Array', 'PackedVector3Array', 'PackedVector4Array', 'PackedColorArray'
+]);
+
+const VECTOR_COMPONENTS: Record<string, string[]> = {
+    Vector2: ['x', 'y'],
+    Vector2i: ['x', 'y'],
+    Vector3: ['x', 'y', 'z'],
+    Vector3i: ['x', 'y', 'z'],
+    Vector4: ['x', 'y', 'z', 'w'],
+    Vector4i: ['x', 'y', 'z', 'w'],
+    Quaternion: ['x', 'y', 'z', 'w'],
+    Color: ['r', 'g', 'b', 'a']
+};
+
+// Packed arrays whose elements are vectors are written as a flat list of numbers
+const PACKED_ELEMENT_TYPES: Record<string, string> = {
+    PackedByteArray: 'int',
+    PackedInt32Array: 'int',
+    PackedInt64Array: 'int',
+    PackedFloat32Array: 'float',
+    PackedFloat64Array: 'float',
+    PackedStringArray: 'String',
+    PackedVector2Array: 'Vector2',
+    PackedVector3Array: 'Vector3',
+    PackedVector4Array: 'Vector4',
+    PackedColorArray: 'Color'
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The Godot text of a {"$godot": "..."} value, or undefined for other values
+export function rawGodotValue(value: unknown): string | undefined {
+    return isPlainObject(value) && typeof value.$godot === 'string' ? value.$godot : undefined;
+}
+
+function describe(value: unknown): string {
+    return JSON.stringify(value);
+}
+
+function toNumber(value: unknown, label: string): number {
+    if (typeof value !== 'number') {
+        throw new Error(`Expected a number for ${label}, got ${describe(value)}`);
+    }
+    return value;
+}
+
+function toInteger(value: unknown, label: string): number {
+    const number = toNumber(value, label);
+    if (!Number.isInteger(number)) {
+        throw new Error(`Expected an integer for ${label}, got ${number}`);
+    }
+    return number;
+}
+
+// Read the components of a vector-like value given as [x, y, ...] or { x, y, ... }
+function toComponents(value: unknown, type: string): number[] {
+    const components = VECTOR_COMPONENTS[type];
+
+    if (type === 'Color' && typeof value === 'string') {
+        return parseHexColor(value);
+    }
+    if (Array.isArray(value)) {
+        const expected = type === 'Color' ? [3, 4] : [components.length];
+        if (!expected.includes(value.length)) {
+            throw new Error(`Expected ${components.length} numbers for ${type}, got ${describe(value)}`);
+        }
+        const numbers = value.map(item => toNumber(item, type));
+        return type === 'Color' && numbers.length === 3 ? [...numbers, 1] : numbers;
+    }
+    if (isPlainObject(value)) {
+        return components.map(key => {
+            if (type === 'Color' && key === 'a' && value.a === undefined) {
+                return 1;
+            }
+            return toNumber(value[key], `${type}.${key}`);
+        });
+    }
+    throw new Error(`Expected ${type} as {${components.join(', ')}} or an array, got ${describe(value)}`);
+}
+
+function parseHexColor(text: string): number[] {
+    const hex = text.replace(/^#/, '');
+    if (!/^([0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/.test(hex)) {
+        throw new Error(`Invalid color: ${text} (use #rgb, #rrggbb or #rrggbbaa)`);
+    }
+    const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+    const channels = full.match(/../g)!.map(pair => Math.round(parseInt(pair, 16) / 255 * 1000) / 1000);
+    return channels.length === 3 ? [...channels, 1] : channels;
+}
+
+function constructor(name: string, args: number[]): Variant {
+    return { kind: 'constructor', name, args };
+}
+
+// Basis rows from Euler angles in degrees, using Godot's default YXZ order
+function eulerToBasis(degrees: number[], scale: number[]): number[][] {
+    const [x, y, z] = degrees.map(d => d * Math.PI / 180);
+    const [cx, sx, cy, sy, cz, sz] = [Math.cos(x), Math.sin(x), Math.cos(y), Math.sin(y), Math.cos(z), Math.sin(z)];
+
+    const rows = [
+        [cy * cz + sy * sx * sz, cz * sy * sx - cy * sz, cx * sy],
+        [cx * sz, cx * cz, -sx],
+        [cy * sx * sz - cz * sy, sy * sz + cy * cz * sx, cy * cx]
+    ];
+    return rows.map(row => row.map((v, column) => round(v * scale[column])));
+}
+
+function round(value: number): number {
+    const rounded = Math.round(value * 1e6) / 1e6;
+    return Object.is(rounded, -0) ? 0 : rounded;
+}
+
+// Basis given as { x, y, z } axis vectors, 9 numbers (row-major) or { rotation_degrees, scale }
+function toBasisRows(value: unknown): number[][] {
+    if (Array.isArray(value) && value.length === 9) {
+        const numbers = value.map(item => toNumber(item, 'Basis'));
+        return [numbers.slice(0, 3), numbers.slice(3, 6), numbers.slice(6, 9)];
+    }
+    if (isPlainObject(value) && value.x !== undefined) {
+        const axes = ['x', 'y', 'z'].map(axis => toComponents(value[axis], 'Vector3'));
+        return [0, 1, 2].map(row => axes.map(axis => axis[row]));
+    }
+    if (isPlainObject(value)) {
+        const rotation = value.rotation_degrees !== undefined ? toComponents(value.rotation_degrees, 'Vector3') : [0, 0, 0];
+        const scale = value.scale !== undefined ? toComponents(value.scale, 'Vector3') : [1, 1, 1];
+        return eulerToBasis(rotation, scale);
+    }
+    throw new Error(`Expected Basis as {x, y, z}, {rotation_degrees, scale} or 9 numbers, got ${describe(value)}`);
+}
+
+function toTransform3D(value: unknown): Variant {
+    if (Array.isArray(value)) {
+        if (value.length !== 12) {
+            throw new Error(`Expected 12 numbers for Transform3D, got ${value.length}`);
+        }
+        return constructor('Transform3D', value.map(item => toNumber(item, 'Transform3D')));
+    }
+    if (!isPlainObject(value)) {
+        throw new Error(`Expected Transform3D as {origin, basis} or {position, rotation_degrees, scale}, got ${describe(value)}`);
+    }
+
+    const originValue = value.origin ?? value.position;
+    const origin = originValue !== undefined ? toComponents(originValue, 'Vector3') : [0, 0, 0];
+    const rows = toBasisRows(value.basis ?? { rotation_degrees: value.rotation_degrees, scale: value.scale });
+    return constructor('Transform3D', [...rows.flat(), ...origin]);
+}
+
+function toTransform2D(value: unknown): Variant {
+    if (Array.isArray(value)) {
+        if (value.length !== 6) {
+            throw new Error(`Expected 6 numbers for Transform2D, got ${value.length}`);
+        }
+        return constructor('Transform2D', value.map(item => toNumber(item, 'Transform2D')));
+    }
+    if (!isPlainObject(value)) {
+        throw new Error(`Expected Transform2D as {x, y, origin} or {position, rotation_degrees, scale}, got ${describe(value)}`);
+    }
+
+    const originValue = value.origin ?? value.position;
+    const origin = originValue !== undefined ? toComponents(originValue, 'Vector2') : [0, 0];
+    if (value.x !== undefined && value.y !== undefined) {
+        return constructor('Transform2D', [...toComponents(value.x, 'Vector2'), ...toComponents(value.y, 'Vector2'), ...origin]);
+    }
+
+    const angle = (value.rotation_degrees !== undefined ? toNumber(value.rotation_degrees, 'rotation_degrees') : 0) * Math.PI / 180;
+    const [sx, sy] = value.scale !== undefined ? toComponents(value.scale, 'Vector2') : [1, 1];
+    return constructor('Transform2D', [
+        round(Math.cos(angle) * sx), round(Math.sin(angle) * sx),
+        round(-Math.sin(angle) * sy), round(Math.cos(angle) * sy),
+        ...origin
+    ]);
+}
+
+// Rect2 / AABB as {position, size}, {x, y, width, height} or a flat list of numbers
+function toBox(value: unknown, type: string): Variant {
+    const dimensions = type === 'AABB' ? 'Vector3' : 'Vector2';
+    const count = type === 'AABB' ? 6 : 4;
+
+    if (Array.isArray(value) && value.length === count) {
+        return constructor(type, value.map(item => toNumber(item, type)));
+    }
+    if (isPlainObject(value) && value.position !== undefined && value.size !== undefined) {
+        return constructor(type, [...toComponents(value.position, dimensions), ...toComponents(value.size, dimensions)]);
+    }
+    if (isPlainObject(value) && type !== 'AABB') {
+        return constructor(type, ['x', 'y', 'width', 'height'].map(key => toNumber(value[key], `${type}.${key}`)));
+    }
+    throw new Error(`Expected ${type} as {position, size} or ${count} numbers, got ${describe(value)}`);
+}
+
+// Enum values can be given by name, with or without the common prefix (e.g. "PROJECTION_ORTHOGONAL" or "ORTHOGONAL")
+function toEnumValue(value: unknown, apiEnum: ApiEnum): number {
+    if (typeof value === 'number') {
+        return toInteger(value, apiEnum.name);
+    }
+    if (Array.isArray(value) && apiEnum.is_bitfield) {
+        return value.reduce((flags: number, item) => flags | toEnumValue(item, apiEnum), 0);
+    }
+    if (typeof value === 'string') {
+        const name = value.toUpperCase();
+        const match = apiEnum.values.find(v => v.name === name)
+            ?? apiEnum.values.find(v => v.name.endsWith(`_${name}`));
+        if (match) {
+            return match.value;
+        }
+    }
+    throw new Error(`Invalid value ${describe(value)} for ${apiEnum.name}; expected one of: ${apiEnum.values.map(v => v.name).join(', ')}`);
+}
+
+// Guess the Variant type of an untyped JSON value
+function inferVariant(value: unknown, context: ConversionContext): Variant {
+    if (value === null || typeof value === 'boolean' || typeof value === 'number' || typeof value === 'string') {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => inferVariant(item, context));
+    }
+    if (isPlainObject(value)) {
+        if (typeof value.$godot === 'string' || typeof value.$resource === 'string') {
+            return jsonToVariant(value, 'Variant', context);
+        }
+
+        const keys = Object.keys(value).sort().join(',');
+        const shapes: Record<string, string> = {
+            'x,y': 'Vector2',
+            'x,y,z': 'Vector3',
+            'w,x,y,z': 'Vector4',
+            'b,g,r': 'Color',
+            'a,b,g,r': 'Color'
+        };
+        if (shapes[keys]) {
+            return jsonToVariant(value, shapes[keys], context);
+        }
+
+        return {
+            kind: 'dictionary',
+            entries: Object.entries(value).map(([k, v]): [Variant, Variant] => [k, inferVariant(v, context)])
+        };
+    }
+    throw new Error(`Unsupported value: ${describe(value)}`);
+}
+
+// Convert a JSON value to a Variant of the given Godot type.
+// { "$godot": "<literal>" } is accepted for any type as an escape hatch,
+// and { "$resource": "res://..." } for resource references.
+export function jsonToVariant(
+    value: unknown,
+    type: string | undefined,
+    context: ConversionContext,
+    apiEnum?: ApiEnum
+): Variant {
+    const raw = rawGodotValue(value);
+    if (raw !== undefined) {
+        return parseVariant(raw);
+    }
+    if (isPlainObject(value) && typeof value.$resource === 'string') {
+        const resourcePath = value.$resource;
+        const resourceType = typeof value.type === 'string'
+            ? value.type
+            : guessResourceType(resourcePath) ?? (type && !BUILTIN_TYPES.has(type) ? type : 'Resource');
+        return { kind: 'ext_resource', id: context.addResource(resourcePath, resourceType) };
+    }
+    if (apiEnum) {
+        return toEnumValue(value, apiEnum);
+    }
+    if (type === undefined || type === 'Variant' || type === 'Nil') {
+        return inferVariant(value, context);
+    }
+
+    if (type.startsWith('typedarray::')) {
+        const elementType = type.slice('typedarray::'.length);
+        if (!Array.isArray(value)) {
+            throw new Error(`Expected an array of ${elementType}, got ${describe(value)}`);
+        }
+        return {
+            kind: 'typed_array',
+            elementType,
+            items: value.map(item => jsonToVariant(item, elementType, context))
+        };
+    }
+
+    switch (type) {
+        case 'bool':
+            if (typeof value !== 'boolean') {
+                throw new Error(`Expected true or false, got ${describe(value)}`);
+            }
+            return value;
+        case 'int':
+            return toInteger(value, 'int');
+        case 'float':
+            return toNumber(value, 'float');
+        case 'String':
+            if (typeof value !== 'string') {
+                throw new Error(`Expected a string, got ${describe(value)}`);
+            }
+            return value;
+        case 'StringName':
+            if (typeof value !== 'string') {
+                throw new Error(`Expected a string, got ${describe(value)}`);
+            }
+            return { kind: 'string_name', value };
+        case 'NodePath':
+            if (typeof value !== 'string') {
+                throw new Error(`Expected a node path string, got ${describe(value)}`);
+            }
+            return { kind: 'node_path', value };
+        case 'Vector2':
+        case 'Vector3':
+        case 'Vector4':
+        case 'Quaternion':
+        case 'Color':
+            return constructor(type, toComponents(value, type));
+        case 'Vector2i':
+        case 'Vector3i':
+        case 'Vector4i':
+            return constructor(type, toComponents(value, type).map(n => toInteger(n, type)));
+        case 'Rect2':
+        case 'Rect2i':
+        case 'AABB':
+            return toBox(value, type);
+        case 'Plane':
+            if (isPlainObject(value) && value.normal !== undefined) {
+                return constructor('Plane', [...toComponents(value.normal, 'Vector3'), toNumber(value.d, 'Plane.d')]);
+            }
+            return constructor('Plane', toComponents(value, 'Vector4'));
+        case 'Basis':
+            return constructor('Basis', toBasisRows(value).flat());
+        case 'Transform2D':
+            return toTransform2D(value);
+        case 'Transform3D':
+            return toTransform3D(value);
+        case 'Array':
+            if (!Array.isArray(value)) {
+                throw new Error(`Expected an array, got ${describe(value)}`);
+            }
+            return value.map(item => inferVariant(item, context));
+        case 'Dictionary':
+            if (!isPlainObject(value)) {
+                throw new Error(`Expected an object, got ${describe(value)}`);
+            }
+            return inferVariant(value, context);
+    }
+
+    if (PACKED_ELEMENT_TYPES[type]) {
+        if (!Array.isArray(value)) {
+            throw new Error(`Expected an array for ${type}, got ${describe(value)}`);
+        }
+        const elementType = PACKED_ELEMENT_TYPES[type];
+        const items = value.map(item => jsonToVariant(item, elementType, context));
+        const args = items.flatMap(item => isVariantKind(item, 'constructor') ? item.args : [item]);
+        return { kind: 'constructor', name: type, args };
+    }
+
+    if (BUILTIN_TYPES.has(type)) {
+        throw new Error(`Values of type ${type} cannot be set from JSON; use {"$godot": "..."}`);
+    }
+
+    // Class types: nodes are referenced by path, resources by file
+    if (value === null) {
+        return null;
+    }
+    if (context.classDb?.inheritsFrom(type, 'Node')) {
+        if (typeof value !== 'string') {
+            throw new Error(`Expected a node path string for ${type}, got ${describe(value)}`);
+        }
+        return { kind: 'node_path', value };
+    }
+    if (typeof value === 'string' && value.startsWith('res://')) {
+        return jsonToVariant({ $resource: value }, type, context);
+    }
+    throw new Error(`Expected a res:// path or {"$resource": ...} for ${type}, got ${describe(value)}`);
+}
+
+// Convert a Variant back to the JSON shape accepted by jsonToVariant
+export function variantToJsonValue(value: Variant, doc: TscnDocument): unknown {
+    if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+        return value;
+    }
+    if (typeof value === 'number') {
+        return Number.isFinite(value) ? value : { $godot: formatVariant(value) };
+    }
+    if (typeof value === 'bigint') {
+        return { $godot: formatVariant(value) };
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => variantToJsonValue(item, doc));
+    }
+
+    switch (value.kind) {
+        case 'string_name':
+        case 'node_path':
+            return value.value;
+        case 'typed_array':
+            return value.items.map(item => variantToJsonValue(item, doc));
+        case 'ext_resource': {
+            const resourcePath = resolveExtResourcePath(doc, value);
+            return resourcePath ? { $resource: resourcePath } : { $godot: formatVariant(value) };
+        }
+        case 'dictionary':
+            if (value.entries.every(([key]) => typeof key === 'string')) {
+                return Object.fromEntries(value.entries.map(([k, v]) => [k, variantToJsonValue(v, doc)]));
+            }
+            break;
+        case 'constructor': {
+            const numbers = value.args.every(arg => typeof arg === 'number') ? value.args as number[] : null;
+            const components = VECTOR_COMPONENTS[value.name];
+            if (numbers && components && numbers.length === components.length) {
+                return Object.fromEntries(components.map((key, i) => [key, numbers[i]]));
+            }
+            if (numbers && value.name === 'Transform3D' && numbers.length === 12) {
+                const column = (i: number) => ({ x: numbers[i], y: numbers[i + 3], z: numbers[i + 6] });
+                return {
+                    basis: { x: column(0), y: column(1), z: column(2) },
+                    origin: { x: numbers[9], y: numbers[10], z: numbers[11] }
+                };
+            }
+            if (numbers && value.name === 'Transform2D' && numbers.length === 6) {
+                return {
+                    x: { x: numbers[0], y: numbers[1] },
+                    y: { x: numbers[2], y: numbers[3] },
+                    origin: { x: numbers[4], y: numbers[5] }
+                };
+            }
+            if (value.name === 'PackedStringArray' || (numbers && /^Packed(Byte|Int32|Int64|Float32|Float64)Array$/.test(value.name))) {
+                return value.args.map(arg => variantToJsonValue(arg, doc));
+            }
+            break;
+        }
+    }
+
+    return { $godot: formatVariant(value) };
+}
+
+// Variables declared at the top level of a GDScript file and the scripts it extends, with
+// their declared types; a script's own declarations come before those of its bases
+export function readScriptVariables(projectPath: string, scriptPath: string): Map<string, string | undefined> {
+    const variables = new Map<string, string | undefined>();
+    const pattern = /^(?:@[\w.]+(?:\([^)]*\))?\s+)*var\s+(\w+)\s*(?::\s*([\w.]+(?:\[[\w.]+\])?))?/gm;
+    walkScriptChain(projectPath, scriptPath, source => {
+        for (const match of source.matchAll(pattern)) {
+            if (variables.has(match[1])) {
+                continue;
+            }
+            const declared = match[2];
+            const arrayType = declared?.match(/^Array\[([\w.]+)\]$/);
+            variables.set(match[1], arrayType ? `typedarray::${arrayType[1]}` : declared);
+        }
+    });
+    return variables;
+}
+
+// Script variables of the script attached to a node, if there is one
+export function readNodeScriptVariables(
+    projectPath: string,
+    doc: TscnDocument,
+    section: TscnSection
+): Map<string, string | undefined> {
+    const scriptPath = resolveExtResourcePath(doc, getProperty(section, 'script'));
+    if (!scriptPath || !scriptPath.endsWith('.gd')) {
+        return new Map();
+    }
+    return readScriptVariables(projectPath, scriptPath);
+}
+
+// The Godot type a node property expects, checked against the class reference and the node's script.
+// Throws when the property does not exist.
+export function resolvePropertyType(
+    classDb: ClassDb | null,
+    className: string | undefined,
+    scriptVariables: Map<string, string | undefined>,
+    propertyName: string
+): { type?: string; enum?: ApiEnum } {
+    if (scriptVariables.has(propertyName)) {
+        return { type: scriptVariables.get(propertyName) };
+    }
+    if (propertyName.startsWith('metadata/') || !classDb || !className) {
+        return {};
+    }
+    if (!classDb.hasClass(className)) {
+        throw new Error(`Unknown node type: ${className}`);
+    }
+
+    const info = classDb.getProperty(className, propertyName);
+    if (!info) {
+        const similar = classDb.listProperties(className)
+            .map(p => p.name)
+            .filter(name => name.includes(propertyName) || propertyName.includes(name))
+            .slice(0, 5);
+        const hint = similar.length > 0 ? ` Did you mean: ${similar.join(', ')}?` : '';
+        throw new Error(`${className} has no property "${propertyName}".${hint}`);
+    }
+    return { type: info.type, enum: info.enum };
+}
@@ -0,0 +1,319 @@
+import { isGodotProject, resolveResPath, toResPath } from '../utils/godot-utils.js';
+import { listDirectory, moveFile } from '../utils/file-operations.js';
+import { TscnSection, getSections, readTscnFile, writeTscnFile } from './tscn.js';
+import { decodeUid, readResourceUid } from './uid.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// A file whose references to a moved resource were (or would be) rewritten
+export interface ReferenceUpdate {
+    // res:// path of the file after the move
+    file: string;
+    references: number;
+}
+
+export interface MoveResourceResult {
+    dryRun: boolean;
+    source: string;
+    destination: string;
+    // res:// paths of the moved files, including .import and .uid files
+    moved: string[];
+    updated: ReferenceUpdate[];
+}
+
+export type DependencyIssueKind =
+    | 'missing'          // Neither the path nor the UID of an ext_resource can be resolved
+    | 'path_mismatch'    // The UID belongs to another file than the path (Godot loads by UID)
+    | 'unknown_uid'      // The path exists but the UID is unknown or invalid
+    | 'duplicate_uid'    // Several files have the same UID
+    | 'stale_uid_file'   // A .uid file whose script or shader no longer exists
+    | 'orphaned_import'; // An .import file whose source asset no longer exists
+
+export interface DependencyIssue {
+    kind: DependencyIssueKind;
+    // res:// path of the file with the problem
+    file: string;
+    message: string;
+    // Whether repair mode fixed the issue
+    repaired?: boolean;
+}
+
+export interface DependencyReport {
+    scanned: number;
+    issues: DependencyIssue[];
+    repaired: number;
+}
+
+// Files that can reference resources by path
+const REFERENCING_EXTENSIONS = ['.tscn', '.tres', '.gd', '.godot', '.cfg', '.import'];
+
+// Quoted res:// paths; the "*" prefix marks global autoloads in project.godot
+const RES_PATH_PATTERN = /"(\*?)(res:\/\/[^"]*)"/g;
+// load() and preload() calls, whose paths may be relative to the script
+const LOAD_PATTERN = /\b((?:pre)?load\(\s*)"([^"]*)"/g;
+
+// Map a res:// path affected by moving source to destination; undefined if it is not affected
+function mapPath(resPath: string, source: string, destination: string): string | undefined {
+    if (resPath === source) {
+        return destination;
+    }
+    if (resPath.startsWith(`${source}/`)) {
+        return destination + resPath.slice(source.length);
+    }
+    // Godot's .import and .uid files move with the file they belong to
+    const sidecar = /\.(import|uid)$/.exec(resPath);
+    if (sidecar && resPath.slice(0, sidecar.index) === source) {
+        return destination + sidecar[0];
+    }
+    return undefined;
+}
+
+function resDirectory(resPath: string): string {
+    return `res://${path.posix.dirname(resPath.slice('res://'.length))}`;
+}
+
+// Rewrite the references in one file's text; returns the new text and the number of rewritten references
+function rewriteReferences(
+    text: string,
+    fileResPath: string,
+    source: string,
+    destination: string
+): { text: string; count: number } {
+    let count = 0;
+    let result = text.replace(RES_PATH_PATTERN, (match, prefix: string, resPath: string) => {
+        const mapped = mapPath(resPath, source, destination);
+        if (mapped === undefined) {
+            return match;
+        }
+        count++;
+        return `"${prefix}${mapped}"`;
+    });
+
+    if (fileResPath.endsWith('.gd')) {
+        // Relative paths break when either the script or the resource moves
+        const oldDirectory = resDirectory(fileResPath);
+        const newDirectory = resDirectory(mapPath(fileResPath, source, destination) ?? fileResPath);
+        result = result.replace(LOAD_PATTERN, (match, call: string, loadPath: string) => {
+            if (loadPath.includes('://') || loadPath === '') {
+                return match;
+            }
+            const target = 'res://' + path.posix.normalize(path.posix.join(oldDirectory.slice('res://'.length), loadPath));
+            const newTarget = mapPath(target, source, destination) ?? target;
+            if (newTarget === target && newDirectory === oldDirectory) {
+                return match;
+            }
+            let relative = path.posix.relative(newDirectory.slice('res://'.length), newTarget.slice('res://'.length));
+            if (loadPath.startsWith('./') && !relative.startsWith('.')) {
+                relative = `./${relative}`;
+            }
+            if (relative === loadPath) {
+                return match;
+            }
+            count++;
+            return `${call}"${relative}"`;
+        });
+    }
+
+    return { text: result, count };
+}
+
+// Move a file or directory inside a project, with its .import and .uid files, and rewrite every
+// ext_resource path, load()/preload() string, main scene and autoload that points at it
+export async function moveResource(
+    projectPath: string,
+    sourcePath: string,
+    destinationPath: string,
+    dryRun: boolean = false,
+    overwrite: boolean = false
+): Promise<MoveResourceResult> {
+    if (!await isGodotProject(projectPath)) {
+        throw new Error(`Invalid Godot project path: ${projectPath}`);
+    }
+
+    const source = toResPath(projectPath, sourcePath).replace(/\/+$/, '');
+    const destination = toResPath(projectPath, destinationPath).replace(/\/+$/, '');
+    const sourceFile = resolveResPath(projectPath, source);
+    const destinationFile = resolveResPath(projectPath, destination);
+
+    if (source === 'res:' || destination === 'res:' || source === 'res://project.godot') {
+        throw new Error(`${source} cannot be moved`);
+    }
+    if (!fs.existsSync(sourceFile)) {
+        throw new Error(`File not found: ${source}`);
+    }
+    if (source === destination) {
+        throw new Error('Source and destination are the same');
+    }
+    if (destination.startsWith(`${source}/`)) {
+        throw new Error(`Cannot move ${source} into itself`);
+    }
+    if (fs.existsSync(destinationFile) && !overwrite) {
+        throw new Error(`Destination already exists: ${destination}`);
+    }
+
+    // Work out every change before touching anything
+    const { entries } = listDirectory(projectPath, { recursive: true, maxEntries: Infinity });
+    const changes: { file: string; text: string; update: ReferenceUpdate }[] = [];
+    for (const entry of entries) {
+        if (entry.type !== 'file' || !REFERENCING_EXTENSIONS.includes(path.extname(entry.path))) {
+            continue;
+        }
+        const fileResPath = `res://${entry.path}`;
+        const original = fs.readFileSync(path.join(projectPath, entry.path), 'utf8');
+        const { text, count } = rewriteReferences(original, fileResPath, source, destination);
+        if (count > 0) {
+            const newResPath = mapPath(fileResPath, source, destination) ?? fileResPath;
+            changes.push({
+                file: resolveResPath(projectPath, newResPath),
+                text,
+                update: { file: newResPath, references: count }
+            });
+        }
+    }
+
+    const sidecars = ['.import', '.uid'].filter(extension => fs.existsSync(sourceFile + extension));
+    const moved = [destination, ...sidecars.map(extension => destination + extension)];
+
+    if (!dryRun) {
+        moveFile(sourceFile, destinationFile, overwrite);
+        for (const change of changes) {
+            fs.writeFileSync(change.file, change.text);
+        }
+    }
+
+    return {
+        dryRun,
+        source,
+        destination,
+        moved,
+        updated: changes.map(change => change.update)
+    };
+}
+
+// Whether a res:// path exists, including files in folders the project scan skips
+function resourceExists(projectPath: string, resourcePath: string): boolean {
+    try {
+        return resourcePath.startsWith('res://') && fs.existsSync(resolveResPath(projectPath, resourcePath));
+    } catch (error) {
+        return false;
+    }
+}
+
+// Set the path or UID of an ext_resource, keeping Godot's attribute order (type, uid, path, id)
+function setExtResourceReference(section: TscnSection, resourcePath: string, uid: string | undefined) {
+    const { type, uid: _uid, path: _path, ...rest } = section.attributes;
+    section.attributes = {
+        ...(type !== undefined ? { type } : {}),
+        ...(uid ? { uid } : {}),
+        path: resourcePath,
+        ...rest
+    };
+}
+
+// Check every ext_resource in the project's scenes and resources against the files on disk and
+// their UIDs, and look for duplicate UIDs and leftover .uid/.import files. In repair mode, paths
+// are fixed from UIDs that point elsewhere and unknown UIDs are replaced with the path's UID.
+export async function checkDependencies(projectPath: string, repair: boolean = false): Promise<DependencyReport> {
+    if (!await isGodotProject(projectPath)) {
+        throw new Error(`Invalid Godot project path: ${projectPath}`);
+    }
+
+    const { entries } = listDirectory(projectPath, { recursive: true, maxEntries: Infinity });
+    const files = new Set(entries.filter(entry => entry.type === 'file').map(entry => `res://${entry.path}`));
+    const issues: DependencyIssue[] = [];
+
+    // Map every UID to the files that claim it
+    const uids = new Map<string, string[]>();
+    const uidOf = new Map<string, string>();
+    for (const file of files) {
+        const sidecar = /\.(import|uid)$/.exec(file);
+        if (sidecar) {
+            const base = file.slice(0, sidecar.index);
+            if (!files.has(base)) {
+                issues.push(sidecar[1] === 'uid'
+                    ? { kind: 'stale_uid_file', file, message: `${base} no longer exists` }
+                    : { kind: 'orphaned_import', file, message: `${base} no longer exists` });
+            }
+            continue;
+        }
+        const uid = readResourceUid(resolveResPath(projectPath, file));
+        if (uid && decodeUid(uid) !== undefined) {
+            uids.set(uid, [...(uids.get(uid) ?? []), file]);
+            uidOf.set(file, uid);
+        }
+    }
+    for (const [uid, owners] of uids) {
+        if (owners.length > 1) {
+            issues.push({ kind: 'duplicate_uid', file: owners[0], message: `${uid} is used by ${owners.join(', ')}` });
+        }
+    }
+
+    let scanned = 0;
+    let repaired = 0;
+    for (const file of files) {
+        if (!/\.(tscn|tres)$/.test(file)) {
+            continue;
+        }
+        scanned++;
+
+        const filePath = resolveResPath(projectPath, file);
+        const doc = await readTscnFile(filePath);
+        let changed = false;
+
+        for (const section of getSections(doc, 'ext_resource')) {
+            const resourcePath = typeof section.attributes.path === 'string' ? section.attributes.path : '';
+            const uid = typeof section.attributes.uid === 'string' ? section.attributes.uid : undefined;
+            const owners = uid ? uids.get(uid) ?? [] : [];
+            const pathExists = files.has(resourcePath) || resourceExists(projectPath, resourcePath);
+
+            if (owners.includes(resourcePath) || (!uid && pathExists)) {
+                continue;
+            }
+
+            let issue: DependencyIssue;
+            if (owners.length === 1) {
+                issue = {
+                    kind: 'path_mismatch',
+                    file,
+                    message: `ext_resource ${section.attributes.id}: ${uid} belongs to ${owners[0]}, not ${resourcePath}`
+                        + (pathExists ? '' : ' (missing)')
+                };
+                if (repair) {
+                    setExtResourceReference(section, owners[0], uid);
+                }
+            } else if (pathExists) {
+                const pathUid = uidOf.get(resourcePath);
+                issue = {
+                    kind: 'unknown_uid',
+                    file,
+                    message: `ext_resource ${section.attributes.id}: ${uid} `
+                        + (owners.length > 1 ? `is ambiguous` : decodeUid(uid!) === undefined ? 'is not a valid UID' : 'does not belong to any file')
+                        + `; ${resourcePath} has ${pathUid ?? 'no UID'}`
+                };
+                if (repair) {
+                    setExtResourceReference(section, resourcePath, pathUid);
+                }
+            } else {
+                issues.push({
+                    kind: 'missing',
+                    file,
+                    message: `ext_resource ${section.attributes.id}: ${resourcePath}${uid ? ` (${uid})` : ''} not found`
+                });
+                continue;
+            }
+
+            if (repair) {
+                issue.repaired = true;
+                changed = true;
+                repaired++;
+            }
+            issues.push(issue);
+        }
+
+        if (changed) {
+            await writeTscnFile(filePath, doc);
+        }
+    }
+
+    return { scanned, issues, repaired };
+}
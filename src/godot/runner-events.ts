@@ -0,0 +1,31 @@
+import { TestStatus } from '../utils/junit.js';
+
+// Events the built-in test runner script reports
+export type TestEvent =
+    | { event: 'suite_start'; suite: string }
+    | { event: 'case_start'; suite: string; case: string }
+    | { event: 'case_end'; suite: string; case: string; status: TestStatus; message: string; duration_ms: number }
+    | { event: 'suite_end'; suite: string; duration_ms: number }
+    | { event: 'error'; message: string }
+    | { event: 'done' };
+
+// Events the script checker reports
+export type CheckEvent =
+    | { event: 'start'; file: string }
+    | { event: 'end'; file: string; ok: boolean }
+    | { event: 'done' };
+
+// Read the event a helper script printed as "<prefix>{json}" in an output message; null when
+// the message holds no event. The scripts are ours, so the JSON is trusted to match the type.
+export function readRunnerEvent<Event extends TestEvent | CheckEvent>(message: string, prefix: string): Event | null {
+    const markerIndex = message.indexOf(prefix);
+    if (markerIndex === -1) {
+        return null;
+    }
+    try {
+        const event = JSON.parse(message.slice(markerIndex + prefix.length));
+        return typeof event?.event === 'string' ? event as Event : null;
+    } catch (error) {
+        return null;
+    }
+}
@@ -0,0 +1,768 @@
+import { TscnDocument, TscnSection, getSections, getProperty, readTscnFile } from './tscn.js';
+import { Variant, formatVariant, isVariantKind } from './variant.js';
+import { resolveResPath } from '../utils/godot-utils.js';
+import * as fs from 'fs';
+
+// A node in the hierarchy returned by get_scene_tree
+export interface SceneTreeNode {
+    name: string;
+    type?: string;
+    path: string;
+    parent?: string;
+    groups?: string[];
+    script?: string;
+    instance?: string;
+    properties: Record<string, unknown>;
+    children: SceneTreeNode[];
+    // Number of children left out because of the depth limit
+    truncatedChildren?: number;
+    // Node of an instanced scene that has no section here, shown because the scene
+    // edits its children (editable children) without the instance being expanded
+    placeholder?: boolean;
+}
+
+export interface SceneTreeOptions {
+    maxDepth?: number;
+    expandInstances?: boolean;
+}
+
+// Get all [node] sections in file order
+export function getNodeSections(doc: TscnDocument): TscnSection[] {
+    return getSections(doc, 'node');
+}
+
+// Path of a node relative to the scene root ("." for the root itself)
+export function getNodePath(section: TscnSection): string {
+    const parent = section.attributes.parent;
+    const name = String(section.attributes.name);
+
+    if (typeof parent !== 'string') {
+        return '.';
+    }
+    return parent === '.' ? name : `${parent}/${name}`;
+}
+
+// Normalize a user supplied NodePath: the root is ".", others are relative to the root.
+// Paths starting with the root node's name ("Main/Player") are accepted too.
+export function normalizeNodePath(doc: TscnDocument, nodePath: string): string {
+    let result = nodePath.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+    const root = getNodeSections(doc)[0];
+    const rootName = root ? String(root.attributes.name) : null;
+
+    if (result === '' || result === '.' || result === rootName) {
+        return '.';
+    }
+    if (rootName && result.startsWith(`${rootName}/`)) {
+        result = result.slice(rootName.length + 1);
+    }
+    return result;
+}
+
+// Find the [node] section for a NodePath
+export function findNode(doc: TscnDocument, nodePath: string): TscnSection | undefined {
+    const normalized = normalizeNodePath(doc, nodePath);
+    return getNodeSections(doc).find(section => getNodePath(section) === normalized);
+}
+
+// Find an [ext_resource] section by id
+export function findExtResource(doc: TscnDocument, id: string | number): TscnSection | undefined {
+    return getSections(doc, 'ext_resource').find(section => section.attributes.id === id);
+}
+
+// Resolve an ExtResource(...) value to the res:// path it points at
+export function resolveExtResourcePath(doc: TscnDocument, value: Variant | undefined): string | undefined {
+    if (!isVariantKind(value, 'ext_resource')) {
+        return undefined;
+    }
+    const resource = findExtResource(doc, value.id);
+    return typeof resource?.attributes.path === 'string' ? resource.attributes.path : undefined;
+}
+
+// Convert a Variant to a JSON friendly value; structured types keep their Godot text form
+export function variantToJson(value: Variant): unknown {
+    if (value === null || typeof value !== 'object') {
+        // Infinities and 64-bit integers beyond a number's precision keep their text form
+        return (typeof value === 'number' && !Number.isFinite(value)) || typeof value === 'bigint' ? formatVariant(value) : value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(variantToJson);
+    }
+    return formatVariant(value);
+}
+
+// Join a node path onto a parent path
+function joinNodePath(parent: string, child: string): string {
+    if (child === '.') {
+        return parent;
+    }
+    return parent === '.' ? child : `${parent}/${child}`;
+}
+
+// Build the flat list of nodes of a scene, expanding instanced scenes when requested
+async function collectNodes(
+    projectPath: string,
+    scenePath: string,
+    options: SceneTreeOptions,
+    basePath: string,
+    visited: string[]
+): Promise<SceneTreeNode[]> {
+    const filePath = resolveResPath(projectPath, scenePath);
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Scene not found: ${scenePath}`);
+    }
+    if (visited.includes(filePath)) {
+        throw new Error(`Circular scene instancing: ${[...visited, filePath].join(' -> ')}`);
+    }
+
+    const doc = await readTscnFile(filePath);
+    const nodes: SceneTreeNode[] = [];
+    const byPath = new Map<string, SceneTreeNode>();
+
+    for (const section of getNodeSections(doc)) {
+        const localPath = getNodePath(section);
+        const fullPath = joinNodePath(basePath, localPath);
+        const parent = section.attributes.parent;
+        const groups = section.attributes.groups;
+        const instance = resolveExtResourcePath(doc, section.attributes.instance);
+        const script = resolveExtResourcePath(doc, getProperty(section, 'script'));
+
+        const properties: Record<string, unknown> = {};
+        for (const property of section.properties) {
+            if (property.key !== 'script') {
+                properties[property.key] = variantToJson(property.value);
+            }
+        }
+
+        // Nodes of an expanded instance can be overridden by the instancing scene
+        const existing = byPath.get(fullPath);
+        if (existing) {
+            Object.assign(existing.properties, properties);
+            if (typeof section.attributes.type === 'string') {
+                existing.type = section.attributes.type;
+            }
+            if (script) {
+                existing.script = script;
+            }
+            continue;
+        }
+
+        let node: SceneTreeNode = {
+            name: String(section.attributes.name),
+            type: typeof section.attributes.type === 'string' ? section.attributes.type : undefined,
+            path: fullPath,
+            parent: typeof parent === 'string' ? joinNodePath(basePath, parent) : undefined,
+            groups: Array.isArray(groups) ? groups.map(String) : undefined,
+            script,
+            instance,
+            properties,
+            children: []
+        };
+
+        if (instance && options.expandInstances) {
+            const instanced = await collectNodes(projectPath, instance, options, fullPath, [...visited, filePath]);
+            const instancedRoot = instanced[0];
+            if (instancedRoot) {
+                node = {
+                    ...node,
+                    type: node.type ?? instancedRoot.type,
+                    script: node.script ?? instancedRoot.script,
+                    groups: node.groups ?? instancedRoot.groups,
+                    properties: { ...instancedRoot.properties, ...node.properties }
+                };
+                instanced[0] = node;
+            }
+            for (const instancedNode of instanced) {
+                byPath.set(instancedNode.path, instancedNode);
+                nodes.push(instancedNode);
+            }
+            if (!instancedRoot) {
+                byPath.set(fullPath, node);
+                nodes.push(node);
+            }
+            continue;
+        }
+
+        byPath.set(fullPath, node);
+        nodes.push(node);
+    }
+
+    return nodes;
+}
+
+// Limit the depth of a tree, recording how many children were cut off
+function pruneTree(node: SceneTreeNode, depth: number, maxDepth: number) {
+    if (depth >= maxDepth && node.children.length > 0) {
+        node.truncatedChildren = node.children.length;
+        node.children = [];
+        return;
+    }
+    for (const child of node.children) {
+        pruneTree(child, depth + 1, maxDepth);
+    }
+}
+
+// Find the parent of a node. Parents inside an instanced scene get a placeholder under
+// their closest ancestor, as long as that ancestor is an instance (or a placeholder itself).
+function findParent(byPath: Map<string, SceneTreeNode>, parentPath: string): SceneTreeNode | undefined {
+    const existing = byPath.get(parentPath);
+    if (existing || parentPath === '.') {
+        return existing;
+    }
+    const slash = parentPath.lastIndexOf('/');
+    const ancestorPath = slash === -1 ? '.' : parentPath.slice(0, slash);
+    const ancestor = findParent(byPath, ancestorPath);
+    if (!ancestor || (!ancestor.instance && !ancestor.placeholder)) {
+        return undefined;
+    }
+    const placeholder: SceneTreeNode = {
+        name: parentPath.slice(slash + 1),
+        path: parentPath,
+        parent: ancestorPath,
+        properties: {},
+        children: [],
+        placeholder: true
+    };
+    ancestor.children.push(placeholder);
+    byPath.set(parentPath, placeholder);
+    return placeholder;
+}
+
+// Read a scene file and return its node hierarchy
+export async function getSceneTree(
+    projectPath: string,
+    scenePath: string,
+    options: SceneTreeOptions = {}
+): Promise<SceneTreeNode> {
+    const nodes = await collectNodes(projectPath, scenePath, options, '.', []);
+    if (nodes.length === 0) {
+        throw new Error(`Scene has no nodes: ${scenePath}`);
+    }
+
+    // Link children to their parents; the children arrays keep file order
+    const byPath = new Map(nodes.map(node => [node.path, node]));
+    for (const node of nodes.slice(1)) {
+        const parent = node.parent !== undefined ? findParent(byPath, node.parent) : undefined;
+        if (!parent) {
+            throw new Error(`Parent node not found for ${node.path}: ${node.parent}`);
+        }
+        parent.children.push(node);
+    }
+
+    const root = nodes[0];
+    if (options.maxDepth !== undefined) {
+        pruneTree(root, 0, options.maxDepth);
+    }
+    return root;
+}
+
+// Characters Godot does not allow in node names
+const INVALID_NAME_CHARS = /[.:@/"%]/;
+
+function validateNodeName(name: string) {
+    if (name.trim() === '' || INVALID_NAME_CHARS.test(name)) {
+        throw new Error(`Invalid node name: "${name}" (names cannot be empty or contain . : @ / " %)`);
+    }
+}
+
+// Parent path of a scene-relative node path
+function parentOf(nodePath: string): string {
+    const index = nodePath.lastIndexOf('/');
+    return index === -1 ? '.' : nodePath.slice(0, index);
+}
+
+// Whether a node path is the given node or one of its descendants
+function isInSubtree(nodePath: string, rootPath: string): boolean {
+    return rootPath === '.' || nodePath === rootPath || nodePath.startsWith(`${rootPath}/`);
+}
+
+// Replace the subtree prefix of a node path
+function rebasePath(nodePath: string, oldPath: string, newPath: string): string {
+    return nodePath === oldPath ? newPath : joinNodePath(newPath, nodePath.slice(oldPath.length + 1));
+}
+
+function pathSegments(nodePath: string): string[] {
+    return nodePath === '.' ? [] : nodePath.split('/');
+}
+
+// Resolve a relative NodePath from a node; returns null when it leaves the scene
+function resolveRelativePath(fromPath: string, relative: string): string | null {
+    const segments = pathSegments(fromPath);
+    for (const part of relative.split('/')) {
+        if (part === '..') {
+            if (segments.length === 0) {
+                return null;
+            }
+            segments.pop();
+        } else if (part !== '.' && part !== '') {
+            segments.push(part);
+        }
+    }
+    return segments.length === 0 ? '.' : segments.join('/');
+}
+
+// Relative NodePath from one node to another
+function relativePath(fromPath: string, toPath: string): string {
+    const from = pathSegments(fromPath);
+    const to = pathSegments(toPath);
+    let common = 0;
+    while (common < from.length && common < to.length && from[common] === to[common]) {
+        common++;
+    }
+    const parts = [...from.slice(common).map(() => '..'), ...to.slice(common)];
+    return parts.length === 0 ? '.' : parts.join('/');
+}
+
+// Get the sections of a node and all its descendants, in file order
+export function getSubtree(doc: TscnDocument, nodePath: string): TscnSection[] {
+    return getNodeSections(doc).filter(section => isInSubtree(getNodePath(section), nodePath));
+}
+
+// Get the direct children of a node, in order
+export function getChildren(doc: TscnDocument, nodePath: string): TscnSection[] {
+    return getNodeSections(doc).filter(section =>
+        section.attributes.parent !== undefined && parentOf(getNodePath(section)) === nodePath);
+}
+
+function requireNode(doc: TscnDocument, nodePath: string): TscnSection {
+    const section = findNode(doc, nodePath);
+    if (!section) {
+        throw new Error(`Node not found: ${nodePath}`);
+    }
+    return section;
+}
+
+function checkNameAvailable(doc: TscnDocument, parentPath: string, name: string) {
+    if (getChildren(doc, parentPath).some(child => child.attributes.name === name)) {
+        throw new Error(`Node "${parentPath}" already has a child named "${name}"`);
+    }
+}
+
+// Index in doc.sections where a block of nodes becomes the child at `index` of a parent
+function insertionIndex(doc: TscnDocument, parentPath: string, index?: number): number {
+    const children = getChildren(doc, parentPath);
+    if (index !== undefined && index < children.length) {
+        return doc.sections.indexOf(children[Math.max(0, index)]);
+    }
+    const subtree = getSubtree(doc, parentPath);
+    return doc.sections.indexOf(subtree[subtree.length - 1]) + 1;
+}
+
+// Set the parent attribute of a node, keeping it right after name/type as Godot writes it
+function setParentAttribute(section: TscnSection, parent: string) {
+    const { name, type, ...rest } = section.attributes;
+    delete rest.parent;
+    section.attributes = {
+        name,
+        ...(type !== undefined ? { type } : {}),
+        parent,
+        ...rest
+    };
+}
+
+// Rewrite NodePath values (including those nested in arrays) with the given function
+function mapNodePaths(value: Variant, fn: (path: string) => string): Variant {
+    if (Array.isArray(value)) {
+        return value.map(item => mapNodePaths(item, fn));
+    }
+    if (isVariantKind(value, 'node_path')) {
+        const updated = fn(value.value);
+        return updated === value.value ? value : { kind: 'node_path', value: updated };
+    }
+    if (isVariantKind(value, 'typed_array')) {
+        return { ...value, items: value.items.map(item => mapNodePaths(item, fn)) };
+    }
+    return value;
+}
+
+// Update connections, [editable] entries and NodePath properties after nodes moved.
+// `oldPaths` holds the path every node section had before the change.
+function updateReferences(
+    doc: TscnDocument,
+    oldPaths: Map<TscnSection, string>,
+    oldPath: string,
+    newPath: string
+) {
+    const moveTarget = (target: string) => isInSubtree(target, oldPath) && oldPath !== '.'
+        ? rebasePath(target, oldPath, newPath)
+        : target;
+
+    for (const section of getSections(doc, 'connection')) {
+        for (const attribute of ['from', 'to']) {
+            const value = section.attributes[attribute];
+            if (typeof value === 'string') {
+                section.attributes[attribute] = moveTarget(value);
+            }
+        }
+    }
+
+    for (const section of getSections(doc, 'editable')) {
+        const value = section.attributes.path;
+        if (typeof value === 'string') {
+            section.attributes.path = moveTarget(value);
+        }
+    }
+
+    for (const section of getNodeSections(doc)) {
+        const before = oldPaths.get(section);
+        if (before === undefined) {
+            continue;
+        }
+        const after = getNodePath(section);
+
+        for (const property of section.properties) {
+            property.value = mapNodePaths(property.value, value => {
+                // Absolute paths and %UniqueName paths do not depend on the node position
+                if (value === '' || value.startsWith('/') || value.startsWith('%')) {
+                    return value;
+                }
+                const separator = value.indexOf(':');
+                const pathPart = separator === -1 ? value : value.slice(0, separator);
+                const subnames = separator === -1 ? '' : value.slice(separator);
+
+                const target = resolveRelativePath(before, pathPart || '.');
+                if (target === null) {
+                    return value;
+                }
+                const updated = relativePath(after, moveTarget(target));
+                const original = relativePath(before, target);
+                return updated === original ? value : updated + subnames;
+            });
+        }
+    }
+}
+
+function snapshotPaths(doc: TscnDocument): Map<TscnSection, string> {
+    return new Map(getNodeSections(doc).map(section => [section, getNodePath(section)]));
+}
+
+// Add the ExtResource/SubResource references in a value to refs, as "ext_resource:<id>" or
+// "sub_resource:<id>". Typed arrays and dictionaries can name a resource in their type text.
+function collectResourceRefs(value: Variant, refs: Set<string>) {
+    const addTypeRefs = (typeText: string | undefined) => {
+        for (const match of (typeText ?? '').matchAll(/\b(Ext|Sub)Resource\(\s*"?([^")\s]+)"?\s*\)/g)) {
+            refs.add(`${match[1] === 'Ext' ? 'ext_resource' : 'sub_resource'}:${match[2]}`);
+        }
+    };
+
+    if (Array.isArray(value)) {
+        value.forEach(item => collectResourceRefs(item, refs));
+    } else if (isVariantKind(value, 'ext_resource') || isVariantKind(value, 'sub_resource')) {
+        refs.add(`${value.kind}:${value.id}`);
+    } else if (isVariantKind(value, 'constructor')) {
+        value.args.forEach(arg => collectResourceRefs(arg, refs));
+    } else if (isVariantKind(value, 'object')) {
+        value.properties.forEach(([, propertyValue]) => collectResourceRefs(propertyValue, refs));
+    } else if (isVariantKind(value, 'typed_array')) {
+        addTypeRefs(value.elementType);
+        value.items.forEach(item => collectResourceRefs(item, refs));
+    } else if (isVariantKind(value, 'dictionary')) {
+        addTypeRefs(value.keyType);
+        addTypeRefs(value.valueType);
+        for (const [key, entryValue] of value.entries) {
+            collectResourceRefs(key, refs);
+            collectResourceRefs(entryValue, refs);
+        }
+    }
+}
+
+function collectSectionRefs(section: TscnSection, refs: Set<string>) {
+    Object.values(section.attributes).forEach(value => collectResourceRefs(value, refs));
+    section.properties.forEach(property => collectResourceRefs(property.value, refs));
+}
+
+// Resources a scene uses: those referenced from its nodes and other sections, and the
+// resources those sub-resources reference in turn
+function usedResources(doc: TscnDocument): Set<string> {
+    const refs = new Set<string>();
+    for (const section of doc.sections) {
+        if (section.tag !== 'ext_resource' && section.tag !== 'sub_resource') {
+            collectSectionRefs(section, refs);
+        }
+    }
+
+    const subResources = new Map(getSections(doc, 'sub_resource').map(section => [`sub_resource:${section.attributes.id}`, section]));
+    const pending = [...refs];
+    while (pending.length > 0) {
+        const section = subResources.get(pending.pop()!);
+        if (!section) {
+            continue;
+        }
+        const inner = new Set<string>();
+        collectSectionRefs(section, inner);
+        for (const ref of inner) {
+            if (!refs.has(ref)) {
+                refs.add(ref);
+                pending.push(ref);
+            }
+        }
+    }
+    return refs;
+}
+
+// Add a new node under a parent; returns the path of the new node
+export function addNode(
+    doc: TscnDocument,
+    parentPath: string,
+    name: string,
+    type: string,
+    index?: number
+): string {
+    validateNodeName(name);
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(type)) {
+        throw new Error(`Invalid node type: ${type}`);
+    }
+
+    const parent = normalizeNodePath(doc, parentPath);
+    requireNode(doc, parent);
+    checkNameAvailable(doc, parent, name);
+
+    const section: TscnSection = { tag: 'node', attributes: { name, type, parent }, properties: [] };
+    doc.sections.splice(insertionIndex(doc, parent, index), 0, section);
+
+    return getNodePath(section);
+}
+
+// Remove a node with all its descendants and the connections that use them
+export function removeNode(doc: TscnDocument, nodePath: string): string[] {
+    const target = normalizeNodePath(doc, nodePath);
+    requireNode(doc, target);
+    if (target === '.') {
+        throw new Error('Cannot remove the root node of a scene');
+    }
+
+    const removed = getSubtree(doc, target).map(getNodePath);
+    const usedBefore = usedResources(doc);
+    doc.sections = doc.sections.filter(section => {
+        switch (section.tag) {
+            case 'node':
+                return !isInSubtree(getNodePath(section), target);
+            case 'connection':
+                return !isInSubtree(String(section.attributes.from), target)
+                    && !isInSubtree(String(section.attributes.to), target);
+            case 'editable':
+                return !isInSubtree(String(section.attributes.path), target);
+            default:
+                return true;
+        }
+    });
+
+    // Drop the resources only the removed nodes used, as Godot does when it saves the scene
+    const usedAfter = usedResources(doc);
+    doc.sections = doc.sections.filter(section => {
+        if (section.tag !== 'ext_resource' && section.tag !== 'sub_resource') {
+            return true;
+        }
+        const ref = `${section.tag}:${section.attributes.id}`;
+        return !usedBefore.has(ref) || usedAfter.has(ref);
+    });
+
+    return removed;
+}
+
+// Rename a node; returns its new path
+export function renameNode(doc: TscnDocument, nodePath: string, newName: string): string {
+    validateNodeName(newName);
+    const target = normalizeNodePath(doc, nodePath);
+    const section = requireNode(doc, target);
+
+    if (target === '.') {
+        section.attributes.name = newName;
+        return '.';
+    }
+
+    const parent = parentOf(target);
+    if (section.attributes.name === newName) {
+        return target;
+    }
+    checkNameAvailable(doc, parent, newName);
+
+    const oldPaths = snapshotPaths(doc);
+    const newPath = joinNodePath(parent, newName);
+    const subtree = getSubtree(doc, target);
+
+    section.attributes.name = newName;
+    for (const descendant of subtree.slice(1)) {
+        setParentAttribute(descendant, rebasePath(parentOf(oldPaths.get(descendant)!), target, newPath));
+    }
+
+    updateReferences(doc, oldPaths, target, newPath);
+    return newPath;
+}
+
+// Move a node (with its descendants) under a new parent; returns its new path
+export function reparentNode(
+    doc: TscnDocument,
+    nodePath: string,
+    newParentPath: string,
+    index?: number
+): string {
+    const target = normalizeNodePath(doc, nodePath);
+    const newParent = normalizeNodePath(doc, newParentPath);
+    const section = requireNode(doc, target);
+    requireNode(doc, newParent);
+
+    if (target === '.') {
+        throw new Error('Cannot reparent the root node of a scene');
+    }
+    if (isInSubtree(newParent, target)) {
+        throw new Error(`Cannot move ${target} under itself or one of its descendants`);
+    }
+    const name = String(section.attributes.name);
+    if (parentOf(target) !== newParent) {
+        checkNameAvailable(doc, newParent, name);
+    }
+
+    const oldPaths = snapshotPaths(doc);
+    const newPath = joinNodePath(newParent, name);
+    const subtree = getSubtree(doc, target);
+
+    // Take the block out and insert it at its new position
+    doc.sections = doc.sections.filter(s => !subtree.includes(s));
+    doc.sections.splice(insertionIndex(doc, newParent, index), 0, ...subtree);
+
+    setParentAttribute(section, newParent);
+    for (const descendant of subtree.slice(1)) {
+        setParentAttribute(descendant, rebasePath(parentOf(oldPaths.get(descendant)!), target, newPath));
+    }
+
+    updateReferences(doc, oldPaths, target, newPath);
+    return newPath;
+}
+
+// Change the position of a node among its siblings; returns its path
+export function reorderNode(doc: TscnDocument, nodePath: string, index: number): string {
+    const target = normalizeNodePath(doc, nodePath);
+    if (target === '.') {
+        throw new Error('Cannot reorder the root node of a scene');
+    }
+    return reparentNode(doc, target, parentOf(target), index);
+}
+
+// Copy a node and its descendants next to the original; returns the path of the copy
+export function duplicateNode(doc: TscnDocument, nodePath: string, newName?: string): string {
+    const target = normalizeNodePath(doc, nodePath);
+    const section = requireNode(doc, target);
+    if (target === '.') {
+        throw new Error('Cannot duplicate the root node of a scene');
+    }
+
+    const parent = parentOf(target);
+    const siblings = getChildren(doc, parent).map(child => String(child.attributes.name));
+
+    // Default to Godot's naming: Name2, Name3, ...
+    let name = newName;
+    if (name === undefined) {
+        const base = String(section.attributes.name).replace(/\d+$/, '');
+        let counter = 2;
+        while (siblings.includes(`${base}${counter}`)) {
+            counter++;
+        }
+        name = `${base}${counter}`;
+    }
+    validateNodeName(name);
+    checkNameAvailable(doc, parent, name);
+
+    const newPath = joinNodePath(parent, name);
+    const subtree = getSubtree(doc, target);
+    const copies = subtree.map((original, i): TscnSection => {
+        const copy = structuredClone({ tag: original.tag, attributes: original.attributes, properties: original.properties });
+        if (i === 0) {
+            copy.attributes.name = name;
+        } else {
+            setParentAttribute(copy, rebasePath(String(original.attributes.parent), target, newPath));
+        }
+        return copy;
+    });
+
+    const position = doc.sections.indexOf(subtree[subtree.length - 1]) + 1;
+    doc.sections.splice(position, 0, ...copies);
+
+    // Copy connections made from the duplicated nodes, after the existing connections
+    const connections = getSections(doc, 'connection');
+    let insertAt = connections.length > 0 ? doc.sections.indexOf(connections[connections.length - 1]) + 1 : 0;
+    for (const connection of connections) {
+        const from = String(connection.attributes.from);
+        if (!isInSubtree(from, target)) {
+            continue;
+        }
+        const to = String(connection.attributes.to);
+        const copy = structuredClone({ tag: connection.tag, attributes: connection.attributes, properties: connection.properties });
+        copy.attributes.from = rebasePath(from, target, newPath);
+        if (isInSubtree(to, target)) {
+            copy.attributes.to = rebasePath(to, target, newPath);
+        }
+        doc.sections.splice(insertAt++, 0, copy);
+    }
+
+    return newPath;
+}
+
+// Resource type Godot uses in [ext_resource] entries for common file extensions
+const RESOURCE_TYPES: Record<string, string> = {
+    '.gd': 'Script',
+    '.cs': 'Script',
+    '.tscn': 'PackedScene',
+    '.scn': 'PackedScene',
+    '.glb': 'PackedScene',
+    '.gltf': 'PackedScene',
+    '.blend': 'PackedScene',
+    '.fbx': 'PackedScene',
+    '.png': 'Texture2D',
+    '.jpg': 'Texture2D',
+    '.jpeg': 'Texture2D',
+    '.svg': 'Texture2D',
+    '.webp': 'Texture2D',
+    '.bmp': 'Texture2D',
+    '.tga': 'Texture2D',
+    '.wav': 'AudioStream',
+    '.ogg': 'AudioStream',
+    '.mp3': 'AudioStream',
+    '.ttf': 'FontFile',
+    '.otf': 'FontFile',
+    '.woff': 'FontFile',
+    '.woff2': 'FontFile',
+    '.gdshader': 'Shader',
+    '.obj': 'Mesh'
+};
+
+// Guess the resource type of a file from its extension
+export function guessResourceType(resourcePath: string): string | undefined {
+    const extension = resourcePath.slice(resourcePath.lastIndexOf('.')).toLowerCase();
+    return RESOURCE_TYPES[extension];
+}
+
+// Generate an ext_resource id in Godot 4's "<n>_<random>" style
+function generateResourceId(doc: TscnDocument, index: number): string {
+    const existing = new Set(getSections(doc, 'ext_resource').map(section => String(section.attributes.id)));
+    let id: string;
+    do {
+        id = `${index}_${Math.random().toString(36).slice(2, 7).padEnd(5, '0')}`;
+    } while (existing.has(id));
+    return id;
+}
+
+// Get the ExtResource id for a path, adding an [ext_resource] entry if the scene has none yet
+export function addExtResource(doc: TscnDocument, type: string, resourcePath: string, uid?: string): string | number {
+    const resources = getSections(doc, 'ext_resource');
+    const existing = resources.find(section => section.attributes.path === resourcePath);
+    if (existing) {
+        return existing.attributes.id as string | number;
+    }
+
+    const section: TscnSection = {
+        tag: 'ext_resource',
+        attributes: {
+            type,
+            ...(uid ? { uid } : {}),
+            path: resourcePath,
+            id: generateResourceId(doc, resources.length + 1)
+        },
+        properties: []
+    };
+
+    // Keep ext_resources together right after the file header
+    const anchor = resources.length > 0 ? resources[resources.length - 1] : doc.sections[0];
+    doc.sections.splice(doc.sections.indexOf(anchor) + 1, 0, section);
+
+    return section.attributes.id as string;
+}
@@ -0,0 +1,356 @@
+import { runGodotCommand, resolveResPath, toResPath } from '../utils/godot-utils.js';
+import { findGodot } from './versions.js';
+import { OutputBuffer } from './output-buffer.js';
+import { CheckEvent, readRunnerEvent } from './runner-events.js';
+import { getSections, getProperty, readTscnFile } from './tscn.js';
+import { getNodeSections, getNodePath } from './scene.js';
+import { isVariantKind } from './variant.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface ScriptDiagnostic {
+    file: string;
+    line: number;
+    // Godot only reports columns in some versions and modes
+    column?: number;
+    severity: DiagnosticSeverity;
+    message: string;
+}
+
+// A scene whose nodes use a script file that no longer exists
+export interface MissingScript {
+    scene: string;
+    script: string;
+    nodes: string[];
+}
+
+export interface CheckOptions {
+    // res:// paths of scripts or directories to check (default: the whole project)
+    files?: string[];
+    // Re-check every file instead of only the ones changed since the last run
+    force?: boolean;
+    timeoutMs?: number;
+}
+
+export interface CheckReport {
+    success: boolean;
+    // Scripts parsed in this run
+    checked: string[];
+    // Scripts whose results came from the previous run because they did not change
+    unchanged: number;
+    diagnostics: ScriptDiagnostic[];
+    missingScripts: MissingScript[];
+    // Problems running the check itself
+    errors: string[];
+}
+
+interface CachedResult {
+    mtimeMs: number;
+    size: number;
+    diagnostics: ScriptDiagnostic[];
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const EVENT_PREFIX = '##MCP_CHECK ';
+// Directories that are not checked unless asked for explicitly
+const SKIPPED_DIRECTORIES = ['.godot', 'addons'];
+// "res://player.gd:12 - Parse Error: ..." lines printed by --check-only, with a column ("res://player.gd:12:5") in some versions
+const CHECK_LINE = /(res:\/\/[^\s:]+\.gd):(\d+)(?::(\d+))?\s+-\s+(.*)$/;
+
+// Results of earlier runs by project, then by res:// path
+const resultCache = new Map<string, Map<string, CachedResult>>();
+
+// Path to the checker script
+let checkerScriptPath: string | null = null;
+
+// Write the checker: it loads each listed script without the resource cache, so the
+// engine prints its parse and compile errors, and reports progress on stderr
+function initCheckerScript(): string {
+    if (!checkerScriptPath) {
+        checkerScriptPath = path.join(os.tmpdir(), 'godot_script_checker.gd');
+
+        const checkerContent = `extends SceneTree
+
+# Script checker for Godot MCP Server
+
+func _initialize():
+    var args = OS.get_cmdline_user_args()
+    var files = FileAccess.get_file_as_string(args[0]).split("\\n", false)
+
+    for script_path in files:
+        report({"event": "start", "file": script_path})
+        var script = ResourceLoader.load(script_path, "", ResourceLoader.CACHE_MODE_IGNORE)
+        var ok = script != null and script is Script and script.can_instantiate()
+        report({"event": "end", "file": script_path, "ok": ok})
+
+    report({"event": "done"})
+    quit()
+
+func report(data):
+    printerr("${EVENT_PREFIX}" + JSON.stringify(data))
+`;
+
+        try {
+            fs.writeFileSync(checkerScriptPath, checkerContent);
+        } catch (error) {
+            checkerScriptPath = null;
+            throw new Error(`Failed to create script checker: ${error}`);
+        }
+    }
+
+    return checkerScriptPath;
+}
+
+// Find files with one of the extensions under a directory, skipping .gdignore'd folders
+function collectFiles(directory: string, extensions: string[], files: string[], skip: string[] = []) {
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(directory, { withFileTypes: true });
+    } catch (error) {
+        return;
+    }
+    if (entries.some(entry => entry.name === '.gdignore')) {
+        return;
+    }
+
+    for (const entry of entries) {
+        const fullPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            if (!entry.name.startsWith('.') && !skip.includes(entry.name)) {
+                collectFiles(fullPath, extensions, files);
+            }
+        } else if (extensions.includes(path.extname(entry.name))) {
+            files.push(fullPath);
+        }
+    }
+}
+
+// res:// paths of the scripts to check
+function listScripts(projectPath: string, selection?: string[]): string[] {
+    const files: string[] = [];
+
+    if (!selection || selection.length === 0) {
+        collectFiles(projectPath, ['.gd'], files, SKIPPED_DIRECTORIES);
+    } else {
+        for (const item of selection) {
+            const fullPath = resolveResPath(projectPath, item);
+            if (!fs.existsSync(fullPath)) {
+                throw new Error(`File not found: ${item}`);
+            }
+            if (fs.statSync(fullPath).isDirectory()) {
+                collectFiles(fullPath, ['.gd'], files);
+            } else {
+                files.push(fullPath);
+            }
+        }
+    }
+
+    return [...new Set(files.map(file => toResPath(projectPath, file)))].sort();
+}
+
+// Strip the "SCRIPT ERROR: " style prefix from an engine message
+function cleanMessage(message: string): string {
+    return message.replace(/^(?:USER )?(?:SCRIPT )?(?:ERROR|WARNING):\s*/, '').trim();
+}
+
+// Turn the checker's output into diagnostics by script
+function parseCheckerOutput(stderr: string, errors: string[]): Map<string, ScriptDiagnostic[]> {
+    const output = new OutputBuffer(Number.MAX_SAFE_INTEGER);
+    output.write('stderr', stderr);
+    output.flush();
+
+    const results = new Map<string, ScriptDiagnostic[]>();
+    const add = (file: string, diagnostic: ScriptDiagnostic) => {
+        const list = results.get(file) ?? [];
+        const duplicate = list.some(d => d.line === diagnostic.line && d.message === diagnostic.message);
+        if (!duplicate) {
+            list.push(diagnostic);
+        }
+        results.set(file, list);
+    };
+
+    let current: string | null = null;
+    let currentErrors: string[] = [];
+    let finished = false;
+
+    for (const entry of output.query().entries) {
+        const event = readRunnerEvent<CheckEvent>(entry.message, EVENT_PREFIX);
+        if (!event) {
+            const checkLine = CHECK_LINE.exec(entry.message);
+            if (checkLine) {
+                add(checkLine[1], {
+                    file: checkLine[1],
+                    line: Number(checkLine[2]),
+                    column: checkLine[3] ? Number(checkLine[3]) : undefined,
+                    severity: /warning/i.test(checkLine[4]) ? 'warning' : 'error',
+                    message: checkLine[4].trim()
+                });
+            } else if (entry.level !== 'print' && entry.file?.startsWith('res://')) {
+                // Errors in a script's dependencies are reported against the dependency
+                add(entry.file, {
+                    file: entry.file,
+                    line: entry.line ?? 0,
+                    severity: entry.level === 'error' ? 'error' : 'warning',
+                    message: cleanMessage(entry.message)
+                });
+            } else if (entry.level === 'error' && current) {
+                currentErrors.push(cleanMessage(entry.message));
+            }
+            continue;
+        }
+
+        switch (event.event) {
+            case 'start':
+                current = event.file;
+                currentErrors = [];
+                if (!results.has(event.file)) {
+                    results.set(event.file, []);
+                }
+                break;
+            case 'end': {
+                // A script that failed to load without a located error still gets a diagnostic
+                const list = results.get(event.file) ?? [];
+                if (!event.ok && !list.some(d => d.severity === 'error')) {
+                    list.push({
+                        file: event.file,
+                        line: 0,
+                        severity: 'error',
+                        message: currentErrors[0] ?? 'Script failed to load'
+                    });
+                }
+                results.set(event.file, list);
+                current = null;
+                break;
+            }
+            case 'done':
+                finished = true;
+                break;
+        }
+    }
+
+    if (!finished) {
+        errors.push(current ? `Script check did not finish (stopped while checking ${current})` : 'Script check did not finish');
+    }
+
+    return results;
+}
+
+// Find scenes whose ext_resource scripts point at files that do not exist
+export async function findMissingScripts(projectPath: string): Promise<MissingScript[]> {
+    const scenes: string[] = [];
+    collectFiles(projectPath, ['.tscn'], scenes, ['.godot']);
+    const missing: MissingScript[] = [];
+
+    for (const scenePath of scenes.sort()) {
+        let doc;
+        try {
+            doc = await readTscnFile(scenePath);
+        } catch (error) {
+            continue;
+        }
+
+        for (const resource of getSections(doc, 'ext_resource')) {
+            const scriptPath = resource.attributes.path;
+            if (resource.attributes.type !== 'Script' || typeof scriptPath !== 'string') {
+                continue;
+            }
+            if (fs.existsSync(resolveResPath(projectPath, scriptPath))) {
+                continue;
+            }
+
+            const nodes = getNodeSections(doc)
+                .filter(section => {
+                    const script = getProperty(section, 'script');
+                    return isVariantKind(script, 'ext_resource') && script.id === resource.attributes.id;
+                })
+                .map(getNodePath);
+            missing.push({ scene: toResPath(projectPath, scenePath), script: scriptPath, nodes });
+        }
+    }
+
+    return missing;
+}
+
+// Check a project's scripts headlessly; unchanged scripts reuse their previous results
+export async function checkScripts(projectPath: string, options: CheckOptions = {}): Promise<CheckReport> {
+    const { path: godotPath } = await findGodot(projectPath);
+
+    const scripts = listScripts(projectPath, options.files);
+    const cache = resultCache.get(projectPath) ?? new Map<string, CachedResult>();
+    resultCache.set(projectPath, cache);
+
+    // Drop results for scripts that were deleted
+    for (const cached of [...cache.keys()]) {
+        if (!fs.existsSync(resolveResPath(projectPath, cached))) {
+            cache.delete(cached);
+        }
+    }
+
+    // Scripts with errors are always re-checked, since fixing a dependency can fix them
+    const stats = new Map(scripts.map(script => [script, fs.statSync(resolveResPath(projectPath, script))]));
+    const toCheck = scripts.filter(script => {
+        const cached = cache.get(script);
+        const stat = stats.get(script)!;
+        return options.force || !cached || cached.mtimeMs !== stat.mtimeMs || cached.size !== stat.size
+            || cached.diagnostics.length > 0;
+    });
+
+    const errors: string[] = [];
+    const dependencyDiagnostics: ScriptDiagnostic[] = [];
+    if (toCheck.length > 0) {
+        const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'godot_check_'));
+        try {
+            const listPath = path.join(workDir, 'scripts.txt');
+            fs.writeFileSync(listPath, toCheck.join('\n'));
+
+            const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+            const result = await runGodotCommand(
+                godotPath,
+                ['--headless', '--path', projectPath, '--script', initCheckerScript(), '--', listPath],
+                projectPath,
+                timeoutMs
+            );
+            if (result.timedOut) {
+                errors.push(`Script check did not finish within ${timeoutMs}ms`);
+            }
+
+            const results = parseCheckerOutput(result.stderr, errors);
+            for (const script of toCheck) {
+                const diagnostics = results.get(script);
+                const stat = stats.get(script)!;
+                if (diagnostics) {
+                    cache.set(script, { mtimeMs: stat.mtimeMs, size: stat.size, diagnostics });
+                } else {
+                    cache.delete(script);
+                }
+            }
+            // Errors in dependencies outside the selection are reported too, but not cached
+            for (const [file, fileDiagnostics] of results) {
+                if (!stats.has(file)) {
+                    dependencyDiagnostics.push(...fileDiagnostics);
+                }
+            }
+        } finally {
+            fs.rmSync(workDir, { recursive: true, force: true });
+        }
+    }
+
+    const diagnostics = [
+        ...scripts.flatMap(script => cache.get(script)?.diagnostics ?? []),
+        ...dependencyDiagnostics
+    ];
+    const missingScripts = await findMissingScripts(projectPath);
+
+    return {
+        success: errors.length === 0 && missingScripts.length === 0
+            && !diagnostics.some(d => d.severity === 'error'),
+        checked: toCheck,
+        unchanged: scripts.length - toCheck.length,
+        diagnostics,
+        missingScripts,
+        errors
+    };
+}
@@ -0,0 +1,80 @@
+import { parseTscn } from './tscn.js';
+import { isVariantKind } from './variant.js';
+import { searchFiles } from '../utils/file-operations.js';
+import { resolveResPath } from '../utils/godot-utils.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// The editor's list of global classes (class_name) and their scripts
+const CLASS_CACHE_FILE = path.join('.godot', 'global_script_class_cache.cfg');
+
+// Script declaring a global class, as a res:// path. The editor's cache is used when it
+// knows the class; otherwise the project's scripts are searched for the class_name.
+export function findClassScript(projectPath: string, className: string): string | undefined {
+    const cachePath = path.join(projectPath, CLASS_CACHE_FILE);
+    if (fs.existsSync(cachePath)) {
+        try {
+            const cache = parseTscn(fs.readFileSync(cachePath, 'utf8'));
+            const list = cache.sections[0]?.properties.find(property => property.key === 'list')?.value;
+            for (const entry of Array.isArray(list) ? list : []) {
+                if (!isVariantKind(entry, 'dictionary')) {
+                    continue;
+                }
+                const fields = new Map(entry.entries.map(([key, value]) => [key, value]));
+                const name = fields.get('class');
+                const script = fields.get('path');
+                if (isVariantKind(name, 'string_name') && name.value === className && typeof script === 'string') {
+                    return script;
+                }
+            }
+        } catch (error) {
+            // An unreadable cache is ignored; the search below still finds the class
+        }
+    }
+
+    const { matches } = searchFiles(projectPath, `^class_name\\s+${className}\\b`, { glob: '*.gd', maxResults: 1 });
+    return matches.length > 0 ? `res://${matches[0].file}` : undefined;
+}
+
+// What a GDScript source extends: a base script (given by path or by class_name) or an engine class.
+// The extends may follow @tool and class_name on the same line ("class_name Player extends Node2D").
+export function resolveScriptBase(projectPath: string, source: string): { script?: string; baseClass?: string } {
+    const match = /^(?:@tool\s+)?(?:class_name\s+\w+\s+)?extends\s+(?:"([^"]+)"|(\w+))/m.exec(source);
+    if (match?.[1]) {
+        return { script: match[1] };
+    }
+    if (!match?.[2]) {
+        return {};
+    }
+    const script = findClassScript(projectPath, match[2]);
+    return script ? { script } : { baseClass: match[2] };
+}
+
+// Follow the extends chain of a script, from the script itself to its first base script
+// that does not exist; visit returns true to stop early. Returns the engine class the
+// chain extends, if it gets that far.
+export function walkScriptChain(
+    projectPath: string,
+    scriptPath: string,
+    visit: (source: string, scriptPath: string) => boolean | void
+): string | undefined {
+    const seen = new Set<string>();
+    let current: string | undefined = scriptPath;
+    while (current && !seen.has(current)) {
+        seen.add(current);
+        const filePath = resolveResPath(projectPath, current);
+        if (!fs.existsSync(filePath)) {
+            return undefined;
+        }
+        const source = fs.readFileSync(filePath, 'utf8');
+        if (visit(source, current)) {
+            return undefined;
+        }
+        const base = resolveScriptBase(projectPath, source);
+        if (base.baseClass) {
+            return base.baseClass;
+        }
+        current = base.script;
+    }
+    return undefined;
+}
@@ -0,0 +1,240 @@
+import { TscnDocument, TscnSection, getProperty, getSections, readTscnFile } from './tscn.js';
+import { Variant } from './variant.js';
+import { ClassDb } from './class-db.js';
+import { walkScriptChain } from './script-classes.js';
+import { getNodeSections, normalizeNodePath, findNode, resolveExtResourcePath, variantToJson } from './scene.js';
+import { resolveResPath } from '../utils/godot-utils.js';
+import * as fs from 'fs';
+
+// A [connection] entry of a scene
+export interface SignalConnection {
+    signal: string;
+    from: string;
+    to: string;
+    method: string;
+    flags: ConnectFlag[];
+    binds?: unknown[];
+    unbinds?: number;
+}
+
+export type ConnectFlag = 'deferred' | 'one_shot' | 'reference_counted';
+
+// A signal a node can emit, from its class or its script
+export interface SignalInfo {
+    name: string;
+    arguments: { name: string; type?: string }[];
+    source: string;
+}
+
+// Object.ConnectFlags; connections saved in scenes always have CONNECT_PERSIST
+const CONNECT_FLAGS: Record<ConnectFlag, number> = {
+    deferred: 1,
+    one_shot: 4,
+    reference_counted: 8
+};
+const CONNECT_PERSIST = 2;
+
+// Script and class of a node, following instanced scenes to their root node
+export async function describeNode(
+    projectPath: string,
+    doc: TscnDocument,
+    section: TscnSection
+): Promise<{ type?: string; script?: string }> {
+    let type = typeof section.attributes.type === 'string' ? section.attributes.type : undefined;
+    let script = resolveExtResourcePath(doc, getProperty(section, 'script'));
+
+    const instance = resolveExtResourcePath(doc, section.attributes.instance);
+    if (instance && (!type || !script)) {
+        const instancePath = resolveResPath(projectPath, instance);
+        if (fs.existsSync(instancePath)) {
+            const instanced = await readTscnFile(instancePath);
+            const root = getNodeSections(instanced)[0];
+            if (root) {
+                const inner = await describeNode(projectPath, instanced, root);
+                type = type ?? inner.type;
+                script = script ?? inner.script;
+            }
+        }
+    }
+    return { type, script };
+}
+
+// Signals declared in a script and the scripts it extends (by path or class_name); also
+// returns the engine class the script chain finally extends
+export function readScriptSignals(projectPath: string, scriptPath: string): { signals: SignalInfo[]; baseClass?: string } {
+    const signals: SignalInfo[] = [];
+    const baseClass = walkScriptChain(projectPath, scriptPath, (source, current) => {
+        for (const match of source.matchAll(/^signal\s+(\w+)\s*(?:\(([^)]*)\))?/gm)) {
+            const args = (match[2] ?? '').split(',').map(arg => arg.trim()).filter(arg => arg !== '').map(arg => {
+                const [name, type] = arg.split(':').map(part => part.trim());
+                return type ? { name, type } : { name };
+            });
+            signals.push({ name: match[1], arguments: args, source: current });
+        }
+    });
+    return { signals, baseClass };
+}
+
+// Every signal a node can emit: those of its script first, then those of its class
+export async function listNodeSignals(
+    projectPath: string,
+    doc: TscnDocument,
+    section: TscnSection,
+    classDb: ClassDb | null
+): Promise<SignalInfo[]> {
+    const node = await describeNode(projectPath, doc, section);
+    const signals: SignalInfo[] = [];
+    let type = node.type;
+    if (node.script) {
+        const script = readScriptSignals(projectPath, node.script);
+        signals.push(...script.signals);
+        type = type ?? script.baseClass;
+    }
+    if (classDb && type) {
+        for (const cls of classDb.getHierarchy(type)) {
+            for (const signal of cls.signals ?? []) {
+                signals.push({
+                    name: signal.name,
+                    arguments: (signal.arguments ?? []).map(arg => ({ name: arg.name, type: arg.type })),
+                    source: cls.name
+                });
+            }
+        }
+    }
+    return signals;
+}
+
+function decodeFlags(value: Variant | undefined): ConnectFlag[] {
+    const flags = typeof value === 'number' ? value : CONNECT_PERSIST;
+    return (Object.keys(CONNECT_FLAGS) as ConnectFlag[]).filter(flag => (flags & CONNECT_FLAGS[flag]) !== 0);
+}
+
+function toConnection(section: TscnSection): SignalConnection {
+    const { signal, from, to, method, flags, binds, unbinds } = section.attributes;
+    const connection: SignalConnection = {
+        signal: String(signal),
+        from: String(from),
+        to: String(to),
+        method: String(method),
+        flags: decodeFlags(flags)
+    };
+    if (Array.isArray(binds)) {
+        connection.binds = binds.map(variantToJson);
+    }
+    if (typeof unbinds === 'number' && unbinds > 0) {
+        connection.unbinds = unbinds;
+    }
+    return connection;
+}
+
+// Connections of a scene, optionally only those from or to a node
+export function getConnections(doc: TscnDocument, nodePath?: string): SignalConnection[] {
+    const node = nodePath === undefined ? undefined : normalizeNodePath(doc, nodePath);
+    return getSections(doc, 'connection')
+        .map(toConnection)
+        .filter(connection => node === undefined || connection.from === node || connection.to === node);
+}
+
+function findConnection(doc: TscnDocument, signal: string, from: string, to: string, method: string): TscnSection | undefined {
+    return getSections(doc, 'connection').find(section =>
+        section.attributes.signal === signal
+        && section.attributes.from === from
+        && section.attributes.to === to
+        && section.attributes.method === method);
+}
+
+// Add a [connection] entry; node paths are relative to the scene root
+export function addConnection(
+    doc: TscnDocument,
+    signal: string,
+    fromPath: string,
+    toPath: string,
+    method: string,
+    options: { flags?: ConnectFlag[]; binds?: Variant[]; unbinds?: number } = {}
+): SignalConnection {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(signal)) {
+        throw new Error(`Invalid signal name: ${signal}`);
+    }
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(method)) {
+        throw new Error(`Invalid method name: ${method}`);
+    }
+    const from = normalizeNodePath(doc, fromPath);
+    const to = normalizeNodePath(doc, toPath);
+    for (const nodePath of [from, to]) {
+        if (!findNode(doc, nodePath)) {
+            throw new Error(`Node not found: ${nodePath}`);
+        }
+    }
+    if (findConnection(doc, signal, from, to, method)) {
+        throw new Error(`${signal} of "${from}" is already connected to ${method} of "${to}"`);
+    }
+
+    const flags = (options.flags ?? []).reduce((value, flag) => value | CONNECT_FLAGS[flag], CONNECT_PERSIST);
+    const section: TscnSection = {
+        tag: 'connection',
+        attributes: {
+            signal,
+            from,
+            to,
+            method,
+            ...(flags !== CONNECT_PERSIST ? { flags } : {}),
+            ...(options.unbinds ? { unbinds: options.unbinds } : {}),
+            ...(options.binds && options.binds.length > 0 ? { binds: options.binds } : {})
+        },
+        properties: []
+    };
+
+    // Connections follow the nodes, before any [editable] entries
+    const connections = getSections(doc, 'connection');
+    const anchor = connections.length > 0 ? connections[connections.length - 1] : getNodeSections(doc).pop();
+    doc.sections.splice(anchor ? doc.sections.indexOf(anchor) + 1 : doc.sections.length, 0, section);
+    return toConnection(section);
+}
+
+// Remove a [connection] entry
+export function removeConnection(doc: TscnDocument, signal: string, fromPath: string, toPath: string, method: string): SignalConnection {
+    const from = normalizeNodePath(doc, fromPath);
+    const to = normalizeNodePath(doc, toPath);
+    const section = findConnection(doc, signal, from, to, method);
+    if (!section) {
+        throw new Error(`${signal} of "${from}" is not connected to ${method} of "${to}"`);
+    }
+    doc.sections.splice(doc.sections.indexOf(section), 1);
+    return toConnection(section);
+}
+
+// Whether a script (or a script it extends) defines a method
+export function scriptHasMethod(projectPath: string, scriptPath: string, method: string): boolean {
+    let found = false;
+    walkScriptChain(projectPath, scriptPath, source => {
+        found = new RegExp(`^(?:static\\s+)?func\\s+${method}\\s*\\(`, 'm').test(source);
+        return found;
+    });
+    return found;
+}
+
+// Append a method stub for a signal handler to a script. Bound arguments follow the
+// signal arguments (minus the unbound ones), named the way the editor names them.
+export function appendMethodStub(
+    projectPath: string,
+    scriptPath: string,
+    method: string,
+    signal: SignalInfo | undefined,
+    binds: number,
+    unbinds: number
+) {
+    const signalArguments = signal?.arguments ?? [];
+    const parameters = [
+        ...signalArguments.slice(0, Math.max(0, signalArguments.length - unbinds))
+            .map(arg => arg.type ? `${arg.name}: ${arg.type.replace(/^(enum|bitfield)::/, '')}` : arg.name),
+        ...Array.from({ length: binds }, (_, i) => `extra_arg_${i}`)
+    ];
+
+    const filePath = resolveResPath(projectPath, scriptPath);
+    const source = fs.readFileSync(filePath, 'utf8');
+    // Indent like the script's existing functions
+    const indent = /^func\s[^\n]*\n([ \t]+)\S/m.exec(source)?.[1] ?? '\t';
+    const separator = source.endsWith('\n') ? '' : '\n';
+    fs.writeFileSync(filePath, `${source}${separator}\n\nfunc ${method}(${parameters.join(', ')}) -> void:\n${indent}pass\n`);
+}
+
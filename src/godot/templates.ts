@@ -0,0 +1,185 @@
+import { RenderingMethod, addAutoload, setMainScene, setProjectSetting, setRenderingMethod } from './project-settings.js';
+import { InputEventJson, addInputAction } from './input-map.js';
+import { generateUid } from './uid.js';
+import { fileURLToPath } from 'url';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// template.json of a project template
+export interface TemplateManifest {
+    description?: string;
+    renderer?: RenderingMethod;
+    // res:// path of the scene the project starts with
+    mainScene?: string;
+    autoloads?: { name: string; path: string; global?: boolean }[];
+    inputActions?: { name: string; events?: InputEventJson[]; deadzone?: number }[];
+    // Folders to create, relative to the project root
+    folders?: string[];
+    // Other project settings by full name, as JSON values
+    settings?: Record<string, unknown>;
+    // Variables the files use besides the built-in ones, with their default values
+    variables?: Record<string, string>;
+}
+
+// A template directory: template.json plus the files to copy in files/
+export interface ProjectTemplate {
+    name: string;
+    source: 'bundled' | 'user';
+    directory: string;
+    manifest: TemplateManifest;
+}
+
+// Templates shipped with the server, next to the build directory
+const BUNDLED_TEMPLATES_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..', 'templates');
+const MANIFEST_FILE = 'template.json';
+const FILES_DIR = 'files';
+const RENDERERS: RenderingMethod[] = ['forward_plus', 'mobile', 'gl_compatibility'];
+// {{projectName}}, {{godotVersion}}, {{uid:key}} or a template variable
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*(?::[A-Za-z0-9_.-]+)?)\s*\}\}/g;
+
+// Directories holding templates: GODOT_MCP_TEMPLATES (separated like PATH) before the bundled ones
+function templateDirectories(env: NodeJS.ProcessEnv): { directory: string; source: ProjectTemplate['source'] }[] {
+    return [
+        ...(env.GODOT_MCP_TEMPLATES ?? '')
+            .split(path.delimiter)
+            .filter(directory => directory.trim() !== '')
+            .map(directory => ({ directory: path.resolve(directory.trim()), source: 'user' as const })),
+        { directory: BUNDLED_TEMPLATES_DIR, source: 'bundled' as const }
+    ];
+}
+
+function readManifest(directory: string): TemplateManifest {
+    const manifestPath = path.join(directory, MANIFEST_FILE);
+    let manifest: TemplateManifest;
+    try {
+        manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`Invalid ${manifestPath}: ${error.message}`);
+    }
+    if (typeof manifest !== 'object' || manifest === null || Array.isArray(manifest)) {
+        throw new Error(`Invalid ${manifestPath}: expected an object`);
+    }
+    if (manifest.renderer !== undefined && !RENDERERS.includes(manifest.renderer)) {
+        throw new Error(`Invalid ${manifestPath}: renderer must be one of ${RENDERERS.join(', ')}`);
+    }
+    for (const key of ['autoloads', 'inputActions', 'folders'] as const) {
+        if (manifest[key] !== undefined && !Array.isArray(manifest[key])) {
+            throw new Error(`Invalid ${manifestPath}: ${key} must be an array`);
+        }
+    }
+    return manifest;
+}
+
+// Available templates by name; a user template hides a bundled one with the same name.
+// Templates with an invalid template.json are reported and left out.
+export function listTemplates(env: NodeJS.ProcessEnv = process.env): ProjectTemplate[] {
+    const templates: ProjectTemplate[] = [];
+    for (const { directory, source } of templateDirectories(env)) {
+        if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+            continue;
+        }
+        for (const name of fs.readdirSync(directory).sort()) {
+            const templateDir = path.join(directory, name);
+            if (!fs.existsSync(path.join(templateDir, MANIFEST_FILE)) || templates.some(template => template.name === name)) {
+                continue;
+            }
+            try {
+                templates.push({ name, source, directory: templateDir, manifest: readManifest(templateDir) });
+            } catch (error) {
+                console.error(`Skipping template ${name}:`, error);
+            }
+        }
+    }
+    return templates;
+}
+
+export function findTemplate(name: string, env: NodeJS.ProcessEnv = process.env): ProjectTemplate {
+    const templates = listTemplates(env);
+    const template = templates.find(candidate => candidate.name === name);
+    if (!template) {
+        throw new Error(`Unknown template: ${name}. Available templates: ${templates.map(candidate => candidate.name).join(', ') || 'none'}`);
+    }
+    return template;
+}
+
+// Files of a template relative to its files/ folder; symbolic links are not followed
+function templateFiles(directory: string, relative: string = ''): string[] {
+    const result: string[] = [];
+    const current = path.join(directory, relative);
+    if (!fs.existsSync(current)) {
+        return result;
+    }
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+        const entryPath = relative === '' ? entry.name : `${relative}/${entry.name}`;
+        if (entry.isDirectory()) {
+            result.push(...templateFiles(directory, entryPath));
+        } else if (entry.isFile()) {
+            result.push(entryPath);
+        }
+    }
+    return result.sort();
+}
+
+// Replace the placeholders of a text; {{uid:key}} gives the same new UID for the same key
+// within a project, so files of a template can reference each other. Unknown placeholders are kept.
+function substitute(text: string, variables: Record<string, string>, uids: Map<string, string>): string {
+    return text.replace(PLACEHOLDER, (placeholder, name: string) => {
+        if (name.startsWith('uid:')) {
+            if (!uids.has(name)) {
+                uids.set(name, generateUid());
+            }
+            return uids.get(name)!;
+        }
+        return variables[name] ?? placeholder;
+    });
+}
+
+// Copy the files of a template into a project and apply its manifest. The built-in variables
+// (projectName, godotVersion) are passed in variables, which override the manifest defaults.
+export async function applyTemplate(projectPath: string, template: ProjectTemplate, variables: Record<string, string>): Promise<string[]> {
+    const { manifest } = template;
+    const values = { ...manifest.variables, ...variables };
+    const uids = new Map<string, string>();
+    const root = path.resolve(projectPath);
+
+    const inProject = (relative: string): string => {
+        const target = path.resolve(root, relative);
+        if (target !== root && !target.startsWith(root + path.sep)) {
+            throw new Error(`Template ${template.name} writes outside the project: ${relative}`);
+        }
+        return target;
+    };
+
+    for (const folder of manifest.folders ?? []) {
+        fs.mkdirSync(inProject(substitute(folder, values, uids)), { recursive: true });
+    }
+
+    const filesDir = path.join(template.directory, FILES_DIR);
+    const written: string[] = [];
+    for (const file of templateFiles(filesDir)) {
+        const relative = substitute(file, values, uids);
+        const target = inProject(relative);
+        const content = fs.readFileSync(path.join(filesDir, file));
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        // Binary files (with NUL bytes) are copied as they are
+        fs.writeFileSync(target, content.includes(0) ? content : substitute(content.toString('utf8'), values, uids));
+        written.push(relative);
+    }
+
+    if (manifest.renderer) {
+        await setRenderingMethod(projectPath, manifest.renderer);
+    }
+    for (const [name, value] of Object.entries(manifest.settings ?? {})) {
+        await setProjectSetting(projectPath, name, typeof value === 'string' ? substitute(value, values, uids) : value);
+    }
+    for (const autoload of manifest.autoloads ?? []) {
+        await addAutoload(projectPath, autoload.name, substitute(autoload.path, values, uids), autoload.global ?? true);
+    }
+    for (const action of manifest.inputActions ?? []) {
+        await addInputAction(projectPath, action.name, action.events ?? [], action.deadzone);
+    }
+    if (manifest.mainScene) {
+        await setMainScene(projectPath, substitute(manifest.mainScene, values, uids));
+    }
+    return written;
+}
@@ -0,0 +1,378 @@
+import { runGodotCommand, resolveResPath } from '../utils/godot-utils.js';
+import { findGodot } from './versions.js';
+import { TestCaseResult, TestSuiteResult, parseJUnitXml, toJUnitXml } from '../utils/junit.js';
+import { OutputBuffer } from './output-buffer.js';
+import { TestEvent, readRunnerEvent } from './runner-events.js';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+export type TestFramework = 'gut' | 'gdunit4' | 'builtin';
+
+export interface TestOptions {
+    framework?: TestFramework;
+    // Directory with the tests (res:// path)
+    testsDir?: string;
+    // Only run tests whose name (or script path) contains this text
+    filter?: string;
+    // Also write the report as JUnit XML to this path
+    junitPath?: string;
+    timeoutMs?: number;
+}
+
+export interface TestReport {
+    framework: TestFramework;
+    success: boolean;
+    totals: { total: number; passed: number; failed: number; skipped: number };
+    durationMs: number;
+    suites: TestSuiteResult[];
+    // Problems running the tests themselves (crashes, timeouts, missing reports)
+    errors: string[];
+    junitPath?: string;
+}
+
+const GUT_RUNNER = 'res://addons/gut/gut_cmdln.gd';
+const GDUNIT_RUNNER = 'res://addons/gdUnit4/bin/GdUnitCmdTool.gd';
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const EVENT_PREFIX = '##MCP_TEST ';
+
+// Path to the built-in test runner script
+let runnerScriptPath: string | null = null;
+
+// Write the built-in runner: it runs every test_* method of the scripts in a directory
+// and reports events on stderr, so they stay in order with the engine's error output.
+// A test fails when it returns false or a message string ("SKIP..." marks it skipped),
+// or when a script error happens while it runs.
+function initRunnerScript(): string {
+    if (!runnerScriptPath) {
+        runnerScriptPath = path.join(os.tmpdir(), 'godot_test_runner.gd');
+
+        const runnerContent = `extends SceneTree
+
+# Built-in test runner for Godot MCP Server
+
+func _initialize():
+    var args = OS.get_cmdline_user_args()
+    var tests_dir = args[0] if args.size() > 0 else "res://tests"
+    var name_filter = args[1] if args.size() > 1 else ""
+
+    var files = []
+    collect_scripts(tests_dir, files)
+    files.sort()
+
+    for script_path in files:
+        await run_suite(script_path, name_filter)
+
+    report({"event": "done"})
+    quit()
+
+func collect_scripts(dir_path, files):
+    var dir = DirAccess.open(dir_path)
+    if dir == null:
+        report({"event": "error", "message": "Cannot open tests directory: " + dir_path})
+        return
+    for file_name in dir.get_files():
+        if file_name.ends_with(".gd"):
+            files.append(dir_path.path_join(file_name))
+    for sub_dir in dir.get_directories():
+        collect_scripts(dir_path.path_join(sub_dir), files)
+
+func run_suite(script_path, name_filter):
+    var script = load(script_path)
+    if script == null or not script.can_instantiate():
+        report({"event": "error", "message": "Cannot load test script: " + script_path})
+        return
+
+    var methods = []
+    for method in script.get_script_method_list():
+        var method_name = method["name"]
+        if method_name.begins_with("test_") and not methods.has(method_name):
+            if name_filter == "" or method_name.contains(name_filter) or script_path.contains(name_filter):
+                methods.append(method_name)
+    if methods.is_empty():
+        return
+
+    var instance = script.new()
+    if instance is Node:
+        root.add_child(instance)
+
+    report({"event": "suite_start", "suite": script_path})
+    var suite_start = Time.get_ticks_usec()
+    if instance.has_method("before_all"):
+        await instance.call("before_all")
+
+    for method_name in methods:
+        report({"event": "case_start", "suite": script_path, "case": method_name})
+        var start = Time.get_ticks_usec()
+        if instance.has_method("before_each"):
+            await instance.call("before_each")
+        var result = await instance.call(method_name)
+        if instance.has_method("after_each"):
+            await instance.call("after_each")
+
+        var status = "passed"
+        var message = ""
+        if typeof(result) == TYPE_BOOL and result == false:
+            status = "failed"
+            message = "Test returned false"
+        elif typeof(result) == TYPE_STRING and result != "":
+            status = "skipped" if result.begins_with("SKIP") else "failed"
+            message = result
+        report({"event": "case_end", "suite": script_path, "case": method_name, "status": status, "message": message, "duration_ms": (Time.get_ticks_usec() - start) / 1000.0})
+
+    if instance.has_method("after_all"):
+        await instance.call("after_all")
+    report({"event": "suite_end", "suite": script_path, "duration_ms": (Time.get_ticks_usec() - suite_start) / 1000.0})
+
+    if instance is Node:
+        instance.queue_free()
+
+func report(data):
+    printerr("${EVENT_PREFIX}" + JSON.stringify(data))
+`;
+
+        try {
+            fs.writeFileSync(runnerScriptPath, runnerContent);
+        } catch (error) {
+            runnerScriptPath = null;
+            throw new Error(`Failed to create test runner script: ${error}`);
+        }
+    }
+
+    return runnerScriptPath;
+}
+
+// Pick the test framework a project uses
+export function detectTestFramework(projectPath: string): TestFramework {
+    if (fs.existsSync(resolveResPath(projectPath, GUT_RUNNER))) {
+        return 'gut';
+    }
+    if (fs.existsSync(resolveResPath(projectPath, GDUNIT_RUNNER))) {
+        return 'gdunit4';
+    }
+    return 'builtin';
+}
+
+// First existing conventional test directory
+function defaultTestsDir(projectPath: string): string {
+    for (const candidate of ['res://tests', 'res://test']) {
+        if (fs.existsSync(resolveResPath(projectPath, candidate))) {
+            return candidate;
+        }
+    }
+    return 'res://tests';
+}
+
+// Line of a "func name(" declaration in a script, for reporting failures
+function findFunctionLine(projectPath: string, scriptPath: string, name: string): number | undefined {
+    try {
+        const source = fs.readFileSync(resolveResPath(projectPath, scriptPath), 'utf8');
+        const index = source.split('\n').findIndex(line => new RegExp(`^(static\\s+)?func\\s+${name}\\s*\\(`).test(line));
+        return index === -1 ? undefined : index + 1;
+    } catch (error) {
+        return undefined;
+    }
+}
+
+// Turn the built-in runner's events (and the errors printed between them) into suites
+function parseRunnerOutput(projectPath: string, stderr: string, errors: string[]): TestSuiteResult[] {
+    const output = new OutputBuffer(Number.MAX_SAFE_INTEGER);
+    output.write('stderr', stderr);
+    output.flush();
+
+    const suites: TestSuiteResult[] = [];
+    let suite: TestSuiteResult | null = null;
+    let current: TestCaseResult | null = null;
+    let caseErrors: string[] = [];
+    let finished = false;
+
+    for (const entry of output.query().entries) {
+        if (entry.level === 'error') {
+            const location = entry.file ? ` (${entry.file}:${entry.line})` : '';
+            if (current) {
+                caseErrors.push(entry.message + location);
+                if (entry.file?.startsWith('res://') && current.file === undefined) {
+                    current.file = entry.file;
+                    current.line = entry.line;
+                }
+            } else if (!entry.message.includes(EVENT_PREFIX)) {
+                errors.push(entry.message + location);
+            }
+            continue;
+        }
+
+        const event = readRunnerEvent<TestEvent>(entry.message, EVENT_PREFIX);
+        if (!event) {
+            continue;
+        }
+
+        switch (event.event) {
+            case 'suite_start':
+                suite = { name: event.suite, file: event.suite, durationMs: 0, cases: [] };
+                suites.push(suite);
+                break;
+            case 'case_start':
+                current = { name: event.case, status: 'passed', durationMs: 0 };
+                caseErrors = [];
+                suite?.cases.push(current);
+                break;
+            case 'case_end':
+                if (current) {
+                    current.durationMs = Math.round(event.duration_ms);
+                    current.status = caseErrors.length > 0 ? 'failed' : event.status;
+                    const messages = [event.message, ...caseErrors].filter(Boolean);
+                    if (messages.length > 0) {
+                        current.message = messages.join('\n');
+                    }
+                    if (current.status === 'failed' && current.file === undefined) {
+                        current.file = event.suite;
+                        current.line = findFunctionLine(projectPath, event.suite, event.case);
+                    }
+                }
+                current = null;
+                break;
+            case 'suite_end':
+                if (suite) {
+                    suite.durationMs = Math.round(event.duration_ms);
+                }
+                suite = null;
+                break;
+            case 'error':
+                errors.push(event.message);
+                break;
+            case 'done':
+                finished = true;
+                break;
+        }
+    }
+
+    // A test that never finished crashed or hung the run
+    if (current) {
+        current.status = 'failed';
+        current.message = ['Test did not finish', ...caseErrors].join('\n');
+    }
+    if (!finished) {
+        errors.push('Test run did not finish');
+    }
+
+    return suites;
+}
+
+// Most recently written results.xml under a directory
+function findLatestReport(directory: string): string | null {
+    if (!fs.existsSync(directory)) {
+        return null;
+    }
+    let latest: { file: string; time: number } | null = null;
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true, recursive: true })) {
+        if (entry.isFile() && entry.name === 'results.xml') {
+            const file = path.join(entry.parentPath ?? directory, entry.name);
+            const time = fs.statSync(file).mtimeMs;
+            if (!latest || time > latest.time) {
+                latest = { file, time };
+            }
+        }
+    }
+    return latest?.file ?? null;
+}
+
+// Last lines of command output, for error reports
+function outputTail(text: string, lines: number = 20): string {
+    return text.trim().split('\n').slice(-lines).join('\n');
+}
+
+// Run a project's tests headlessly and return a structured report
+export async function runTests(projectPath: string, options: TestOptions = {}): Promise<TestReport> {
+    const { path: godotPath } = await findGodot(projectPath);
+
+    const framework = options.framework ?? detectTestFramework(projectPath);
+    const testsDir = options.testsDir ?? defaultTestsDir(projectPath);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'godot_tests_'));
+    const errors: string[] = [];
+    const started = Date.now();
+    let suites: TestSuiteResult[] = [];
+
+    try {
+        let args: string[];
+        let reportPath: string | null = null;
+
+        switch (framework) {
+            case 'gut': {
+                reportPath = path.join(workDir, 'results.xml');
+                const hasConfig = fs.existsSync(path.join(projectPath, '.gutconfig.json'));
+                args = [
+                    '--headless', '--path', projectPath, '-s', GUT_RUNNER, '-gexit',
+                    `-gjunit_xml_file=${reportPath}`,
+                    ...(options.testsDir || !hasConfig ? [`-gdir=${testsDir}`, '-ginclude_subdirs'] : []),
+                    ...(options.filter ? [`-gunit_test_name=${options.filter}`] : [])
+                ];
+                break;
+            }
+            case 'gdunit4':
+                args = [
+                    '--headless', '--path', projectPath, '-s', '-d', GDUNIT_RUNNER,
+                    '--ignoreHeadlessMode', '-a', testsDir, '-rd', workDir
+                ];
+                break;
+            default:
+                args = [
+                    '--headless', '--path', projectPath, '--script', initRunnerScript(),
+                    '--', testsDir, options.filter ?? ''
+                ];
+        }
+
+        const result = await runGodotCommand(godotPath, args, projectPath, timeoutMs);
+        if (result.timedOut) {
+            errors.push(`Tests did not finish within ${timeoutMs}ms`);
+        }
+
+        if (framework === 'builtin') {
+            suites = parseRunnerOutput(projectPath, result.stderr, errors);
+        } else {
+            reportPath = reportPath && fs.existsSync(reportPath) ? reportPath : findLatestReport(workDir);
+            if (reportPath) {
+                suites = parseJUnitXml(await fs.promises.readFile(reportPath, 'utf8'));
+            } else {
+                errors.push(`No test report was produced (exit code ${result.exitCode}):\n${outputTail(result.stdout + result.stderr)}`);
+            }
+        }
+    } finally {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    }
+
+    // gdUnit4 has no name filter on the command line, so filter its results instead
+    if (framework === 'gdunit4' && options.filter) {
+        const filter = options.filter;
+        suites = suites
+            .map(suite => suite.name.includes(filter)
+                ? suite
+                : { ...suite, cases: suite.cases.filter(c => c.name.includes(filter)) })
+            .filter(suite => suite.cases.length > 0);
+    }
+
+    const cases = suites.flatMap(suite => suite.cases);
+    const totals = {
+        total: cases.length,
+        passed: cases.filter(c => c.status === 'passed').length,
+        failed: cases.filter(c => c.status === 'failed').length,
+        skipped: cases.filter(c => c.status === 'skipped').length
+    };
+
+    const report: TestReport = {
+        framework,
+        success: totals.failed === 0 && errors.length === 0,
+        totals,
+        durationMs: Date.now() - started,
+        suites,
+        errors
+    };
+
+    if (options.junitPath) {
+        fs.mkdirSync(path.dirname(options.junitPath), { recursive: true });
+        await fs.promises.writeFile(options.junitPath, toJUnitXml(suites, path.basename(projectPath)));
+        report.junitPath = options.junitPath;
+    }
+
+    return report;
+}
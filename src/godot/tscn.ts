@@ -0,0 +1,377 @@
+import { Variant, VariantParser, formatString, formatVariant } from './variant.js';
+import * as fs from 'fs';
+
+// A "key = value" line inside a section
+export interface TscnProperty {
+    key: string;
+    value: Variant;
+}
+
+// A [tag attr=value ...] section and the properties that follow it.
+// Properties written before the first header (only found in ConfigFile-style
+// files such as project.godot) are kept in a section with an empty tag.
+export interface TscnSection {
+    tag: string;
+    attributes: Record<string, Variant>;
+    properties: TscnProperty[];
+}
+
+// A parsed .tscn / .tres file
+export interface TscnDocument {
+    sections: TscnSection[];
+}
+
+// Original text of parsed items, used by the writer to leave untouched lines as they were
+interface PropertySource {
+    raw: string;        // Leading comments/blank lines plus the property text
+    trivia: string;     // Just the leading comments/blank lines
+    first: boolean;     // Whether it was the first property of its section
+    canonical: string;  // The property as the writer would format it
+}
+
+interface SectionSource {
+    header: string;
+    canonical: string;
+    trailing: string;   // Whitespace and comments up to the next section
+    next: TscnSection | undefined;
+}
+
+interface DocumentSource {
+    leading: string;
+    eol: string;
+    assign: string;
+    headerGap: string;  // Blank lines between a section header and its first property
+    resources: number;
+}
+
+const propertySources = new WeakMap<TscnProperty, PropertySource>();
+const sectionSources = new WeakMap<TscnSection, SectionSource>();
+const documentSources = new WeakMap<TscnDocument, DocumentSource>();
+
+// Sections Godot writes on consecutive lines rather than separated by a blank line
+const GROUPED_TAGS = ['ext_resource', 'connection', 'editable'];
+
+// Skip blank lines and ';' / '#' comment lines
+function skipTrivia(text: string, pos: number): number {
+    while (pos < text.length) {
+        const ch = text[pos];
+        if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\n') {
+            pos++;
+        } else if (ch === ';' || ch === '#') {
+            while (pos < text.length && text[pos] !== '\n') {
+                pos++;
+            }
+        } else {
+            break;
+        }
+    }
+    return pos;
+}
+
+// Skip the line break that separates an item from the next one
+function skipLineBreak(text: string, pos: number): number {
+    if (text.startsWith('\r\n', pos)) {
+        return pos + 2;
+    }
+    if (text[pos] === '\n') {
+        return pos + 1;
+    }
+    return pos;
+}
+
+// Format a property or attribute key, quoting it when it contains unusual characters
+export function formatKey(key: string): string {
+    return /^[A-Za-z0-9_/.:@-]+$/.test(key) ? key : formatString(key);
+}
+
+function formatHeader(section: TscnSection): string {
+    const attributes = Object.entries(section.attributes)
+        .map(([key, value]) => ` ${key}=${formatVariant(value)}`)
+        .join('');
+    return `[${section.tag}${attributes}]`;
+}
+
+function formatProperty(property: TscnProperty, assign: string): string {
+    return `${formatKey(property.key)}${assign}${formatVariant(property.value)}`;
+}
+
+// Parse the text of a .tscn/.tres (or ConfigFile) document
+export function parseTscn(text: string): TscnDocument {
+    // Godot 3 writes format=2 (and Godot 2 format=1), with a different value syntax
+    const format = /^\s*\[gd_(?:scene|resource)\b[^\]\n]*?\bformat=(\d+)/.exec(text);
+    if (format && Number(format[1]) < 3) {
+        throw new Error(`Godot 3 scenes and resources (format=${format[1]}) are not supported; `
+            + 'open the project in the Godot 4 editor to convert it');
+    }
+
+    const doc: TscnDocument = { sections: [] };
+    const parser: VariantParser = new VariantParser(text);
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    let assign: string | null = null;
+    let headerGap: string | null = null;
+    let leading = '';
+    let current: TscnSection | null = null;
+    let currentSource: SectionSource | null = null;
+    let prevEnd = 0;
+
+    while (true) {
+        const pos = skipTrivia(text, prevEnd);
+
+        if (pos >= text.length || text[pos] === '[') {
+            // End of the previous section
+            if (currentSource) {
+                currentSource.trailing = text.slice(prevEnd, pos);
+            } else if (!current) {
+                leading = text.slice(0, pos);
+            }
+            if (pos >= text.length) {
+                break;
+            }
+
+            // Section header: [tag key=value ...]
+            parser.pos = pos + 1;
+            const tagMatch = /[^\s\]]+/y;
+            tagMatch.lastIndex = parser.pos;
+            const tag = tagMatch.exec(text);
+            if (!tag) {
+                parser.fail('Expected section name');
+            }
+            parser.pos += tag[0].length;
+
+            const attributes: Record<string, Variant> = {};
+            parser.skipWhitespace();
+            while (text[parser.pos] !== ']') {
+                const keyMatch = /[A-Za-z0-9_]+/y;
+                keyMatch.lastIndex = parser.pos;
+                const key = keyMatch.exec(text);
+                if (!key) {
+                    parser.fail('Expected attribute name');
+                }
+                parser.pos += key[0].length;
+                parser.expect('=');
+                attributes[key[0]] = parser.parse();
+                parser.skipWhitespace();
+            }
+            parser.pos++;
+
+            const section: TscnSection = { tag: tag[0], attributes, properties: [] };
+            const header = text.slice(pos, parser.pos);
+            currentSource = { header, canonical: formatHeader(section), trailing: '', next: undefined };
+            sectionSources.set(section, currentSource);
+
+            if (current) {
+                sectionSources.get(current)!.next = section;
+            }
+            doc.sections.push(section);
+            current = section;
+            prevEnd = parser.pos;
+            continue;
+        }
+
+        // Property line: key = value
+        if (!current) {
+            current = { tag: '', attributes: {}, properties: [] };
+            currentSource = { header: '', canonical: '', trailing: '', next: undefined };
+            sectionSources.set(current, currentSource);
+            doc.sections.push(current);
+        }
+
+        const rawStart = current.properties.length === 0 && current.tag === ''
+            ? prevEnd
+            : skipLineBreak(text, prevEnd);
+
+        parser.pos = pos;
+        let key: string;
+        if (text[pos] === '"') {
+            key = parser.parseString();
+        } else {
+            const keyMatch = /[^=\s]+/y;
+            keyMatch.lastIndex = pos;
+            const match = keyMatch.exec(text);
+            if (!match) {
+                parser.fail('Expected property name');
+            }
+            key = match[0];
+            parser.pos += key.length;
+        }
+
+        const assignStart = parser.pos;
+        parser.expect('=');
+        if (assign === null) {
+            assign = text.slice(assignStart, parser.pos);
+            const afterAssign = parser.pos;
+            parser.skipWhitespace();
+            assign += text.slice(afterAssign, parser.pos);
+        }
+
+        if (headerGap === null && current.tag !== '' && current.properties.length === 0) {
+            headerGap = /^\s*$/.test(text.slice(rawStart, pos)) ? text.slice(rawStart, pos) : '';
+        }
+
+        const property: TscnProperty = { key, value: parser.parse() };
+        propertySources.set(property, {
+            raw: text.slice(rawStart, parser.pos),
+            trivia: text.slice(rawStart, pos),
+            first: current.properties.length === 0,
+            canonical: ''
+        });
+        current.properties.push(property);
+        prevEnd = parser.pos;
+    }
+
+    const source: DocumentSource = {
+        leading,
+        eol,
+        assign: assign ?? ' = ',
+        headerGap: headerGap ?? '',
+        resources: countResources(doc)
+    };
+    documentSources.set(doc, source);
+
+    // Record how each property would be written so unchanged ones can be detected
+    for (const section of doc.sections) {
+        for (const property of section.properties) {
+            propertySources.get(property)!.canonical = formatProperty(property, source.assign);
+        }
+    }
+
+    return doc;
+}
+
+// Gap written after a section, preserving the original one while the neighbours are unchanged
+function sectionTrailing(section: TscnSection, next: TscnSection | undefined, eol: string): string {
+    const source = sectionSources.get(section);
+    if (source && source.next === next) {
+        return source.trailing;
+    }
+    if (!next) {
+        return eol;
+    }
+    if (section.tag === next.tag && GROUPED_TAGS.includes(section.tag)) {
+        return eol;
+    }
+    return eol + eol;
+}
+
+function countResources(doc: TscnDocument): number {
+    return doc.sections.filter(s => s.tag === 'ext_resource' || s.tag === 'sub_resource').length;
+}
+
+// Keep load_steps in the file header consistent once resources are added or removed
+function headerAttributes(doc: TscnDocument, section: TscnSection): Record<string, Variant> {
+    if ((section.tag !== 'gd_scene' && section.tag !== 'gd_resource') || section.attributes.load_steps === undefined) {
+        return section.attributes;
+    }
+    const resources = countResources(doc);
+    if (resources === documentSources.get(doc)?.resources) {
+        return section.attributes;
+    }
+    return { ...section.attributes, load_steps: resources + 1 };
+}
+
+// Write a document back to text. Sections and properties that were not changed keep
+// their original text (including comments), so a small edit gives a small diff.
+export function serializeTscn(doc: TscnDocument): string {
+    const source = documentSources.get(doc) ?? { leading: '', eol: '\n', assign: ' = ', headerGap: '', resources: -1 };
+    const { eol, assign } = source;
+    let output = source.leading;
+
+    doc.sections.forEach((section, index) => {
+        const sectionSource = sectionSources.get(section);
+
+        if (section.tag !== '') {
+            const header = formatHeader({ ...section, attributes: headerAttributes(doc, section) });
+            output += sectionSource && sectionSource.canonical === header ? sectionSource.header : header;
+        }
+
+        section.properties.forEach((property, propertyIndex) => {
+            const propertySource = propertySources.get(property);
+            const canonical = formatProperty(property, assign);
+
+            if (section.tag !== '' || propertyIndex > 0) {
+                output += eol;
+            }
+            // Blank lines belong to the position (after the header or not), comments to the property
+            const gap = section.tag !== '' && propertyIndex === 0 ? source.headerGap : '';
+            const moved = propertySource && propertySource.first !== (propertyIndex === 0)
+                && /^\s*$/.test(propertySource.trivia);
+            if (!propertySource) {
+                output += gap + canonical;
+            } else if (propertySource.canonical !== canonical) {
+                output += (moved ? gap : propertySource.trivia) + canonical;
+            } else if (moved) {
+                output += gap + propertySource.raw.slice(propertySource.trivia.length);
+            } else {
+                output += propertySource.raw;
+            }
+        });
+
+        output += sectionTrailing(section, doc.sections[index + 1], eol);
+    });
+
+    return output;
+}
+
+// Create an empty document. ConfigFile-style documents (project.godot, export_presets.cfg)
+// are written as "key=value" with a blank line after each section header.
+export function createDocument(configFile: boolean = false): TscnDocument {
+    const doc: TscnDocument = { sections: [] };
+    documentSources.set(doc, {
+        leading: '',
+        eol: '\n',
+        assign: configFile ? '=' : ' = ',
+        headerGap: configFile ? '\n' : '',
+        resources: 0
+    });
+    return doc;
+}
+
+// Read and parse a scene or resource file
+export async function readTscnFile(filePath: string): Promise<TscnDocument> {
+    const text = await fs.promises.readFile(filePath, 'utf8');
+    try {
+        return parseTscn(text);
+    } catch (error: any) {
+        throw new Error(`Failed to parse ${filePath}: ${error.message}`);
+    }
+}
+
+// Serialize and write a scene or resource file
+export async function writeTscnFile(filePath: string, doc: TscnDocument): Promise<void> {
+    await fs.promises.writeFile(filePath, serializeTscn(doc));
+}
+
+// Get the gd_scene / gd_resource header section
+export function getHeader(doc: TscnDocument): TscnSection | undefined {
+    return doc.sections.find(s => s.tag === 'gd_scene' || s.tag === 'gd_resource');
+}
+
+// Get all sections with the given tag, in file order
+export function getSections(doc: TscnDocument, tag: string): TscnSection[] {
+    return doc.sections.filter(s => s.tag === tag);
+}
+
+// Get a property value from a section
+export function getProperty(section: TscnSection, key: string): Variant | undefined {
+    return section.properties.find(p => p.key === key)?.value;
+}
+
+// Set a property value, keeping its position if it already exists
+export function setProperty(section: TscnSection, key: string, value: Variant) {
+    const existing = section.properties.find(p => p.key === key);
+    if (existing) {
+        existing.value = value;
+    } else {
+        section.properties.push({ key, value });
+    }
+}
+
+// Remove a property from a section; returns whether it existed
+export function removeProperty(section: TscnSection, key: string): boolean {
+    const index = section.properties.findIndex(p => p.key === key);
+    if (index === -1) {
+        return false;
+    }
+    section.properties.splice(index, 1);
+    return true;
+}
@@ -0,0 +1,80 @@
+import { getSetting, readProjectFile } from './project-settings.js';
+import { isVariantKind } from './variant.js';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+// Godot writes UIDs in base 34: the letters a-y followed by the digits 0-8
+const UID_LETTERS = 25;
+const UID_BASE = 34n;
+// UIDs are positive 63-bit integers
+const UID_MASK = 0x7fffffffffffffffn;
+
+// Encode a UID number as Godot's "uid://..." text
+export function encodeUid(id: bigint): string {
+    let text = '';
+    let value = id;
+    while (value > 0n) {
+        const digit = Number(value % UID_BASE);
+        text = (digit < UID_LETTERS
+            ? String.fromCharCode(97 + digit)
+            : String.fromCharCode(48 + digit - UID_LETTERS)) + text;
+        value /= UID_BASE;
+    }
+    return `uid://${text}`;
+}
+
+// Decode "uid://..." text; undefined if it is not a valid UID
+export function decodeUid(text: string): bigint | undefined {
+    const match = /^uid:\/\/([a-y0-8]+)$/.exec(text);
+    if (!match) {
+        return undefined;
+    }
+    let id = 0n;
+    for (const ch of match[1]) {
+        const code = ch.charCodeAt(0);
+        id = id * UID_BASE + BigInt(code >= 97 ? code - 97 : code - 48 + UID_LETTERS);
+    }
+    return id > 0n && id <= UID_MASK ? id : undefined;
+}
+
+// Generate a random UID the way the editor does
+export function generateUid(): string {
+    let id = 0n;
+    while (id === 0n) {
+        id = crypto.randomBytes(8).readBigUInt64BE() & UID_MASK;
+    }
+    return encodeUid(id);
+}
+
+// Read the UID of a resource: from the header of .tscn/.tres files, otherwise
+// from its .import file (imported assets) or its .uid file (scripts and shaders)
+export function readResourceUid(filePath: string): string | undefined {
+    try {
+        if (/\.(tscn|tres)$/.test(filePath)) {
+            const header = /^\[gd_(?:scene|resource)\b[^\]\n]*?\buid="([^"]*)"/.exec(fs.readFileSync(filePath, 'utf8'));
+            return header?.[1];
+        }
+        if (fs.existsSync(`${filePath}.import`)) {
+            return /^uid="([^"]*)"/m.exec(fs.readFileSync(`${filePath}.import`, 'utf8'))?.[1];
+        }
+        if (fs.existsSync(`${filePath}.uid`)) {
+            return fs.readFileSync(`${filePath}.uid`, 'utf8').trim() || undefined;
+        }
+    } catch (error) {
+        return undefined;
+    }
+    return undefined;
+}
+
+// Whether a project keeps the UIDs of scripts and shaders in .uid files (Godot 4.4 and later)
+export async function usesUidFiles(projectPath: string): Promise<boolean> {
+    const features = getSetting(await readProjectFile(projectPath), 'application/config/features');
+    const version = isVariantKind(features, 'constructor')
+        ? features.args.find((arg): arg is string => typeof arg === 'string' && /^\d+\.\d+$/.test(arg))
+        : undefined;
+    if (!version) {
+        return false;
+    }
+    const [major, minor] = version.split('.').map(Number);
+    return major > 4 || (major === 4 && minor >= 4);
+}
@@ -0,0 +1,519 @@
+// Variant values as they appear in Godot's text formats (.tscn, .tres, project.godot, *.cfg)
+export type Variant =
+    | null
+    | boolean
+    | number
+    // 64-bit integers a number cannot hold exactly (from the binary format)
+    | bigint
+    | string
+    | Variant[]
+    | VariantDictionary
+    | VariantStringName
+    | VariantNodePath
+    | VariantConstructor
+    | VariantResourceRef
+    | VariantObject
+    | VariantTypedArray;
+
+// &"name"
+export interface VariantStringName {
+    kind: 'string_name';
+    value: string;
+}
+
+// NodePath("path") or ^"path"
+export interface VariantNodePath {
+    kind: 'node_path';
+    value: string;
+}
+
+// Built-in constructors such as Vector3(0, 1, 0), Color(1, 1, 1, 1) or PackedStringArray("a", "b")
+export interface VariantConstructor {
+    kind: 'constructor';
+    name: string;
+    args: Variant[];
+}
+
+// ExtResource("1_abc") / SubResource("BoxMesh_xyz")
+export interface VariantResourceRef {
+    kind: 'ext_resource' | 'sub_resource';
+    id: string | number;
+}
+
+// Object(InputEventKey,"keycode":0,...)
+export interface VariantObject {
+    kind: 'object';
+    className: string;
+    properties: [string, Variant][];
+}
+
+// { "key": value } - keys are not limited to strings, so entries keep their order and type
+export interface VariantDictionary {
+    kind: 'dictionary';
+    entries: [Variant, Variant][];
+    // Raw type text of typed dictionaries, e.g. Dictionary[String, int]({...})
+    keyType?: string;
+    valueType?: string;
+}
+
+// Array[int]([1, 2, 3]) - the element type is kept as raw text since it can be a class or an ExtResource
+export interface VariantTypedArray {
+    kind: 'typed_array';
+    elementType: string;
+    items: Variant[];
+}
+
+// Helpers to build Variant values
+export function vector2(x: number, y: number): VariantConstructor {
+    return { kind: 'constructor', name: 'Vector2', args: [x, y] };
+}
+
+export function vector3(x: number, y: number, z: number): VariantConstructor {
+    return { kind: 'constructor', name: 'Vector3', args: [x, y, z] };
+}
+
+export function color(r: number, g: number, b: number, a: number = 1): VariantConstructor {
+    return { kind: 'constructor', name: 'Color', args: [r, g, b, a] };
+}
+
+export function nodePath(value: string): VariantNodePath {
+    return { kind: 'node_path', value };
+}
+
+export function stringName(value: string): VariantStringName {
+    return { kind: 'string_name', value };
+}
+
+export function extResource(id: string | number): VariantResourceRef {
+    return { kind: 'ext_resource', id };
+}
+
+export function subResource(id: string | number): VariantResourceRef {
+    return { kind: 'sub_resource', id };
+}
+
+export function dictionary(entries: [Variant, Variant][] = []): VariantDictionary {
+    return { kind: 'dictionary', entries };
+}
+
+// Check the kind of a structured Variant value
+export function isVariantKind<K extends string>(
+    value: Variant | undefined,
+    kind: K
+): value is Extract<Variant, { kind: string }> & { kind: K } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === kind;
+}
+
+// Look up a key in a dictionary value
+export function dictionaryGet(dict: VariantDictionary, key: Variant): Variant | undefined {
+    const formatted = formatVariant(key);
+    const entry = dict.entries.find(([k]) => formatVariant(k) === formatted);
+    return entry ? entry[1] : undefined;
+}
+
+// Compare two Variant values by their text representation
+export function variantEquals(a: Variant, b: Variant): boolean {
+    return formatVariant(a) === formatVariant(b);
+}
+
+// Escape a string the way Godot's VariantWriter does (newlines stay literal)
+function escapeString(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+export function formatString(value: string): string {
+    return `"${escapeString(value)}"`;
+}
+
+function formatNumber(value: number): string {
+    if (Number.isNaN(value)) {
+        return 'nan';
+    }
+    if (value === Infinity) {
+        return 'inf';
+    }
+    if (value === -Infinity) {
+        return 'inf_neg';
+    }
+    return String(value);
+}
+
+// Convert a Variant value to Godot's text representation
+export function formatVariant(value: Variant): string {
+    if (value === null) {
+        return 'null';
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'true' : 'false';
+    }
+    if (typeof value === 'number') {
+        return formatNumber(value);
+    }
+    if (typeof value === 'bigint') {
+        return String(value);
+    }
+    if (typeof value === 'string') {
+        return formatString(value);
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(formatVariant).join(', ')}]`;
+    }
+
+    switch (value.kind) {
+        case 'string_name':
+            return `&${formatString(value.value)}`;
+        case 'node_path':
+            return `NodePath(${formatString(value.value)})`;
+        case 'constructor':
+            return `${value.name}(${value.args.map(formatVariant).join(', ')})`;
+        case 'ext_resource':
+            return `ExtResource(${typeof value.id === 'number' ? value.id : formatString(value.id)})`;
+        case 'sub_resource':
+            return `SubResource(${typeof value.id === 'number' ? value.id : formatString(value.id)})`;
+        case 'object':
+            return `Object(${[value.className, ...value.properties.map(([k, v]) => `${formatString(k)}:${formatVariant(v)}`)].join(',')})`;
+        case 'typed_array':
+            return `Array[${value.elementType}]([${value.items.map(formatVariant).join(', ')}])`;
+        case 'dictionary': {
+            const body = value.entries.length === 0
+                ? '{}'
+                : `{\n${value.entries.map(([k, v]) => `${formatVariant(k)}: ${formatVariant(v)}`).join(',\n')}\n}`;
+            return value.keyType !== undefined
+                ? `Dictionary[${value.keyType}, ${value.valueType}](${body})`
+                : body;
+        }
+    }
+}
+
+// Parser for Variant text. Positions are offsets into the original text so that
+// callers (the .tscn and ConfigFile parsers) can keep reading after a value.
+export class VariantParser {
+    pos: number;
+
+    constructor(private text: string, pos: number = 0) {
+        this.pos = pos;
+    }
+
+    // Parse a single value starting at the current position
+    parse(): Variant {
+        this.skipWhitespace();
+        const ch = this.text[this.pos];
+
+        if (ch === undefined) {
+            this.fail('Unexpected end of input');
+        }
+        if (ch === '"') {
+            return this.parseString();
+        }
+        if (ch === '&' && this.text[this.pos + 1] === '"') {
+            this.pos++;
+            return { kind: 'string_name', value: this.parseString() };
+        }
+        if (ch === '^' && this.text[this.pos + 1] === '"') {
+            this.pos++;
+            return { kind: 'node_path', value: this.parseString() };
+        }
+        if (ch === '[') {
+            return this.parseArray();
+        }
+        if (ch === '{') {
+            return this.parseDictionary();
+        }
+        if (/[0-9.+-]/.test(ch)) {
+            return this.parseNumber();
+        }
+        if (/[A-Za-z_]/.test(ch)) {
+            return this.parseIdentifierValue();
+        }
+
+        this.fail(`Unexpected character '${ch}'`);
+    }
+
+    skipWhitespace() {
+        while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+            this.pos++;
+        }
+    }
+
+    // Consume an expected character
+    expect(ch: string) {
+        this.skipWhitespace();
+        if (this.text[this.pos] !== ch) {
+            this.fail(`Expected '${ch}'`);
+        }
+        this.pos++;
+    }
+
+    // Read a string literal, handling Godot's escape sequences
+    parseString(): string {
+        if (this.text[this.pos] !== '"') {
+            this.fail('Expected string');
+        }
+        this.pos++;
+
+        let result = '';
+        while (this.pos < this.text.length) {
+            const ch = this.text[this.pos++];
+            if (ch === '"') {
+                return result;
+            }
+            if (ch !== '\\') {
+                result += ch;
+                continue;
+            }
+
+            const next = this.text[this.pos++];
+            switch (next) {
+                case 'n': result += '\n'; break;
+                case 't': result += '\t'; break;
+                case 'r': result += '\r'; break;
+                case 'b': result += '\b'; break;
+                case 'f': result += '\f'; break;
+                case 'u': {
+                    const hex = this.text.slice(this.pos, this.pos + 4);
+                    result += String.fromCharCode(parseInt(hex, 16));
+                    this.pos += 4;
+                    break;
+                }
+                case 'U': {
+                    const hex = this.text.slice(this.pos, this.pos + 6);
+                    result += String.fromCodePoint(parseInt(hex, 16));
+                    this.pos += 6;
+                    break;
+                }
+                default:
+                    result += next;
+            }
+        }
+
+        this.fail('Unterminated string');
+    }
+
+    // Read an identifier such as a constructor or class name
+    parseIdentifier(): string {
+        const match = /[A-Za-z_][A-Za-z0-9_]*/y;
+        match.lastIndex = this.pos;
+        const result = match.exec(this.text);
+        if (!result) {
+            this.fail('Expected identifier');
+        }
+        this.pos += result[0].length;
+        return result[0];
+    }
+
+    private parseNumber(): number {
+        const match = /[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/y;
+        match.lastIndex = this.pos;
+        const result = match.exec(this.text);
+
+        if (!result) {
+            // -inf is accepted as an alias of inf_neg
+            if (this.text.startsWith('-inf', this.pos)) {
+                this.pos += 4;
+                return -Infinity;
+            }
+            this.fail('Invalid number');
+        }
+
+        this.pos += result[0].length;
+        return Number(result[0]);
+    }
+
+    private parseArray(): Variant[] {
+        this.expect('[');
+        const items: Variant[] = [];
+
+        this.skipWhitespace();
+        while (this.text[this.pos] !== ']') {
+            items.push(this.parse());
+            this.skipWhitespace();
+            if (this.text[this.pos] === ',') {
+                this.pos++;
+                this.skipWhitespace();
+            } else if (this.text[this.pos] !== ']') {
+                this.fail("Expected ',' or ']' in array");
+            }
+        }
+        this.pos++;
+
+        return items;
+    }
+
+    private parseDictionary(): VariantDictionary {
+        this.expect('{');
+        const entries: [Variant, Variant][] = [];
+
+        this.skipWhitespace();
+        while (this.text[this.pos] !== '}') {
+            const key = this.parse();
+            this.expect(':');
+            const value = this.parse();
+            entries.push([key, value]);
+
+            this.skipWhitespace();
+            if (this.text[this.pos] === ',') {
+                this.pos++;
+                this.skipWhitespace();
+            } else if (this.text[this.pos] !== '}') {
+                this.fail("Expected ',' or '}' in dictionary");
+            }
+        }
+        this.pos++;
+
+        return { kind: 'dictionary', entries };
+    }
+
+    // Read comma separated arguments up to the closing parenthesis
+    private parseArguments(): Variant[] {
+        const args: Variant[] = [];
+
+        this.skipWhitespace();
+        while (this.text[this.pos] !== ')') {
+            args.push(this.parse());
+            this.skipWhitespace();
+            if (this.text[this.pos] === ',') {
+                this.pos++;
+                this.skipWhitespace();
+            } else if (this.text[this.pos] !== ')') {
+                this.fail("Expected ',' or ')'");
+            }
+        }
+        this.pos++;
+
+        return args;
+    }
+
+    // Read the raw text between matching square brackets (for typed container types)
+    private parseTypeText(): string {
+        const start = this.pos + 1;
+        let depth = 0;
+
+        do {
+            const ch = this.text[this.pos++];
+            if (ch === undefined) {
+                this.fail('Unterminated type');
+            }
+            if (ch === '"') {
+                this.pos--;
+                this.parseString();
+            } else if (ch === '[') {
+                depth++;
+            } else if (ch === ']') {
+                depth--;
+            }
+        } while (depth > 0);
+
+        return this.text.slice(start, this.pos - 1).trim();
+    }
+
+    private parseIdentifierValue(): Variant {
+        const name = this.parseIdentifier();
+
+        switch (name) {
+            case 'true': return true;
+            case 'false': return false;
+            case 'null':
+            case 'nil': return null;
+            case 'inf': return Infinity;
+            case 'inf_neg': return -Infinity;
+            case 'nan': return NaN;
+        }
+
+        this.skipWhitespace();
+
+        if (name === 'Array' && this.text[this.pos] === '[') {
+            const elementType = this.parseTypeText();
+            this.expect('(');
+            this.skipWhitespace();
+            const items = this.parseArray();
+            this.expect(')');
+            return { kind: 'typed_array', elementType, items };
+        }
+
+        if (name === 'Dictionary' && this.text[this.pos] === '[') {
+            const types = this.parseTypeText();
+            const split = splitTopLevel(types);
+            this.expect('(');
+            this.skipWhitespace();
+            const dict = this.parseDictionary();
+            this.expect(')');
+            return { ...dict, keyType: split[0], valueType: split[1] };
+        }
+
+        if (this.text[this.pos] !== '(') {
+            this.fail(`Unexpected identifier '${name}'`);
+        }
+        this.pos++;
+
+        if (name === 'Object') {
+            this.skipWhitespace();
+            const className = this.parseIdentifier();
+            const properties: [string, Variant][] = [];
+
+            this.skipWhitespace();
+            while (this.text[this.pos] === ',') {
+                this.pos++;
+                this.skipWhitespace();
+                const key = this.parseString();
+                this.expect(':');
+                properties.push([key, this.parse()]);
+                this.skipWhitespace();
+            }
+            this.expect(')');
+
+            return { kind: 'object', className, properties };
+        }
+
+        const args = this.parseArguments();
+
+        switch (name) {
+            case 'ExtResource':
+            case 'SubResource':
+                if (args.length !== 1 || (typeof args[0] !== 'string' && typeof args[0] !== 'number')) {
+                    this.fail(`${name} expects a single id`);
+                }
+                return { kind: name === 'ExtResource' ? 'ext_resource' : 'sub_resource', id: args[0] };
+            case 'NodePath':
+                return { kind: 'node_path', value: typeof args[0] === 'string' ? args[0] : '' };
+            case 'StringName':
+                return { kind: 'string_name', value: typeof args[0] === 'string' ? args[0] : '' };
+            default:
+                return { kind: 'constructor', name, args };
+        }
+    }
+
+    // Throw an error pointing at the current line and column
+    fail(message: string): never {
+        const before = this.text.slice(0, this.pos);
+        const line = before.split('\n').length;
+        const column = this.pos - before.lastIndexOf('\n');
+        throw new Error(`${message} at line ${line}, column ${column}`);
+    }
+}
+
+// Split "A, B" at the top-level comma (used for typed dictionary types)
+function splitTopLevel(text: string): string[] {
+    let depth = 0;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '[' || ch === '(') {
+            depth++;
+        } else if (ch === ']' || ch === ')') {
+            depth--;
+        } else if (ch === ',' && depth === 0) {
+            return [text.slice(0, i).trim(), text.slice(i + 1).trim()];
+        }
+    }
+    return [text.trim(), ''];
+}
+
+// Parse a complete Variant value from text
+export function parseVariant(text: string): Variant {
+    const parser = new VariantParser(text);
+    const value = parser.parse();
+    parser.skipWhitespace();
+    if (parser.pos < text.length) {
+        parser.fail('Unexpected trailing characters');
+    }
+    return value;
+}
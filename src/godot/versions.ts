@@ -0,0 +1,189 @@
+import { findGodotPaths, runGodotCommand, isGodotProject } from '../utils/godot-utils.js';
+import { getSetting, readProjectFile } from './project-settings.js';
+import { isVariantKind } from './variant.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// A Godot version as printed by "godot --version", e.g. 4.3.stable.mono.official.77dcf97d8
+export interface GodotVersion {
+    major: number;
+    minor: number;
+    patch: number;
+    // "stable", or a pre-release such as "beta2", "rc1" or "dev3"
+    channel: string;
+    // .NET (C#) build
+    mono: boolean;
+    text: string;
+}
+
+// An installed Godot executable
+export interface GodotInstall {
+    path: string;
+    version: GodotVersion;
+}
+
+// The engine a project was made with, from project.godot
+export interface ProjectEngine {
+    // 4 for Godot 3.x projects, 5 for Godot 4.x
+    configVersion: number;
+    major: number;
+    // From config/features; unknown for Godot 3 projects and projects without features
+    minor?: number;
+    csharp: boolean;
+}
+
+// How long "godot --version" may take
+const VERSION_TIMEOUT_MS = 10000;
+
+let installs: GodotInstall[] | null = null;
+
+// Parse the output of "godot --version"; null if it is not a Godot version
+export function parseGodotVersion(output: string): GodotVersion | null {
+    for (const line of output.trim().split('\n').reverse()) {
+        const match = /^(\d+)\.(\d+)(?:\.(\d+))?\.([a-z]+\d*)(\.mono)?\b/.exec(line.trim());
+        if (match) {
+            return {
+                major: Number(match[1]),
+                minor: Number(match[2]),
+                patch: Number(match[3] ?? 0),
+                channel: match[4],
+                mono: match[5] !== undefined,
+                text: line.trim()
+            };
+        }
+    }
+    return null;
+}
+
+// Short form of a version, e.g. "4.3.1-stable (.NET)"
+export function formatGodotVersion(version: GodotVersion): string {
+    return `${version.major}.${version.minor}${version.patch > 0 ? `.${version.patch}` : ''}-${version.channel}${version.mono ? ' (.NET)' : ''}`;
+}
+
+// The installed Godot executables with their versions, in the order they were found
+// (GODOT_PATH first). Executables that do not report a version are left out.
+export async function listGodotInstalls(refresh: boolean = false): Promise<GodotInstall[]> {
+    if (installs && !refresh) {
+        return installs;
+    }
+
+    const found: GodotInstall[] = [];
+    const seen = new Set<string>();
+    for (const godotPath of await findGodotPaths()) {
+        const realPath = fs.realpathSync(godotPath);
+        if (seen.has(realPath)) {
+            continue;
+        }
+        seen.add(realPath);
+        try {
+            const { stdout, stderr } = await runGodotCommand(godotPath, ['--version'], undefined, VERSION_TIMEOUT_MS);
+            const version = parseGodotVersion(stdout) ?? parseGodotVersion(stderr);
+            if (version) {
+                found.push({ path: godotPath, version });
+            }
+        } catch (error) {
+            console.error(`Failed to get the version of ${godotPath}:`, error);
+        }
+    }
+    installs = found;
+    return installs;
+}
+
+// Read the engine version a project targets
+export async function getProjectEngine(projectPath: string): Promise<ProjectEngine> {
+    const doc = await readProjectFile(projectPath);
+    const configVersion = getSetting(doc, 'config_version');
+    const features = getSetting(doc, 'application/config/features');
+    const featureList = isVariantKind(features, 'constructor')
+        ? features.args.filter((arg): arg is string => typeof arg === 'string')
+        : [];
+    const version = featureList.find(feature => /^\d+\.\d+$/.test(feature));
+
+    const engine: ProjectEngine = {
+        configVersion: typeof configVersion === 'number' ? configVersion : 5,
+        major: configVersion === 4 ? 3 : 4,
+        csharp: featureList.includes('C#') || fs.readdirSync(projectPath).some(name => name.endsWith('.csproj'))
+    };
+    if (version) {
+        [engine.major, engine.minor] = version.split('.').map(Number);
+    }
+    return engine;
+}
+
+// Throw a clear error for Godot 3 projects in features that need Godot 4
+export async function assertGodot4Project(projectPath: string, feature: string = 'This tool') {
+    if (await isGodotProject(projectPath) && (await getProjectEngine(projectPath)).major < 4) {
+        throw new Error(`${feature} only supports Godot 4 projects, and ${projectPath} is a Godot 3 project (config_version=4). `
+            + 'Open it in the Godot 4 editor to convert it, or use a Godot 3 editor.');
+    }
+}
+
+// Order installs by preference: standard builds before .NET ones unless .NET is wanted,
+// stable releases before pre-releases, then the newest
+function byPreference(mono: boolean = false) {
+    return (a: GodotInstall, b: GodotInstall): number =>
+        Number(a.version.mono !== mono) - Number(b.version.mono !== mono)
+        || Number(b.version.channel === 'stable') - Number(a.version.channel === 'stable')
+        || b.version.minor - a.version.minor
+        || b.version.patch - a.version.patch;
+}
+
+// The preferred install of equally suitable ones; GODOT_PATH wins ties
+function pick(candidates: GodotInstall[], mono: boolean): GodotInstall {
+    const sorted = [...candidates].sort(byPreference(mono));
+    const preferred = process.env.GODOT_PATH
+        ? sorted.find(install => install.path === process.env.GODOT_PATH && install.version.mono === sorted[0].version.mono)
+        : undefined;
+    return preferred ?? sorted[0];
+}
+
+// Pick the Godot executable for a project: the same major and minor version as its
+// config/features (a .NET build for C# projects), otherwise the closest newer minor
+// version, which opens the project and upgrades it. Without a project, GODOT_PATH or the
+// newest stable Godot 4 is used. With allowGodot3 unset, Godot 3 projects are rejected.
+export async function findGodot(projectPath?: string, options: { allowGodot3?: boolean } = {}): Promise<GodotInstall> {
+    const available = await listGodotInstalls();
+    if (available.length === 0) {
+        throw new Error('Godot executable not found. Set GODOT_PATH environment variable to your Godot executable, '
+            + 'or GODOT_PATHS to the executables or folders of all your Godot versions.');
+    }
+
+    if (!projectPath || !await isGodotProject(projectPath)) {
+        const configured = available.find(install => install.path === process.env.GODOT_PATH);
+        if (configured) {
+            return configured;
+        }
+        const godot4 = available.filter(install => install.version.major === 4);
+        return pick(godot4.length > 0 ? godot4 : available, false);
+    }
+
+    const engine = await getProjectEngine(projectPath);
+    if (engine.major < 4 && !options.allowGodot3) {
+        await assertGodot4Project(projectPath);
+    }
+
+    let candidates = available.filter(install => install.version.major === engine.major);
+    if (candidates.length === 0) {
+        throw new Error(`${path.basename(projectPath)} is a Godot ${engine.major}${engine.minor !== undefined ? `.${engine.minor}` : ''} project `
+            + `but no Godot ${engine.major} executable was found (installed: ${available.map(install => formatGodotVersion(install.version)).join(', ')}). `
+            + 'Add one to GODOT_PATHS.');
+    }
+    // C# projects only run in .NET builds
+    if (engine.csharp && candidates.some(install => install.version.mono)) {
+        candidates = candidates.filter(install => install.version.mono);
+    }
+
+    if (engine.minor !== undefined) {
+        const minor = engine.minor;
+        const exact = candidates.filter(install => install.version.minor === minor);
+        if (exact.length > 0) {
+            return pick(exact, engine.csharp);
+        }
+        const newer = candidates.filter(install => install.version.minor > minor);
+        if (newer.length > 0) {
+            const closest = Math.min(...newer.map(install => install.version.minor));
+            return pick(newer.filter(install => install.version.minor === closest), engine.csharp);
+        }
+    }
+    return pick(candidates, engine.csharp);
+}
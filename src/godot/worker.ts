@@ -0,0 +1,483 @@
+import { isGodotProject } from '../utils/godot-utils.js';
+import { findGodot } from './versions.js';
+import { spawn, ChildProcess } from 'child_process';
+import * as crypto from 'crypto';
+import * as net from 'net';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+// An operation for the worker; params are passed to the handler as a Dictionary
+export interface WorkerRequest {
+    operation: string;
+    params?: Record<string, unknown>;
+}
+
+// Status of a running worker, for tool output
+export interface WorkerInfo {
+    projectPath: string;
+    pid: number | null;
+    version: string | null;
+    startedAt: string;
+    requests: number;
+    pending: number;
+    idleSeconds: number;
+}
+
+interface PendingRequest {
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+// A headless Godot process that runs operations for one project. It connects back to a
+// local TCP server and exchanges JSON messages, each prefixed with its length (uint32 LE).
+interface GodotWorker {
+    projectPath: string;
+    process: ChildProcess;
+    server: net.Server;
+    socket: net.Socket | null;
+    token: string;
+    ready: Promise<void>;
+    markReady: () => void;
+    fail: (error: Error) => void;
+    pending: Map<number, PendingRequest>;
+    buffer: Buffer;
+    nextId: number;
+    // Last lines the engine printed, to explain crashes
+    output: string[];
+    version: string | null;
+    startedAt: Date;
+    lastActivity: number;
+    requests: number;
+    idleTimer: NodeJS.Timeout | null;
+    stopping: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+const DEFAULT_IDLE_MS = 5 * 60 * 1000;
+const STARTUP_TIMEOUT_MS = 30 * 1000;
+// Workers unused for this long are pinged before they get a new request
+const HEALTH_CHECK_AFTER_MS = 30 * 1000;
+const HEALTH_CHECK_TIMEOUT_MS = 5 * 1000;
+const STOP_TIMEOUT_MS = 5 * 1000;
+const MAX_FRAME_SIZE = 64 * 1024 * 1024;
+const OUTPUT_LINES = 40;
+
+// Running workers by project, and workers still starting
+const workers = new Map<string, GodotWorker>();
+const starting = new Map<string, Promise<GodotWorker>>();
+
+// Path to the worker script
+let workerScriptPath: string | null = null;
+
+// Write the worker script: it loads the operations script, connects to the server and
+// answers requests until it is told to quit or the connection closes
+function initWorkerScript(): string {
+    if (!workerScriptPath) {
+        workerScriptPath = path.join(os.tmpdir(), 'godot_worker.gd');
+
+        const workerContent = `extends SceneTree
+
+# Persistent worker for Godot MCP Server
+
+var peer := StreamPeerTCP.new()
+var buffer := PackedByteArray()
+var handlers: Object = null
+var token := ""
+var connected := false
+
+func _initialize():
+    var options := {}
+    for arg in OS.get_cmdline_user_args():
+        var separator = arg.find("=")
+        if arg.begins_with("--") and separator != -1:
+            options[arg.substr(2, separator - 2)] = arg.substr(separator + 1)
+
+    # Requests are polled every frame; there is nothing to draw
+    Engine.max_fps = 60
+    token = options.get("token", "")
+    var operations = load(options.get("operations", ""))
+    if operations == null:
+        printerr("Cannot load the operations script")
+        quit(1)
+        return
+    handlers = operations.new()
+    if peer.connect_to_host("127.0.0.1", int(options.get("port", "0"))) != OK:
+        printerr("Cannot connect to the server")
+        quit(1)
+
+func _process(_delta):
+    peer.poll()
+    var status = peer.get_status()
+    if status == StreamPeerTCP.STATUS_CONNECTING:
+        return false
+    if status != StreamPeerTCP.STATUS_CONNECTED:
+        # The server went away
+        quit()
+        return true
+    if not connected:
+        connected = true
+        send({"type": "hello", "token": token, "version": Engine.get_version_info().string})
+
+    var available = peer.get_available_bytes()
+    if available > 0:
+        var received = peer.get_data(available)
+        if received[0] == OK:
+            buffer.append_array(received[1])
+    while buffer.size() >= 4:
+        var length = buffer.decode_u32(0)
+        if buffer.size() < 4 + length:
+            break
+        var text = buffer.slice(4, 4 + length).get_string_from_utf8()
+        buffer = buffer.slice(4 + length)
+        if handle(text):
+            return true
+    return false
+
+# Run one request; returns true when the worker should quit
+func handle(text):
+    var request = JSON.parse_string(text)
+    if typeof(request) != TYPE_DICTIONARY:
+        send({"id": null, "success": false, "error": "Invalid request"})
+        return false
+
+    var operation = str(request.get("operation", ""))
+    var params = request.get("params", {})
+    var response = null
+    match operation:
+        "ping":
+            response = {"success": true, "version": Engine.get_version_info().string}
+        "quit":
+            send({"id": request.get("id"), "success": true})
+            peer.disconnect_from_host()
+            quit()
+            return true
+        _:
+            if handlers.has_method(operation):
+                response = handlers.call(operation, params if typeof(params) == TYPE_DICTIONARY else {})
+            else:
+                response = {"success": false, "error": "Unknown operation: " + operation}
+
+    # Script errors in a handler leave no result; the engine printed the details
+    if typeof(response) != TYPE_DICTIONARY:
+        response = {"success": false, "error": "Operation " + operation + " failed; see the Godot output"}
+    response["id"] = request.get("id")
+    send(response)
+    return false
+
+func send(message):
+    var data = JSON.stringify(message).to_utf8_buffer()
+    var frame = PackedByteArray()
+    frame.resize(4)
+    frame.encode_u32(0, data.size())
+    frame.append_array(data)
+    peer.put_data(frame)
+`;
+
+        try {
+            fs.writeFileSync(workerScriptPath, workerContent);
+        } catch (error) {
+            throw new Error(`Failed to create Godot worker script: ${error}`);
+        }
+    }
+
+    return workerScriptPath;
+}
+
+// Workers stop after this long without requests (GODOT_WORKER_IDLE_MS)
+function idleTimeout(): number {
+    const value = Number(process.env.GODOT_WORKER_IDLE_MS);
+    return Number.isFinite(value) && value > 0 ? value : DEFAULT_IDLE_MS;
+}
+
+function outputTail(worker: GodotWorker): string {
+    return worker.output.length > 0 ? `\nGodot output:\n${worker.output.join('\n')}` : '';
+}
+
+function send(worker: GodotWorker, message: unknown) {
+    const data = Buffer.from(JSON.stringify(message), 'utf8');
+    const header = Buffer.alloc(4);
+    header.writeUInt32LE(data.length, 0);
+    worker.socket!.write(Buffer.concat([header, data]));
+}
+
+function handleMessage(worker: GodotWorker, message: any) {
+    if (message?.type === 'hello') {
+        if (message.token !== worker.token) {
+            worker.fail(new Error('Godot worker sent an invalid token'));
+            return;
+        }
+        worker.version = typeof message.version === 'string' ? message.version : null;
+        worker.markReady();
+        return;
+    }
+
+    const id = Number(message?.id);
+    const request = worker.pending.get(id);
+    if (!request) {
+        return;
+    }
+    clearTimeout(request.timer);
+    worker.pending.delete(id);
+    delete message.id;
+    request.resolve(message);
+
+    worker.lastActivity = Date.now();
+    if (worker.pending.size === 0) {
+        scheduleIdleStop(worker);
+    }
+}
+
+// Split the incoming stream into frames
+function receive(worker: GodotWorker, chunk: Buffer) {
+    worker.buffer = Buffer.concat([worker.buffer, chunk]);
+    while (worker.buffer.length >= 4) {
+        const length = worker.buffer.readUInt32LE(0);
+        if (length > MAX_FRAME_SIZE) {
+            worker.fail(new Error(`Godot worker sent a frame of ${length} bytes`));
+            return;
+        }
+        if (worker.buffer.length < 4 + length) {
+            return;
+        }
+        const text = worker.buffer.subarray(4, 4 + length).toString('utf8');
+        worker.buffer = worker.buffer.subarray(4 + length);
+        try {
+            handleMessage(worker, JSON.parse(text));
+        } catch (error: any) {
+            worker.fail(new Error(`Godot worker sent invalid JSON: ${error.message}`));
+            return;
+        }
+    }
+}
+
+function scheduleIdleStop(worker: GodotWorker) {
+    if (worker.idleTimer) {
+        clearTimeout(worker.idleTimer);
+    }
+    worker.idleTimer = setTimeout(() => stopProcess(worker), idleTimeout());
+    worker.idleTimer.unref();
+}
+
+// Ask a worker to quit, killing it if it does not exit in time
+function stopProcess(worker: GodotWorker) {
+    if (worker.stopping) {
+        return;
+    }
+    worker.stopping = true;
+    if (workers.get(worker.projectPath) === worker) {
+        workers.delete(worker.projectPath);
+    }
+    if (worker.socket && !worker.socket.destroyed) {
+        send(worker, { id: worker.nextId++, operation: 'quit' });
+    }
+    const timer = setTimeout(() => worker.process.kill('SIGKILL'), STOP_TIMEOUT_MS);
+    timer.unref();
+    worker.process.once('exit', () => clearTimeout(timer));
+}
+
+// Start a worker and wait for it to connect
+async function startWorker(projectPath: string, operationsScript: string): Promise<GodotWorker> {
+    if (!await isGodotProject(projectPath)) {
+        throw new Error(`Invalid Godot project path: ${projectPath}`);
+    }
+    const { path: godotPath } = await findGodot(projectPath);
+    const scriptPath = initWorkerScript();
+
+    const server = net.createServer();
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => resolve());
+    });
+    const { port } = server.address() as net.AddressInfo;
+    const token = crypto.randomBytes(16).toString('hex');
+
+    const child = spawn(godotPath, [
+        '--headless', '--path', projectPath, '--script', scriptPath,
+        '--', `--port=${port}`, `--token=${token}`, `--operations=${operationsScript}`
+    ], { stdio: ['ignore', 'pipe', 'pipe'] });
+
+    let markReady!: () => void;
+    let rejectReady!: (error: Error) => void;
+    const ready = new Promise<void>((resolve, reject) => {
+        markReady = resolve;
+        rejectReady = reject;
+    });
+    // Callers await ready; keep an unobserved failure from crashing the server
+    ready.catch(() => undefined);
+
+    const worker: GodotWorker = {
+        projectPath,
+        process: child,
+        server,
+        socket: null,
+        token,
+        ready,
+        markReady,
+        fail: error => {
+            // Take the worker out of service right away; the exit handler rejects its requests
+            if (workers.get(projectPath) === worker) {
+                workers.delete(projectPath);
+            }
+            worker.output.push(error.message);
+            child.kill('SIGKILL');
+        },
+        pending: new Map(),
+        buffer: Buffer.alloc(0),
+        nextId: 1,
+        output: [],
+        version: null,
+        startedAt: new Date(),
+        lastActivity: Date.now(),
+        requests: 0,
+        idleTimer: null,
+        stopping: false
+    };
+
+    const collect = (chunk: Buffer) => {
+        worker.output.push(...chunk.toString('utf8').split(/\r?\n/).filter(line => line.trim() !== ''));
+        worker.output.splice(0, Math.max(0, worker.output.length - OUTPUT_LINES));
+    };
+    child.stdout!.on('data', collect);
+    child.stderr!.on('data', collect);
+
+    server.on('connection', socket => {
+        // Only the first connection is the worker
+        if (worker.socket) {
+            socket.destroy();
+            return;
+        }
+        worker.socket = socket;
+        socket.setNoDelay(true);
+        socket.on('data', chunk => receive(worker, chunk));
+        socket.on('error', () => undefined);
+        socket.on('close', () => {
+            if (!worker.stopping) {
+                child.kill('SIGKILL');
+            }
+        });
+    });
+
+    const startupTimer = setTimeout(() => {
+        worker.fail(new Error(`Godot worker did not connect within ${STARTUP_TIMEOUT_MS / 1000} s`));
+    }, STARTUP_TIMEOUT_MS);
+
+    const finish = (error: Error) => {
+        clearTimeout(startupTimer);
+        if (worker.idleTimer) {
+            clearTimeout(worker.idleTimer);
+        }
+        if (workers.get(projectPath) === worker) {
+            workers.delete(projectPath);
+        }
+        server.close();
+        worker.socket?.destroy();
+        rejectReady(error);
+        for (const request of worker.pending.values()) {
+            clearTimeout(request.timer);
+            request.reject(error);
+        }
+        worker.pending.clear();
+    };
+    child.on('error', error => finish(new Error(`Failed to start Godot worker: ${error.message}`)));
+    child.on('exit', (code, signal) => finish(worker.stopping
+        ? new Error('Godot worker was stopped')
+        : new Error(`Godot worker exited unexpectedly (${signal ?? `exit code ${code}`})${outputTail(worker)}`)));
+
+    await ready.finally(() => clearTimeout(startupTimer));
+    workers.set(projectPath, worker);
+    scheduleIdleStop(worker);
+    return worker;
+}
+
+// Send one request; a request that times out takes the worker down, since a busy engine cannot be interrupted
+function request(worker: GodotWorker, operation: string, params: Record<string, unknown>, timeoutMs: number): Promise<any> {
+    if (worker.idleTimer) {
+        clearTimeout(worker.idleTimer);
+        worker.idleTimer = null;
+    }
+    return new Promise((resolve, reject) => {
+        const id = worker.nextId++;
+        const timer = setTimeout(() => {
+            worker.pending.delete(id);
+            reject(new Error(`Operation ${operation} timed out after ${timeoutMs / 1000} s; the Godot worker was stopped`));
+            worker.fail(new Error(`Operation ${operation} timed out`));
+        }, timeoutMs);
+        worker.pending.set(id, { resolve, reject, timer });
+        worker.requests++;
+        send(worker, { id, operation, params });
+    });
+}
+
+// Get the project's worker, starting a new one if there is none or the old one stopped responding
+async function getWorker(projectPath: string, operationsScript: string): Promise<GodotWorker> {
+    const key = path.resolve(projectPath);
+    let worker = workers.get(key);
+    if (worker && worker.pending.size === 0 && Date.now() - worker.lastActivity > HEALTH_CHECK_AFTER_MS) {
+        try {
+            await request(worker, 'ping', {}, HEALTH_CHECK_TIMEOUT_MS);
+            worker.lastActivity = Date.now();
+        } catch (error) {
+            worker = undefined;
+        }
+    }
+    if (worker) {
+        return worker;
+    }
+
+    let pending = starting.get(key);
+    if (!pending) {
+        pending = startWorker(key, operationsScript).finally(() => starting.delete(key));
+        starting.set(key, pending);
+    }
+    return pending;
+}
+
+// Run operations in the project's worker, in order. Results are the handlers' result
+// dictionaries; the promise rejects if the worker crashes or a request times out.
+export async function runWorkerOperations(
+    projectPath: string,
+    operationsScript: string,
+    requests: WorkerRequest[],
+    timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<any[]> {
+    const worker = await getWorker(projectPath, operationsScript);
+    return Promise.all(requests.map(item => request(worker, item.operation, item.params ?? {}, timeoutMs)));
+}
+
+// Running workers, each checked with a ping
+export async function listWorkers(): Promise<(WorkerInfo & { healthy: boolean })[]> {
+    return Promise.all([...workers.values()].map(async worker => {
+        const idleSeconds = Math.round((Date.now() - worker.lastActivity) / 1000);
+        let healthy = true;
+        try {
+            await request(worker, 'ping', {}, HEALTH_CHECK_TIMEOUT_MS);
+        } catch (error) {
+            healthy = false;
+        }
+        return {
+            projectPath: worker.projectPath,
+            pid: worker.process.pid ?? null,
+            version: worker.version,
+            startedAt: worker.startedAt.toISOString(),
+            requests: worker.requests,
+            pending: worker.pending.size,
+            idleSeconds,
+            healthy
+        };
+    }));
+}
+
+// Stop the worker of a project, or all of them; returns the projects whose workers were stopped
+export function stopWorkers(projectPath?: string): string[] {
+    const key = projectPath === undefined ? undefined : path.resolve(projectPath);
+    const stopped: string[] = [];
+    for (const worker of [...workers.values()]) {
+        if (key === undefined || worker.projectPath === key) {
+            stopProcess(worker);
+            stopped.push(worker.projectPath);
+        }
+    }
+    return stopped;
+}
@@ -2,20 +2,47 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { registerGodotTools } from './tools/godot-tools.js';
 import { registerFileTools } from './tools/file-tools.js';
+import { registerGodotResources } from './resources/godot-resources.js';
+import { configureSandbox, getSandboxInfo } from './utils/sandbox.js';
+import { readHttpOptions, startHttpServer } from './utils/http-transport.js';
+import { AddressInfo } from 'net';
 
-// Create the MCP server
-const server = new McpServer({
-    name: "Godot MCP Server",
-    version: "0.1.0"
-});
+// Restrict file access to the configured project roots
+configureSandbox();
 
-// Register all tools
-registerGodotTools(server);
-registerFileTools(server);
+// Create an MCP server with all tools and resources; over HTTP every session gets its own
+function createServer(): McpServer {
+    const server = new McpServer({
+        name: "Godot MCP Server",
+        version: "0.1.0"
+    });
 
-// Start the server with STDIO transport (for Claude and other clients)
-const transport = new StdioServerTransport();
+    // Register all tools; their calls are checked against the sandbox and recorded in the history
+    registerGodotTools(server);
+    registerFileTools(server);
 
-// Connect and start listening
-await server.connect(transport);
-console.error("Godot MCP Server running...");
\ No newline at end of file
+    // Publish project files, scene trees and settings as resources
+    registerGodotResources(server);
+    return server;
+}
+
+const httpOptions = readHttpOptions();
+if (httpOptions) {
+    // Serve MCP over Streamable HTTP on localhost, shared by any number of clients
+    const httpServer = await startHttpServer(createServer, httpOptions);
+    const port = (httpServer.address() as AddressInfo).port;
+    console.error(`Godot MCP Server listening on http://127.0.0.1:${port}/mcp`
+        + (httpOptions.token ? ' (bearer token required)' : ''));
+} else {
+    // Start the server with STDIO transport (for Claude and other clients)
+    const transport = new StdioServerTransport();
+
+    // Connect and start listening
+    await createServer().connect(transport);
+    console.error("Godot MCP Server running...");
+}
+
+const sandbox = getSandboxInfo();
+console.error(sandbox.roots.length > 0
+    ? `Allowed project roots: ${sandbox.roots.join(', ')}${sandbox.readOnly ? ' (read-only)' : ''}`
+    : `No project roots configured (GODOT_MCP_ROOTS); all paths are accessible${sandbox.readOnly ? ' (read-only)' : ''}`);
@@ -0,0 +1,254 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import * as commands from '../godot/commands.js';
+import * as scene from '../godot/scene.js';
+import * as projectSettings from '../godot/project-settings.js';
+import * as files from '../utils/file-operations.js';
+import { isGodotProject } from '../utils/godot-utils.js';
+import { getSandboxInfo, resolveSandboxPath } from '../utils/sandbox.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// A project published as resources, named by its directory
+interface ProjectEntry {
+    name: string;
+    path: string;
+}
+
+const PROJECTS_URI = 'godot://projects';
+const fileTemplate = new ResourceTemplate('godot://{project}/res/{+path}', {
+    list: async () => listProjectFiles('*.{gd,tscn,tres,gdshader}', 'res'),
+    complete: { project: completeProject }
+});
+const sceneTemplate = new ResourceTemplate('godot://{project}/scene/{+path}', {
+    list: async () => listProjectFiles('*.tscn', 'scene'),
+    complete: { project: completeProject }
+});
+const settingsTemplate = new ResourceTemplate('godot://{project}/project.godot', {
+    list: async () => ({
+        resources: (await findProjects()).map(project => ({
+            uri: `godot://${encodeURIComponent(project.name)}/project.godot`,
+            name: `${project.name} settings`
+        }))
+    }),
+    complete: { project: completeProject }
+});
+
+// Files bigger than this are not returned as resources
+const MAX_RESOURCE_SIZE = 10 * 1024 * 1024;
+// Changes closer together than this are sent as one notification
+const NOTIFY_DELAY_MS = 100;
+const MIME_TYPES: Record<string, string> = {
+    '.gd': 'text/x-gdscript',
+    '.json': 'application/json',
+    '.md': 'text/markdown',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.svg': 'image/svg+xml',
+    '.webp': 'image/webp',
+    '.wav': 'audio/wav',
+    '.ogg': 'audio/ogg',
+    '.mp3': 'audio/mpeg'
+};
+
+// Projects under the allowed roots (GODOT_MCP_ROOTS), or under the working directory when no
+// roots are configured. A root can itself be a project. Names that repeat keep the first project.
+async function findProjects(): Promise<ProjectEntry[]> {
+    const roots = getSandboxInfo().roots;
+    const projects: ProjectEntry[] = [];
+    for (const root of roots.length > 0 ? roots : [process.cwd()]) {
+        const candidates = await isGodotProject(root) ? [root] : [];
+        try {
+            candidates.push(...await commands.listProjects(root));
+        } catch (error) {
+            // Roots that cannot be read have no projects
+        }
+        for (const projectPath of candidates) {
+            const name = path.basename(projectPath);
+            if (!projects.some(project => project.name === name)) {
+                projects.push({ name, path: projectPath });
+            }
+        }
+    }
+    return projects;
+}
+
+async function completeProject(value: string): Promise<string[]> {
+    return (await findProjects()).map(project => project.name).filter(name => name.startsWith(value));
+}
+
+async function findProject(name: string | string[]): Promise<ProjectEntry> {
+    const decoded = decodeURIComponent(String(name));
+    const project = (await findProjects()).find(candidate => candidate.name === decoded);
+    if (!project) {
+        throw new Error(`Unknown project: ${decoded}`);
+    }
+    return project;
+}
+
+// Resolve the {+path} of a resource URI to a file inside the project
+async function resolveProjectFile(project: ProjectEntry, resourcePath: string | string[]): Promise<{ resPath: string; filePath: string }> {
+    const resPath = `res://${decodeURIComponent(String(resourcePath))}`;
+    const filePath = await resolveSandboxPath(resPath, project.path);
+    if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+        throw new Error(`File not found: ${resPath}`);
+    }
+    return { resPath, filePath };
+}
+
+async function listProjectFiles(pattern: string, kind: 'res' | 'scene') {
+    const resources = [];
+    for (const project of await findProjects()) {
+        const { entries } = files.listDirectory(project.path, { recursive: true, pattern });
+        for (const entry of entries) {
+            resources.push({
+                uri: `godot://${encodeURIComponent(project.name)}/${kind}/${entry.path.split('/').map(encodeURIComponent).join('/')}`,
+                name: `${project.name}: ${kind === 'scene' ? 'scene tree of ' : ''}res://${entry.path}`,
+                mimeType: kind === 'scene' ? 'application/json' : MIME_TYPES[path.extname(entry.path)] ?? 'text/plain'
+            });
+        }
+    }
+    return { resources };
+}
+
+// Files whose changes update a resource: [directory, file name or undefined for any entry]
+async function watchedFiles(uri: string): Promise<[string, string | undefined][]> {
+    if (uri === PROJECTS_URI) {
+        const roots = getSandboxInfo().roots;
+        return (roots.length > 0 ? roots : [process.cwd()]).map(root => [root, undefined]);
+    }
+    const settings = settingsTemplate.uriTemplate.match(uri);
+    if (settings) {
+        const project = await findProject(settings.project);
+        return [[project.path, 'project.godot']];
+    }
+    const variables = fileTemplate.uriTemplate.match(uri) ?? sceneTemplate.uriTemplate.match(uri);
+    if (variables) {
+        const { filePath } = await resolveProjectFile(await findProject(variables.project), variables.path);
+        return [[path.dirname(filePath), path.basename(filePath)]];
+    }
+    throw new Error(`Unknown resource: ${uri}`);
+}
+
+// Register the project resources with the MCP server. Clients can subscribe to them and are
+// sent resources/updated notifications when the files behind them change on disk.
+export function registerGodotResources(server: McpServer) {
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+
+    // File watchers of the subscribed resources, by URI; each session has its own
+    const subscriptions = new Map<string, fs.FSWatcher[]>();
+    const unsubscribe = (uri: string) => {
+        for (const watcher of subscriptions.get(uri) ?? []) {
+            watcher.close();
+        }
+        subscriptions.delete(uri);
+    };
+    server.server.onclose = () => {
+        for (const uri of [...subscriptions.keys()]) {
+            unsubscribe(uri);
+        }
+    };
+
+    // Projects found under the allowed roots
+    server.resource(
+        'projects',
+        PROJECTS_URI,
+        { description: 'Godot projects under the allowed roots', mimeType: 'application/json' },
+        async uri => {
+            const projects = await findProjects();
+            return {
+                contents: [{
+                    uri: uri.href,
+                    mimeType: 'application/json',
+                    text: JSON.stringify(projects.map(project => ({
+                        ...project,
+                        settings: `godot://${encodeURIComponent(project.name)}/project.godot`
+                    })), null, 2)
+                }]
+            };
+        }
+    );
+
+    // Files of a project by res:// path
+    server.resource(
+        'project-file',
+        fileTemplate,
+        { description: 'A file of a Godot project, by its res:// path' },
+        async (uri, { project, path: resourcePath }) => {
+            const { resPath, filePath } = await resolveProjectFile(await findProject(project), resourcePath);
+            if (fs.statSync(filePath).size > MAX_RESOURCE_SIZE) {
+                throw new Error(`${resPath} is larger than ${MAX_RESOURCE_SIZE} bytes`);
+            }
+            const content = fs.readFileSync(filePath);
+            const mimeType = MIME_TYPES[path.extname(filePath).toLowerCase()];
+            // Files with NUL bytes are returned as binary
+            return {
+                contents: [content.includes(0)
+                    ? { uri: uri.href, mimeType: mimeType ?? 'application/octet-stream', blob: content.toString('base64') }
+                    : { uri: uri.href, mimeType: mimeType ?? 'text/plain', text: content.toString('utf8') }]
+            };
+        }
+    );
+
+    // Parsed scene trees
+    server.resource(
+        'scene-tree',
+        sceneTemplate,
+        { description: 'The node tree of a .tscn scene, as returned by get_scene_tree', mimeType: 'application/json' },
+        async (uri, { project, path: resourcePath }) => {
+            const entry = await findProject(project);
+            const { resPath } = await resolveProjectFile(entry, resourcePath);
+            const tree = await scene.getSceneTree(entry.path, resPath);
+            return {
+                contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(tree, null, 2) }]
+            };
+        }
+    );
+
+    // project.godot as JSON
+    server.resource(
+        'project-settings',
+        settingsTemplate,
+        { description: 'The settings of project.godot as JSON', mimeType: 'application/json' },
+        async (uri, { project }) => {
+            const settings = await projectSettings.getProjectSettings((await findProject(project)).path);
+            return {
+                contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(settings, null, 2) }]
+            };
+        }
+    );
+
+    server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+        const uri = request.params.uri;
+        unsubscribe(uri);
+
+        let timer: NodeJS.Timeout | undefined;
+        const notify = () => {
+            clearTimeout(timer);
+            timer = setTimeout(() => {
+                server.server.sendResourceUpdated({ uri }).catch(error =>
+                    console.error(`Failed to send the update of ${uri}:`, error));
+            }, NOTIFY_DELAY_MS);
+        };
+
+        // Directories are watched rather than files, so files replaced by a rename are still followed
+        const watchers = (await watchedFiles(uri)).map(([directory, fileName]) => {
+            const watcher = fs.watch(directory, (_event, changed) => {
+                if (fileName === undefined || changed === fileName) {
+                    notify();
+                }
+            });
+            watcher.on('error', error => console.error(`Stopped watching ${directory}:`, error));
+            watcher.unref();
+            return watcher;
+        });
+        subscriptions.set(uri, watchers);
+        return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+        unsubscribe(request.params.uri);
+        return {};
+    });
+}
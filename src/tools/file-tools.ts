@@ -1,19 +1,27 @@
 import { z } from 'zod';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerTool } from './register-tool.js';
 import * as fs from 'fs';
 import * as path from 'path';
+import { getSandboxInfo, resolveSandboxPath } from '../utils/sandbox.js';
+import * as files from '../utils/file-operations.js';
+import * as history from '../utils/history.js';
 
 // Register file-related tools with the MCP server
 export function registerFileTools(server: McpServer) {
     // Write content to a file
-    server.tool(
+    registerTool(
+        server,
         'write_file',
         {
-            filePath: z.string().describe('Absolute path to the file to write'),
-            content: z.string().describe('Content to write to the file')
+            filePath: z.string().describe('Absolute path, or a res://, user:// or relative path inside projectPath'),
+            content: z.string().describe('Content to write to the file'),
+            projectPath: z.string().optional().describe('Project that res://, user:// and relative paths belong to')
         },
-        async ({ filePath, content }) => {
+        async ({ filePath: requestedPath, content, projectPath }) => {
             try {
+                const filePath = await resolveSandboxPath(requestedPath, projectPath);
+
                 // Create directory if it doesn't exist
                 const dirPath = path.dirname(filePath);
                 if (!fs.existsSync(dirPath)) {
@@ -35,23 +43,34 @@ export function registerFileTools(server: McpServer) {
     );
 
     // Read content from a file
-    server.tool(
+    registerTool(
+        server,
         'read_file',
         {
-            filePath: z.string().describe('Absolute path to the file to read')
+            filePath: z.string().describe('Absolute path, or a res://, user:// or relative path inside projectPath'),
+            projectPath: z.string().optional().describe('Project that res://, user:// and relative paths belong to'),
+            startLine: z.number().int().min(1).optional().describe('First line to read (1-based)'),
+            endLine: z.number().int().min(1).optional().describe('Last line to read (inclusive)'),
+            maxBytes: z.number().int().min(1).optional().describe('Maximum amount of text to return (default: 262144)')
         },
-        async ({ filePath }) => {
+        async ({ filePath: requestedPath, projectPath, startLine, endLine, maxBytes }) => {
             try {
+                const filePath = await resolveSandboxPath(requestedPath, projectPath);
                 if (!fs.existsSync(filePath)) {
                     return {
                         content: [{ type: 'text', text: `File not found: ${filePath}` }]
                     };
                 }
 
-                const content = fs.readFileSync(filePath, 'utf8');
+                const range = files.readFileRange(filePath, startLine, endLine, maxBytes);
+                const partial = range.startLine > 1 || range.endLine < range.totalLines;
+                const header = partial
+                    ? `Lines ${range.startLine}-${range.endLine} of ${range.totalLines}`
+                        + (range.truncated ? ` (cut off at ${maxBytes ?? 262144} bytes; use startLine to read on)` : '')
+                    : 'File content';
 
                 return {
-                    content: [{ type: 'text', text: `File content:\n${content}` }]
+                    content: [{ type: 'text', text: `${header}:\n${range.content}` }]
                 };
             } catch (error: any) {
                 return {
@@ -60,4 +79,255 @@ export function registerFileTools(server: McpServer) {
             }
         }
     );
-}
\ No newline at end of file
+
+    // List the files in a directory
+    registerTool(
+        server,
+        'list_directory',
+        {
+            directoryPath: z.string().describe('Absolute path, or a res:// or relative path inside projectPath'),
+            projectPath: z.string().optional().describe('Project that res:// and relative paths belong to'),
+            recursive: z.boolean().optional().describe('Include subdirectories (default: false)'),
+            pattern: z.string().optional().describe('Only list files matching this glob, e.g. "*.gd" or "scenes/**/*.tscn"'),
+            includeHidden: z.boolean().optional().describe('Include hidden files and folders (.godot/ is always skipped)'),
+            maxEntries: z.number().int().min(1).optional().describe('Maximum number of entries (default: 1000)')
+        },
+        async ({ directoryPath, projectPath, recursive, pattern, includeHidden, maxEntries }) => {
+            try {
+                const directory = await resolveSandboxPath(directoryPath, projectPath);
+                const { entries, truncated } = files.listDirectory(directory, { recursive, pattern, includeHidden, maxEntries });
+                const lines = entries.map(entry => entry.type === 'directory'
+                    ? `${entry.path}/`
+                    : `${entry.path} (${entry.size} bytes)`);
+                if (truncated) {
+                    lines.push(`... more entries not shown (limit ${maxEntries ?? 1000})`);
+                }
+                return {
+                    content: [{
+                        type: 'text',
+                        text: entries.length > 0
+                            ? `Contents of ${directory}:\n${lines.join('\n')}`
+                            : `No matching entries in ${directory}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error listing directory: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Search the project's text files
+    registerTool(
+        server,
+        'search_project',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            pattern: z.string().describe('Regular expression to search for'),
+            glob: z.string().optional().describe('Only search files matching this glob, e.g. "*.gd"'),
+            caseSensitive: z.boolean().optional().describe('Match case (default: true)'),
+            maxResults: z.number().int().min(1).optional().describe('Maximum number of matches (default: 200)')
+        },
+        async ({ projectPath, pattern, glob, caseSensitive, maxResults }) => {
+            try {
+                const directory = await resolveSandboxPath(projectPath);
+                const { matches, truncated } = files.searchFiles(directory, pattern, { glob, caseSensitive, maxResults });
+                const lines = matches.map(match => `res://${match.file}:${match.line}: ${match.text}`);
+                if (truncated) {
+                    lines.push(`... more matches not shown (limit ${maxResults ?? 200})`);
+                }
+                return {
+                    content: [{
+                        type: 'text',
+                        text: matches.length > 0
+                            ? lines.join('\n')
+                            : `No matches for /${pattern}/`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error searching project: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Edit part of a file
+    registerTool(
+        server,
+        'apply_patch',
+        {
+            filePath: z.string().describe('Absolute path, or a res://, user:// or relative path inside projectPath'),
+            projectPath: z.string().optional().describe('Project that res://, user:// and relative paths belong to'),
+            patch: z.string().optional().describe('Unified diff for this file (with @@ hunk headers)'),
+            edits: z.array(z.object({
+                search: z.string().describe('Exact text to find; must be unique in the file unless "all" is set'),
+                replace: z.string().describe('Replacement text'),
+                all: z.boolean().optional().describe('Replace every occurrence')
+            })).optional().describe('Search/replace edits, applied in order (alternative to patch)')
+        },
+        async ({ filePath: requestedPath, projectPath, patch, edits }) => {
+            try {
+                const filePath = await resolveSandboxPath(requestedPath, projectPath);
+                if (!fs.existsSync(filePath)) {
+                    throw new Error(`File not found: ${filePath}`);
+                }
+                if (!patch === !edits) {
+                    throw new Error('Pass either a patch or a list of edits');
+                }
+
+                // Nothing is written unless every hunk or edit applies
+                const original = fs.readFileSync(filePath, 'utf8');
+                const updated = patch
+                    ? files.applyUnifiedDiff(original, patch)
+                    : files.applyTextEdits(original, edits!);
+                fs.writeFileSync(filePath, updated);
+
+                return {
+                    content: [{ type: 'text', text: `Patched ${filePath}` }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error applying patch: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Move or rename a file
+    registerTool(
+        server,
+        'move_file',
+        {
+            source: z.string().describe('File or directory to move (absolute, res:// or relative path)'),
+            destination: z.string().describe('New path (absolute, res:// or relative path)'),
+            projectPath: z.string().optional().describe('Project that res:// and relative paths belong to'),
+            overwrite: z.boolean().optional().describe('Replace an existing destination file')
+        },
+        async ({ source, destination, projectPath, overwrite }) => {
+            try {
+                const from = await resolveSandboxPath(source, projectPath);
+                const to = await resolveSandboxPath(destination, projectPath);
+                const moved = files.moveFile(from, to, overwrite);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `Moved ${from} to ${to}`
+                            + (moved.length > 1 ? ` (with ${moved.slice(1).map(file => path.basename(file)).join(', ')})` : '')
+                            + '\nReferences to the old path in scenes and scripts are not updated.'
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error moving file: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Delete a file
+    registerTool(
+        server,
+        'delete_file',
+        {
+            filePath: z.string().describe('File or directory to delete (absolute, res:// or relative path)'),
+            projectPath: z.string().optional().describe('Project that res:// and relative paths belong to'),
+            recursive: z.boolean().optional().describe('Required to delete a directory and its contents')
+        },
+        async ({ filePath: requestedPath, projectPath, recursive }) => {
+            try {
+                const filePath = await resolveSandboxPath(requestedPath, projectPath);
+                if (getSandboxInfo().roots.includes(filePath)) {
+                    throw new Error(`Refusing to delete an allowed project root: ${filePath}`);
+                }
+                const deleted = files.deleteFile(filePath, recursive);
+                return {
+                    content: [{ type: 'text', text: `Deleted ${deleted.join(', ')}` }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error deleting file: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // List the recorded changes of a project
+    registerTool(
+        server,
+        'list_changes',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            filePath: z.string().optional().describe('Only list changes to this file (res:// or relative path)'),
+            limit: z.number().int().min(1).optional().describe('Number of most recent changes to list (default: 20)')
+        },
+        async ({ projectPath, filePath, limit = 20 }) => {
+            try {
+                const root = await resolveSandboxPath(projectPath);
+                const file = filePath === undefined
+                    ? undefined
+                    : path.relative(root, await resolveSandboxPath(filePath, projectPath)).split(path.sep).join('/');
+                const entries = history.readJournal(root)
+                    .filter(entry => file === undefined || entry.files.some(changed => changed.path === file))
+                    .slice(-limit)
+                    .reverse();
+                if (entries.length === 0) {
+                    return {
+                        content: [{ type: 'text', text: 'No recorded changes' }]
+                    };
+                }
+
+                const text = entries.map(entry =>
+                    `#${entry.id} ${entry.time} ${entry.tool} ${JSON.stringify(entry.arguments)}\n`
+                    + entry.files.map(changed => `  ${changed.change} ${changed.path}`
+                        + (changed.change !== 'added' && !changed.before ? ' (previous content not saved)' : '')).join('\n')
+                ).join('\n');
+                return {
+                    content: [{ type: 'text', text }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error listing changes: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Undo recorded changes
+    registerTool(
+        server,
+        'revert_change',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            id: z.number().int().optional().describe('Change to revert, as shown by list_changes'),
+            time: z.string().optional().describe('Revert every change made after this time (ISO 8601, e.g. 2025-01-31T14:00:00Z)'),
+            force: z.boolean().optional().describe('Revert even if the files were changed again since, and skip files whose previous content was not saved')
+        },
+        async ({ projectPath, id, time, force }) => {
+            try {
+                const root = await resolveSandboxPath(projectPath);
+                const result = history.revertChanges(root, { id, time, force });
+                if (result.entries.length === 0) {
+                    return {
+                        content: [{ type: 'text', text: `No changes after ${time}` }]
+                    };
+                }
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `Reverted change(s) ${result.entries.map(entry => `#${entry}`).join(', ')}`
+                            + (result.files.length > 0
+                                ? `:\n${result.files.map(file => `  ${file.action} ${file.path}`).join('\n')}`
+                                : ' (the files already had their previous content)')
+                            + (result.skipped.length > 0 ? `\nNot restored (previous content not saved): ${result.skipped.join(', ')}` : '')
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error reverting change: ${error.message}` }]
+                };
+            }
+        }
+    );
+}
@@ -1,21 +1,77 @@
 import { z } from 'zod';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerTool } from './register-tool.js';
 import * as commands from '../godot/commands.js';
 import * as operations from '../godot/operations.js';
+import * as worker from '../godot/worker.js';
+import * as versions from '../godot/versions.js';
+import * as templates from '../godot/templates.js';
+import * as remoteDebugger from '../godot/debugger.js';
+import * as testRunner from '../godot/test-runner.js';
+import * as scriptCheck from '../godot/script-check.js';
+import * as projectSettings from '../godot/project-settings.js';
+import * as inputMap from '../godot/input-map.js';
+import * as references from '../godot/references.js';
+import { assertWritable, resolveSandboxPath } from '../utils/sandbox.js';
 import * as path from 'path';
 import * as fs from 'fs';
 
+// Input events as accepted by add_input_action and bind_input_event
+const modifierSchema = {
+    ctrl: z.boolean().optional(),
+    shift: z.boolean().optional(),
+    alt: z.boolean().optional(),
+    meta: z.boolean().optional(),
+    device: z.number().int().optional().describe('Device index (default: all devices)')
+};
+const inputEventSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('key'),
+        key: z.string().describe('Key name as in Godot\'s Key enum: "A", "Space", "Escape", "Left", "F1", "KP_0"...'),
+        physical: z.boolean().optional().describe('Bind the physical key position (default: true)'),
+        ...modifierSchema
+    }),
+    z.object({
+        type: z.literal('mouse_button'),
+        button: z.string().describe('left, right, middle, wheel_up, wheel_down, wheel_left, wheel_right, xbutton1 or xbutton2'),
+        ...modifierSchema
+    }),
+    z.object({
+        type: z.literal('joypad_button'),
+        button: z.string().describe('a, b, x, y, back, guide, start, left_stick, right_stick, left_shoulder, right_shoulder, dpad_up, dpad_down, dpad_left, dpad_right...'),
+        device: modifierSchema.device
+    }),
+    z.object({
+        type: z.literal('joypad_axis'),
+        axis: z.string().describe('left_x, left_y, right_x, right_y, trigger_left or trigger_right'),
+        direction: z.union([z.literal(-1), z.literal(1)]).describe('Side of the axis that triggers the action'),
+        device: modifierSchema.device
+    }),
+    z.object({
+        type: z.literal('other'),
+        godot: z.string().describe('Event as Godot text, as list_input_actions returns it: Object(InputEventMIDI, ...)')
+    })
+]);
+
 // Register all Godot tools with the MCP server
 export function registerGodotTools(server: McpServer) {
-    // Get Godot version
-    server.tool(
+    // List the installed Godot versions
+    registerTool(
+        server,
         'godot_version',
-        {},
-        async () => {
+        {
+            projectPath: z.string().optional().describe('Also show which Godot executable this project uses')
+        },
+        async ({ projectPath }) => {
             try {
-                const version = await commands.getGodotVersion();
+                const { installs, selected } = await commands.getGodotVersions(projectPath);
+                const lines = installs.map(install =>
+                    `${install === selected ? '* ' : '  '}${versions.formatGodotVersion(install.version)}: ${install.path} (${install.version.text})`);
                 return {
-                    content: [{ type: 'text', text: `Godot version: ${version}` }]
+                    content: [{
+                        type: 'text',
+                        text: `Installed Godot versions (* = used ${projectPath ? `for ${projectPath}` : 'by default'}):\n${lines.join('\n')}`
+                    }]
                 };
             } catch (error: any) {
                 return {
@@ -26,7 +82,8 @@ export function registerGodotTools(server: McpServer) {
     );
 
     // Launch the Godot editor
-    server.tool(
+    registerTool(
+        server,
         'launch_editor',
         {
             projectPath: z.string().describe('Absolute path to the Godot project directory')
@@ -46,7 +103,8 @@ export function registerGodotTools(server: McpServer) {
     );
 
     // List Godot projects in a directory
-    server.tool(
+    registerTool(
+        server,
         'list_projects',
         {
             directoryPath: z.string().describe('Directory to search for Godot projects')
@@ -72,16 +130,20 @@ export function registerGodotTools(server: McpServer) {
     );
 
     // Create a new Godot project
-    server.tool(
+    registerTool(
+        server,
         'create_project',
         {
             parentDirectory: z.string().describe('Directory to create the project in'),
-            projectName: z.string().describe('Name of the project to create'),
-            template: z.enum(["3d", "2d", "empty"]).optional().describe('Project template (3d, 2d, or empty)')
+            projectName: z.string()
+                .refine(name => !/[\\/]/.test(name) && !name.includes('..'), 'The project name must not contain path separators or ..')
+                .describe('Name of the project to create'),
+            template: z.string().optional().describe('Project template, as listed by list_templates (default 3d)'),
+            variables: z.record(z.string()).optional().describe('Values for the template\'s {{variables}}')
         },
-        async ({ parentDirectory, projectName, template = "3d" }) => {
+        async ({ parentDirectory, projectName, template = "3d", variables }) => {
             try {
-                const result = await commands.createProject(parentDirectory, projectName, template);
+                const result = await commands.createProject(parentDirectory, projectName, template, variables);
                 return {
                     content: [{ type: 'text', text: result }]
                 };
@@ -93,17 +155,58 @@ export function registerGodotTools(server: McpServer) {
         }
     );
 
+    // List the project templates create_project can use
+    registerTool(
+        server,
+        'list_templates',
+        {},
+        async () => {
+            try {
+                const result = templates.listTemplates().map(template => ({
+                    name: template.name,
+                    source: template.source,
+                    directory: template.directory,
+                    ...template.manifest
+                }));
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error listing templates: ${error.message}` }]
+                };
+            }
+        }
+    );
+
     // Run a Godot project
-    server.tool(
+    registerTool(
+        server,
         'run_project',
         {
-            projectPath: z.string().describe('Absolute path to the Godot project directory')
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scene: z.string().optional().describe('Scene to run instead of the main scene (res:// path)'),
+            args: z.array(z.string()).optional().describe('Extra Godot command line arguments'),
+            userArgs: z.array(z.string()).optional().describe('Arguments for the game, passed after "--" (read with OS.get_cmdline_user_args())'),
+            env: z.record(z.string()).optional().describe('Extra environment variables'),
+            headless: z.boolean().optional().describe('Run without a window (--headless)'),
+            debug: z.boolean().optional().describe('Connect the game to the debugger so it stops at breakpoints and script errors (default: true for Godot 4)')
         },
-        async ({ projectPath }) => {
+        async ({ projectPath, scene, args, userArgs, env, headless, debug }) => {
             try {
-                const result = await commands.runProject(projectPath);
+                const session = await commands.runProject(projectPath, { scene, args, userArgs, env, headless, debug });
+                const info = commands.describeSession(session);
+                const summary = session.status === 'running'
+                    ? `Running Godot project: ${projectPath} (session ${session.id}, pid ${info.pid})`
+                    : `Godot project ${session.status} right after starting (session ${session.id})`;
+                const errors = session.status === 'running'
+                    ? []
+                    : session.output.query({ levels: ['error'], tail: 10 }).entries.map(entry => entry.message);
                 return {
-                    content: [{ type: 'text', text: result }]
+                    content: [{
+                        type: 'text',
+                        text: [summary, JSON.stringify(info, null, 2), ...errors].join('\n')
+                    }]
                 };
             } catch (error: any) {
                 return {
@@ -113,13 +216,41 @@ export function registerGodotTools(server: McpServer) {
         }
     );
 
-    // Stop running project
-    server.tool(
-        'stop_project',
+    // List run sessions
+    registerTool(
+        server,
+        'list_runs',
         {},
         async () => {
             try {
-                const result = await commands.stopProject();
+                const runs = commands.listRuns().map(commands.describeSession);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: runs.length > 0
+                            ? JSON.stringify(runs, null, 2)
+                            : 'No run sessions'
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error listing runs: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Stop running project
+    registerTool(
+        server,
+        'stop_project',
+        {
+            sessionId: z.string().optional().describe('Run session to stop (default: all running sessions)'),
+            timeoutMs: z.number().int().min(0).optional().describe('How long to wait for a graceful exit before killing the process (default: 5000)')
+        },
+        async ({ sessionId, timeoutMs }) => {
+            try {
+                const result = await commands.stopProject(sessionId, timeoutMs);
                 return {
                     content: [{ type: 'text', text: result }]
                 };
@@ -132,14 +263,20 @@ export function registerGodotTools(server: McpServer) {
     );
 
     // Get debug output
-    server.tool(
+    registerTool(
+        server,
         'get_debug_output',
-        {},
-        async () => {
+        {
+            sessionId: z.string().optional().describe('Run session to read (default: the most recent one)'),
+            since: z.number().int().min(0).optional().describe('Only return entries after this cursor (use the cursor from the previous call)'),
+            tail: z.number().int().min(1).optional().describe('Only return the last N entries'),
+            levels: z.array(z.enum(['print', 'warning', 'error'])).optional().describe('Only return entries with these levels')
+        },
+        async ({ sessionId, since, tail, levels }) => {
             try {
-                const output = await commands.getDebugOutput();
+                const output = await commands.getDebugOutput(sessionId, { since, tail, levels });
                 return {
-                    content: [{ type: 'text', text: output }]
+                    content: [{ type: 'text', text: JSON.stringify(output, null, 2) }]
                 };
             } catch (error: any) {
                 return {
@@ -149,81 +286,1355 @@ export function registerGodotTools(server: McpServer) {
         }
     );
 
-    // Get scene tree
-    server.tool(
-        'get_scene_tree',
+    // Set or clear a breakpoint
+    registerTool(
+        server,
+        'set_breakpoint',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            file: z.string().describe('Script with the breakpoint (res:// or relative path)'),
+            line: z.number().int().min(1).describe('Line number (1-based)'),
+            clear: z.boolean().optional().describe('Remove the breakpoint instead of setting it')
+        },
+        async ({ projectPath, file, line, clear = false }) => {
+            try {
+                const result = remoteDebugger.setBreakpoint(projectPath, file, line, !clear);
+                return {
+                    content: [{ type: 'text', text: result }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error setting breakpoint: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // List the breakpoints of a project
+    registerTool(
+        server,
+        'list_breakpoints',
         {
             projectPath: z.string().describe('Absolute path to the Godot project directory')
         },
         async ({ projectPath }) => {
             try {
-                const result = await operations.getSceneTree(projectPath);
+                const result = remoteDebugger.listBreakpoints(projectPath);
                 return {
                     content: [{
                         type: 'text',
-                        text: result.success
-                            ? `Scene tree:\n${JSON.stringify(result.data, null, 2)}`
-                            : `Error: ${result.error}`
+                        text: result.length > 0
+                            ? JSON.stringify(result, null, 2)
+                            : 'The project has no breakpoints'
                     }]
                 };
             } catch (error: any) {
                 return {
-                    content: [{ type: 'text', text: `Error getting scene tree: ${error.message}` }]
+                    content: [{ type: 'text', text: `Error listing breakpoints: ${error.message}` }]
                 };
             }
         }
     );
 
-    // Create a scene
-    server.tool(
-        'create_scene',
+    // Pause a running game
+    registerTool(
+        server,
+        'debug_pause',
         {
-            projectPath: z.string().describe('Absolute path to the Godot project directory'),
-            sceneName: z.string().describe('Name of the scene to create'),
-            nodeType: z.string().optional().describe('Type of the root node (default: Node3D)')
+            sessionId: z.string().optional().describe('Run session to pause (default: the most recent one)'),
+            timeoutMs: z.number().int().min(0).optional().describe('How long to wait for the game to stop (default: 5000)')
         },
-        async ({ projectPath, sceneName, nodeType }) => {
+        async ({ sessionId, timeoutMs }) => {
             try {
-                const result = await operations.createScene(projectPath, sceneName, nodeType);
+                const result = await remoteDebugger.pause(commands.getDebugSession(sessionId), timeoutMs);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error pausing game: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Continue a stopped game
+    registerTool(
+        server,
+        'debug_continue',
+        {
+            sessionId: z.string().optional().describe('Run session to continue (default: the most recent one)')
+        },
+        async ({ sessionId }) => {
+            try {
+                const result = remoteDebugger.resume(commands.getDebugSession(sessionId));
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error continuing game: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Step a stopped game to the next line
+    registerTool(
+        server,
+        'debug_step',
+        {
+            sessionId: z.string().optional().describe('Run session to step (default: the most recent one)'),
+            mode: z.enum(['into', 'over']).optional().describe('Step into function calls or over them (default: into)'),
+            timeoutMs: z.number().int().min(0).optional().describe('How long to wait for the game to stop again (default: 5000)')
+        },
+        async ({ sessionId, mode, timeoutMs }) => {
+            try {
+                const result = await remoteDebugger.step(commands.getDebugSession(sessionId), mode, timeoutMs);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error stepping: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Get the stack of a stopped game
+    registerTool(
+        server,
+        'get_stack_trace',
+        {
+            sessionId: z.string().optional().describe('Run session to inspect (default: the most recent one)')
+        },
+        async ({ sessionId }) => {
+            try {
+                const session = commands.getDebugSession(sessionId);
+                const result = {
+                    reason: session.reason,
+                    frames: remoteDebugger.getStackTrace(session)
+                };
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error getting stack trace: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Get the variables of a stack frame of a stopped game
+    registerTool(
+        server,
+        'get_stack_variables',
+        {
+            sessionId: z.string().optional().describe('Run session to inspect (default: the most recent one)'),
+            frame: z.number().int().min(0).optional().describe('Stack frame, 0 being the innermost (default: 0)'),
+            scopes: z.array(z.enum(['local', 'member', 'global'])).optional().describe('Only return variables of these scopes (default: local and member)')
+        },
+        async ({ sessionId, frame, scopes = ['local', 'member'] }) => {
+            try {
+                const variables = await remoteDebugger.getStackVariables(commands.getDebugSession(sessionId), frame);
+                const result = variables.filter(variable => scopes.includes(variable.scope));
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error getting stack variables: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Get the runtime errors a game reported through the debugger
+    registerTool(
+        server,
+        'get_runtime_errors',
+        {
+            sessionId: z.string().optional().describe('Run session to read (default: the most recent one)'),
+            since: z.number().int().min(0).optional().describe('Only return errors with a greater id (use the last id from the previous call)'),
+            warnings: z.boolean().optional().describe('Include warnings (default: true)')
+        },
+        async ({ sessionId, since, warnings = true }) => {
+            try {
+                const result = remoteDebugger.getRuntimeErrors(commands.getDebugSession(sessionId, false), since)
+                    .filter(error => warnings || !error.warning);
                 return {
                     content: [{
                         type: 'text',
-                        text: result.success
-                            ? `Scene created: ${result.message}`
-                            : `Error: ${result.error}`
+                        text: result.length > 0
+                            ? JSON.stringify(result, null, 2)
+                            : 'No runtime errors'
                     }]
                 };
             } catch (error: any) {
                 return {
-                    content: [{ type: 'text', text: `Error creating scene: ${error.message}` }]
+                    content: [{ type: 'text', text: `Error getting runtime errors: ${error.message}` }]
                 };
             }
         }
     );
 
-    // Add a node
-    server.tool(
-        'add_node',
+    // List the persistent Godot workers
+    registerTool(
+        server,
+        'list_workers',
+        {},
+        async () => {
+            try {
+                const result = await worker.listWorkers();
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.length > 0
+                            ? JSON.stringify(result, null, 2)
+                            : 'No Godot workers are running'
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error listing workers: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Stop persistent Godot workers
+    registerTool(
+        server,
+        'stop_worker',
+        {
+            projectPath: z.string().optional().describe('Project whose worker to stop (default: all workers)')
+        },
+        async ({ projectPath }) => {
+            try {
+                const stopped = worker.stopWorkers(projectPath);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: stopped.length > 0
+                            ? `Stopped the Godot worker for ${stopped.join(', ')}`
+                            : 'No matching Godot worker is running'
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error stopping worker: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // List export presets
+    registerTool(
+        server,
+        'list_export_presets',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory')
+        },
+        async ({ projectPath }) => {
+            try {
+                const presets = await commands.listExportPresets(projectPath);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: presets.length > 0
+                            ? JSON.stringify(presets, null, 2)
+                            : 'The project has no export presets'
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error listing export presets: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Create an export preset
+    registerTool(
+        server,
+        'create_export_preset',
         {
             projectPath: z.string().describe('Absolute path to the Godot project directory'),
-            parentPath: z.string().describe('Path to the parent node'),
-            nodeName: z.string().describe('Name of the node to add'),
-            nodeType: z.string().describe('Type of the node')
+            platform: z.enum(['linux', 'windows', 'macos', 'web', 'android']).describe('Target platform'),
+            name: z.string().optional().describe('Preset name (default: the platform name)'),
+            exportPath: z.string().optional().describe('Export file path, relative to the project'),
+            runnable: z.boolean().optional().describe('Use this preset for one-click deploy (only one per platform)'),
+            exportFilter: z.enum(['all_resources', 'scenes', 'resources', 'exclude', 'customized']).optional().describe('Which resources to export'),
+            includeFilter: z.string().optional().describe('Comma separated patterns of non-resource files to include, e.g. "*.json, data/*"'),
+            excludeFilter: z.string().optional().describe('Comma separated patterns of files to leave out'),
+            options: z.record(z.any()).optional().describe(
+                'Platform options such as {"binary_format/embed_pck": true}; null removes an option. '
+                + 'Use {"$godot": "<literal>"} to pass a raw Godot value.'
+            )
+        },
+        async ({ projectPath, platform, ...settings }) => {
+            try {
+                const preset = await commands.createExportPreset(projectPath, platform, settings);
+                return {
+                    content: [{ type: 'text', text: `Created export preset "${preset.name}":\n${JSON.stringify(preset, null, 2)}` }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error creating export preset: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Change an export preset
+    registerTool(
+        server,
+        'update_export_preset',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            preset: z.string().describe('Name of the preset to change'),
+            name: z.string().optional().describe('New preset name'),
+            exportPath: z.string().optional().describe('Export file path, relative to the project'),
+            runnable: z.boolean().optional().describe('Use this preset for one-click deploy (only one per platform)'),
+            exportFilter: z.enum(['all_resources', 'scenes', 'resources', 'exclude', 'customized']).optional().describe('Which resources to export'),
+            includeFilter: z.string().optional().describe('Comma separated patterns of non-resource files to include, e.g. "*.json, data/*"'),
+            excludeFilter: z.string().optional().describe('Comma separated patterns of files to leave out'),
+            options: z.record(z.any()).optional().describe(
+                'Platform options such as {"binary_format/embed_pck": true}; null removes an option. '
+                + 'Use {"$godot": "<literal>"} to pass a raw Godot value.'
+            )
+        },
+        async ({ projectPath, preset, ...settings }) => {
+            try {
+                const result = await commands.updateExportPreset(projectPath, preset, settings);
+                return {
+                    content: [{ type: 'text', text: `Updated export preset "${result.name}":\n${JSON.stringify(result, null, 2)}` }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error updating export preset: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Export the project with a preset
+    registerTool(
+        server,
+        'export_project',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            preset: z.string().optional().describe('Name of the export preset (may be omitted when there is only one)'),
+            mode: z.enum(['release', 'debug', 'pack']).optional().describe('Release or debug build, or only the .pck/.zip data pack (default: release)'),
+            outputPath: z.string().optional().describe("Output file, absolute or relative to the project (default: the preset's export path)"),
+            timeoutMs: z.number().int().min(1000).optional().describe('Maximum export time (default: 1800000)')
         },
-        async ({ projectPath, parentPath, nodeName, nodeType }) => {
+        async ({ projectPath, preset, mode, outputPath, timeoutMs }) => {
             try {
-                const result = await operations.addNode(projectPath, parentPath, nodeName, nodeType);
+                const result = await commands.exportProject(projectPath, preset, mode, outputPath, timeoutMs);
                 return {
                     content: [{
                         type: 'text',
-                        text: result.success
-                            ? `Node added: ${result.message}`
-                            : `Error: ${result.error}`
+                        text: (result.success
+                            ? `Exported "${result.preset}" to ${result.outputPath}`
+                            : `Export of "${result.preset}" failed`)
+                            + `\n${JSON.stringify(result, null, 2)}`
                     }]
                 };
             } catch (error: any) {
                 return {
-                    content: [{ type: 'text', text: `Error adding node: ${error.message}` }]
+                    content: [{ type: 'text', text: `Error exporting project: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Read project settings
+    registerTool(
+        server,
+        'get_project_settings',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            prefix: z.string().optional().describe('Only return settings starting with this, e.g. "application/" or "input/"')
+        },
+        async ({ projectPath, prefix }) => {
+            try {
+                const result = await projectSettings.getProjectSettings(projectPath, prefix);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error getting project settings: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Change a project setting
+    registerTool(
+        server,
+        'set_project_setting',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            setting: z.string().describe('Setting name as shown in the editor, e.g. "physics/2d/default_gravity"'),
+            value: z.any().describe('New value as JSON (vectors as {x, y}, colors as {r, g, b, a}, {"$godot": "<literal>"} for raw values); null resets it to the default')
+        },
+        async ({ projectPath, setting, value }) => {
+            try {
+                const result = await projectSettings.setProjectSetting(projectPath, setting, value ?? null);
+                return {
+                    content: [{ type: 'text', text: result }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error setting project setting: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Set the main scene
+    registerTool(
+        server,
+        'set_main_scene',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scenePath: z.string().describe('Scene to start the project with (res:// path)')
+        },
+        async ({ projectPath, scenePath }) => {
+            try {
+                const result = await projectSettings.setMainScene(projectPath, scenePath);
+                return {
+                    content: [{ type: 'text', text: result }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error setting main scene: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // List autoloads
+    registerTool(
+        server,
+        'list_autoloads',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory')
+        },
+        async ({ projectPath }) => {
+            try {
+                const result = await projectSettings.listAutoloads(projectPath);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.length > 0
+                            ? JSON.stringify(result, null, 2)
+                            : 'The project has no autoloads'
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error listing autoloads: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Register an autoload
+    registerTool(
+        server,
+        'add_autoload',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            name: z.string().describe('Singleton name, e.g. "GameState"'),
+            path: z.string().describe('Script or scene to load (res:// path)'),
+            global: z.boolean().optional().describe('Make it accessible as a global variable (default: true)'),
+            index: z.number().int().min(0).optional().describe('Position in the load order (default: last)')
+        },
+        async ({ projectPath, name, path, global, index }) => {
+            try {
+                const result = await projectSettings.addAutoload(projectPath, name, path, global, index);
+                return {
+                    content: [{ type: 'text', text: result }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error adding autoload: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Unregister an autoload
+    registerTool(
+        server,
+        'remove_autoload',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            name: z.string().describe('Singleton name')
+        },
+        async ({ projectPath, name }) => {
+            try {
+                const result = await projectSettings.removeAutoload(projectPath, name);
+                return {
+                    content: [{ type: 'text', text: result }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error removing autoload: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Change the autoload load order
+    registerTool(
+        server,
+        'reorder_autoload',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            name: z.string().describe('Singleton name'),
+            index: z.number().int().min(0).describe('New position in the load order')
+        },
+        async ({ projectPath, name, index }) => {
+            try {
+                const result = await projectSettings.reorderAutoload(projectPath, name, index);
+                return {
+                    content: [{ type: 'text', text: result }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error reordering autoload: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Set the window size
+    registerTool(
+        server,
+        'set_window_size',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            width: z.number().int().min(1).describe('Viewport width in pixels'),
+            height: z.number().int().min(1).describe('Viewport height in pixels'),
+            stretchMode: z.enum(['disabled', 'canvas_items', 'viewport']).optional().describe('How the content scales with the window'),
+            stretchAspect: z.enum(['ignore', 'keep', 'keep_width', 'keep_height', 'expand']).optional().describe('How the aspect ratio is kept when stretching')
+        },
+        async ({ projectPath, width, height, stretchMode, stretchAspect }) => {
+            try {
+                const result = await projectSettings.setWindowSize(projectPath, width, height, stretchMode, stretchAspect);
+                return {
+                    content: [{ type: 'text', text: result }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error setting window size: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Name a layer
+    registerTool(
+        server,
+        'set_layer_name',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            layerType: z.enum(['2d_render', '3d_render', '2d_physics', '3d_physics', '2d_navigation', '3d_navigation', 'avoidance']).describe('Kind of layer'),
+            layer: z.number().int().min(1).max(32).describe('Layer number (1-32)'),
+            name: z.string().describe('Layer name; an empty string clears it')
+        },
+        async ({ projectPath, layerType, layer, name }) => {
+            try {
+                const result = await projectSettings.setLayerName(projectPath, layerType, layer, name);
+                return {
+                    content: [{ type: 'text', text: result }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error setting layer name: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Choose the renderer
+    registerTool(
+        server,
+        'set_rendering_method',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            method: z.enum(['forward_plus', 'mobile', 'gl_compatibility']).describe('Rendering method')
+        },
+        async ({ projectPath, method }) => {
+            try {
+                const result = await projectSettings.setRenderingMethod(projectPath, method);
+                return {
+                    content: [{ type: 'text', text: result }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error setting rendering method: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // List input actions
+    registerTool(
+        server,
+        'list_input_actions',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory')
+        },
+        async ({ projectPath }) => {
+            try {
+                const actions = await inputMap.listInputActions(projectPath);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: actions.length > 0
+                            ? JSON.stringify(actions, null, 2)
+                            : 'The project defines no input actions'
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error listing input actions: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Add an input action
+    registerTool(
+        server,
+        'add_input_action',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            name: z.string().describe('Action name, e.g. "jump"'),
+            events: z.array(inputEventSchema).optional().describe('Events that trigger the action'),
+            deadzone: z.number().min(0).max(1).optional().describe('Joypad axis deadzone (default: 0.5)')
+        },
+        async ({ projectPath, name, events, deadzone }) => {
+            try {
+                const result = await inputMap.addInputAction(projectPath, name, events, deadzone);
+                return {
+                    content: [{ type: 'text', text: result }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error adding input action: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Remove an input action
+    registerTool(
+        server,
+        'remove_input_action',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            name: z.string().describe('Action name')
+        },
+        async ({ projectPath, name }) => {
+            try {
+                const result = await inputMap.removeInputAction(projectPath, name);
+                return {
+                    content: [{ type: 'text', text: result }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error removing input action: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Bind or unbind an input event
+    registerTool(
+        server,
+        'bind_input_event',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            action: z.string().describe('Action name'),
+            event: inputEventSchema.describe('Event to bind'),
+            unbind: z.boolean().optional().describe('Remove the event from the action instead')
+        },
+        async ({ projectPath, action, event, unbind }) => {
+            try {
+                const result = await inputMap.bindInputEvent(projectPath, action, event, unbind);
+                return {
+                    content: [{ type: 'text', text: result }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error binding input event: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Move a resource and update the references to it
+    registerTool(
+        server,
+        'move_resource',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            sourcePath: z.string().describe('File or folder to move (res:// path)'),
+            destinationPath: z.string().describe('New path (res:// path)'),
+            dryRun: z.boolean().optional().describe('Only report what would change (default: false)'),
+            overwrite: z.boolean().optional().describe('Replace an existing destination file')
+        },
+        async ({ projectPath, sourcePath, destinationPath, dryRun, overwrite }) => {
+            try {
+                const result = await references.moveResource(projectPath, sourcePath, destinationPath, dryRun, overwrite);
+                const lines = [
+                    `${result.dryRun ? 'Would move' : 'Moved'} ${result.source} to ${result.destination}`
+                        + (result.moved.length > 1 ? ` (with ${result.moved.slice(1).map(file => path.posix.extname(file)).join(', ')})` : ''),
+                    result.updated.length > 0
+                        ? `${result.dryRun ? 'Would update' : 'Updated'} references in:`
+                        : 'No references to update'
+                ];
+                for (const update of result.updated) {
+                    lines.push(`- ${update.file} (${update.references})`);
+                }
+                return {
+                    content: [{ type: 'text', text: lines.join('\n') }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error moving resource: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Check ext_resources, UIDs and import files
+    registerTool(
+        server,
+        'check_dependencies',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            repair: z.boolean().optional().describe('Fix ext_resource paths from their UIDs, and unknown UIDs from their paths (default: false)')
+        },
+        async ({ projectPath, repair }) => {
+            try {
+                if (repair) {
+                    assertWritable('Repairing dependencies');
+                }
+                const result = await references.checkDependencies(projectPath, repair);
+                const lines = [
+                    `Checked ${result.scanned} scene and resource file(s): ${result.issues.length} issue(s)`
+                        + (repair ? `, ${result.repaired} repaired` : '')
+                ];
+                for (const issue of result.issues) {
+                    lines.push(`- [${issue.kind}] ${issue.file}: ${issue.message}${issue.repaired ? ' (repaired)' : ''}`);
+                }
+                return {
+                    content: [{ type: 'text', text: lines.join('\n') }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error checking dependencies: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Get scene tree
+    registerTool(
+        server,
+        'get_scene_tree',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scenePath: z.string().describe('Scene file to read (res:// path or absolute path)'),
+            maxDepth: z.number().int().min(0).optional().describe('Maximum depth of the returned tree (root is depth 0)'),
+            expandInstances: z.boolean().optional().describe('Include the nodes of instanced scenes inline (default: false)')
+        },
+        async ({ projectPath, scenePath, maxDepth, expandInstances }) => {
+            try {
+                const result = await operations.getSceneTree(projectPath, scenePath, { maxDepth, expandInstances });
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.success
+                            ? `Scene tree:\n${JSON.stringify(result.data, null, 2)}`
+                            : `Error: ${result.error}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error getting scene tree: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Create a scene
+    registerTool(
+        server,
+        'create_scene',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            sceneName: z.string().describe('Name of the scene to create'),
+            nodeType: z.string().optional().describe('Type of the root node (default: Node3D)')
+        },
+        async ({ projectPath, sceneName, nodeType }) => {
+            try {
+                const result = await operations.createScene(projectPath, sceneName, nodeType);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.success
+                            ? `Scene created: ${result.message}`
+                            : `Error: ${result.error}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error creating scene: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Create a script
+    registerTool(
+        server,
+        'create_script',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scriptPath: z.string().describe('Path of the new script (res:// path ending in .gd)'),
+            extends: z.string().optional().describe('Base class, or res:// path of a base script (default: Node)'),
+            className: z.string().optional().describe('Global class_name for the script'),
+            tool: z.boolean().optional().describe('Add @tool so the script runs in the editor'),
+            signals: z.array(z.object({
+                name: z.string(),
+                parameters: z.array(z.object({
+                    name: z.string(),
+                    type: z.string().optional()
+                })).optional()
+            })).optional().describe('Signals to declare'),
+            variables: z.array(z.object({
+                name: z.string(),
+                type: z.string().optional().describe('GDScript type, e.g. float, Vector2, Array[int], PackedScene'),
+                default: z.any().optional().describe('Default value as JSON (vectors as {"x":..,"y":..}, resources as res:// paths, {"$godot": "..."} for raw GDScript)'),
+                export: z.boolean().optional().describe('Add @export (default: true)'),
+                range: z.array(z.number()).optional().describe('[min, max] or [min, max, step] for @export_range')
+            })).optional().describe('Member variables, exported by default'),
+            onready: z.array(z.object({
+                name: z.string(),
+                nodePath: z.string().describe('Node path relative to the node with the script, or %UniqueName'),
+                type: z.string().optional().describe('Node type; taken from the scene when the script is attached')
+            })).optional().describe('@onready node references'),
+            methods: z.array(z.string()).optional().describe('Methods to stub out, e.g. ["_ready", "_process", "_physics_process"]'),
+            attachTo: z.object({
+                scenePath: z.string().describe('Scene file (res:// path)'),
+                nodePath: z.string().describe('Node to attach the script to ("." for the root)')
+            }).optional().describe('Attach the script to a node in a scene'),
+            overwrite: z.boolean().optional().describe('Replace an existing script')
+        },
+        async ({ projectPath, scriptPath, attachTo, overwrite, ...spec }) => {
+            try {
+                const result = await operations.createScript(projectPath, scriptPath, spec, attachTo, overwrite);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.success
+                            ? `${result.message}:\n${result.source}`
+                            : `Error: ${result.error}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error creating script: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Add a node
+    registerTool(
+        server,
+        'add_node',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scenePath: z.string().describe('Scene file to edit (res:// path or absolute path)'),
+            parentPath: z.string().describe('Path to the parent node ("." for the scene root)'),
+            nodeName: z.string().describe('Name of the node to add'),
+            nodeType: z.string().describe('Type of the node'),
+            index: z.number().int().min(0).optional().describe('Position among the parent\'s children (default: last)')
+        },
+        async ({ projectPath, scenePath, parentPath, nodeName, nodeType, index }) => {
+            try {
+                const result = await operations.addNode(projectPath, scenePath, parentPath, nodeName, nodeType, index);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.success
+                            ? `Node added: ${result.message}`
+                            : `Error: ${result.error}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error adding node: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Remove a node and its children
+    registerTool(
+        server,
+        'remove_node',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scenePath: z.string().describe('Scene file to edit (res:// path or absolute path)'),
+            nodePath: z.string().describe('Path of the node to remove')
+        },
+        async ({ projectPath, scenePath, nodePath }) => {
+            try {
+                const result = await operations.removeNode(projectPath, scenePath, nodePath);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.success
+                            ? `Node removed: ${result.message}`
+                            : `Error: ${result.error}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error removing node: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Rename a node
+    registerTool(
+        server,
+        'rename_node',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scenePath: z.string().describe('Scene file to edit (res:// path or absolute path)'),
+            nodePath: z.string().describe('Path of the node to rename'),
+            newName: z.string().describe('New name of the node')
+        },
+        async ({ projectPath, scenePath, nodePath, newName }) => {
+            try {
+                const result = await operations.renameNode(projectPath, scenePath, nodePath, newName);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.success
+                            ? `Node renamed: ${result.message}`
+                            : `Error: ${result.error}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error renaming node: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Move a node under a new parent
+    registerTool(
+        server,
+        'reparent_node',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scenePath: z.string().describe('Scene file to edit (res:// path or absolute path)'),
+            nodePath: z.string().describe('Path of the node to move'),
+            newParentPath: z.string().describe('Path of the new parent node ("." for the scene root)'),
+            index: z.number().int().min(0).optional().describe('Position among the new parent\'s children (default: last)')
+        },
+        async ({ projectPath, scenePath, nodePath, newParentPath, index }) => {
+            try {
+                const result = await operations.reparentNode(projectPath, scenePath, nodePath, newParentPath, index);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.success
+                            ? `Node reparented: ${result.message}`
+                            : `Error: ${result.error}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error reparenting node: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Duplicate a node and its children
+    registerTool(
+        server,
+        'duplicate_node',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scenePath: z.string().describe('Scene file to edit (res:// path or absolute path)'),
+            nodePath: z.string().describe('Path of the node to duplicate'),
+            newName: z.string().optional().describe('Name of the copy (default: original name with a number)')
+        },
+        async ({ projectPath, scenePath, nodePath, newName }) => {
+            try {
+                const result = await operations.duplicateNode(projectPath, scenePath, nodePath, newName);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.success
+                            ? `Node duplicated: ${result.message}`
+                            : `Error: ${result.error}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error duplicating node: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Change the position of a node among its siblings
+    registerTool(
+        server,
+        'reorder_node',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scenePath: z.string().describe('Scene file to edit (res:// path or absolute path)'),
+            nodePath: z.string().describe('Path of the node to move'),
+            index: z.number().int().min(0).describe('New position among its siblings (0 = first)')
+        },
+        async ({ projectPath, scenePath, nodePath, index }) => {
+            try {
+                const result = await operations.reorderNode(projectPath, scenePath, nodePath, index);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.success
+                            ? `Node reordered: ${result.message}`
+                            : `Error: ${result.error}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error reordering node: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Read the properties of a node
+    registerTool(
+        server,
+        'get_node_properties',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scenePath: z.string().describe('Scene file to read (res:// path or absolute path)'),
+            nodePath: z.string().describe('Path of the node ("." for the scene root)'),
+            includeClassProperties: z.boolean().optional().describe('Also list every property the node class supports, with types (requires Godot)')
+        },
+        async ({ projectPath, scenePath, nodePath, includeClassProperties }) => {
+            try {
+                const result = await operations.getNodeProperties(projectPath, scenePath, nodePath, includeClassProperties);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.success
+                            ? `Node properties:\n${JSON.stringify(result.data, null, 2)}`
+                            : `Error: ${result.error}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error getting node properties: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Set properties on a node
+    registerTool(
+        server,
+        'set_node_properties',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scenePath: z.string().describe('Scene file to edit (res:// path or absolute path)'),
+            nodePath: z.string().describe('Path of the node ("." for the scene root)'),
+            properties: z.record(z.any()).describe(
+                'Property values as JSON. Vectors as {x, y, z}, colors as {r, g, b, a} or "#rrggbb", '
+                + 'Transform3D as {position, rotation_degrees, scale} or {basis, origin}, enums by name, '
+                + 'resources as "res://..." paths, node references as NodePath strings. '
+                + 'Use {"$godot": "<literal>"} to pass a raw Godot value.'
+            ),
+            reset: z.array(z.string()).optional().describe('Properties to reset to their default value')
+        },
+        async ({ projectPath, scenePath, nodePath, properties, reset }) => {
+            try {
+                const result = await operations.setNodeProperties(projectPath, scenePath, nodePath, properties, reset);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.success
+                            ? `Properties set: ${result.message}`
+                            : `Error: ${result.error}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error setting node properties: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Apply several scene edits as a unit
+    registerTool(
+        server,
+        'apply_scene_edits',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            edits: z.array(z.discriminatedUnion('action', [
+                z.object({
+                    action: z.literal('add_node'),
+                    scenePath: z.string(),
+                    parentPath: z.string().describe('Path of the parent node ("." for the scene root)'),
+                    nodeName: z.string(),
+                    nodeType: z.string(),
+                    index: z.number().int().optional()
+                }),
+                z.object({
+                    action: z.literal('remove_node'),
+                    scenePath: z.string(),
+                    nodePath: z.string()
+                }),
+                z.object({
+                    action: z.literal('set_properties'),
+                    scenePath: z.string(),
+                    nodePath: z.string(),
+                    properties: z.record(z.any()).optional().describe('Property values as JSON, as in set_node_properties'),
+                    reset: z.array(z.string()).optional()
+                }),
+                z.object({
+                    action: z.literal('attach_script'),
+                    scenePath: z.string(),
+                    nodePath: z.string(),
+                    scriptPath: z.string().describe('Existing script (res:// path or absolute path)')
+                }),
+                z.object({
+                    action: z.literal('connect_signal'),
+                    scenePath: z.string(),
+                    signal: z.string(),
+                    from: z.string(),
+                    to: z.string(),
+                    method: z.string(),
+                    flags: z.array(z.enum(['deferred', 'one_shot', 'reference_counted'])).optional(),
+                    binds: z.array(z.any()).optional(),
+                    unbinds: z.number().int().min(0).optional()
+                })
+            ])).min(1).describe('Edits applied in order; later edits see the result of earlier ones'),
+            dryRun: z.boolean().optional().describe('Return a unified diff of the changed scenes instead of writing them')
+        },
+        async ({ projectPath, edits, dryRun }) => {
+            try {
+                if (!dryRun) {
+                    assertWritable('apply_scene_edits');
+                }
+                for (const edit of edits) {
+                    await resolveSandboxPath(edit.scenePath, projectPath);
+                    if (edit.action === 'attach_script') {
+                        await resolveSandboxPath(edit.scriptPath, projectPath);
+                    }
+                }
+
+                const result = await operations.applySceneEdits(projectPath, edits, dryRun);
+                if (!result.success) {
+                    return {
+                        content: [{ type: 'text', text: `Error: ${result.error}` }]
+                    };
+                }
+                const steps = result.results.map((step: any, i: number) => `${i + 1}. ${step.scenePath}: ${step.message}`).join('\n');
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `${result.message}\n\n${steps}` + (result.dryRun ? `\n\n${result.diff || 'No changes'}` : '')
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error applying scene edits: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Run the project's tests headlessly
+    registerTool(
+        server,
+        'run_tests',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            framework: z.enum(['gut', 'gdunit4', 'builtin']).optional().describe(
+                'Test framework (default: detected from addons/, else the built-in runner which calls the test_* methods '
+                + 'of every script in the tests directory; a test fails when it returns false or a message string, or on a script error)'
+            ),
+            testsDir: z.string().optional().describe('Directory containing the tests (default: res://tests or res://test)'),
+            filter: z.string().optional().describe('Only run tests whose name contains this text'),
+            junitPath: z.string().optional().describe('Also save the report as JUnit XML to this absolute path'),
+            timeoutMs: z.number().int().min(1000).optional().describe('Maximum run time (default: 600000)')
+        },
+        async ({ projectPath, framework, testsDir, filter, junitPath, timeoutMs }) => {
+            try {
+                const report = await testRunner.runTests(projectPath, { framework, testsDir, filter, junitPath, timeoutMs });
+                const { total, passed, failed, skipped } = report.totals;
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `Tests ${report.success ? 'passed' : 'failed'}: ${passed}/${total} passed, ${failed} failed, ${skipped} skipped\n`
+                            + JSON.stringify(report, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error running tests: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Validate GDScript files and report structured diagnostics
+    registerTool(
+        server,
+        'check_scripts',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            files: z.array(z.string()).optional().describe(
+                'Scripts or directories to check (res:// paths); default: every .gd file outside addons/'
+            ),
+            force: z.boolean().optional().describe('Re-check all scripts, not only those changed since the last check')
+        },
+        async ({ projectPath, files, force }) => {
+            try {
+                const report = await scriptCheck.checkScripts(projectPath, { files, force });
+                const errorCount = report.diagnostics.filter(d => d.severity === 'error').length;
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `${report.success ? 'No problems found' : 'Problems found'}: ${errorCount} error(s), `
+                            + `${report.diagnostics.length - errorCount} warning(s), ${report.missingScripts.length} missing script reference(s) `
+                            + `(${report.checked.length} checked, ${report.unchanged} unchanged)\n`
+                            + JSON.stringify(report, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error checking scripts: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // List signal connections
+    registerTool(
+        server,
+        'list_signals',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scenePath: z.string().describe('Scene file to read (res:// path or absolute path)'),
+            nodePath: z.string().optional().describe('Only connections from or to this node; also lists the signals it can emit')
+        },
+        async ({ projectPath, scenePath, nodePath }) => {
+            try {
+                const result = await operations.listSignals(projectPath, scenePath, nodePath);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.success
+                            ? JSON.stringify(result.data, null, 2)
+                            : `Error: ${result.error}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error listing signals: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Connect a signal
+    registerTool(
+        server,
+        'connect_signal',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scenePath: z.string().describe('Scene file to edit (res:// path or absolute path)'),
+            signal: z.string().describe('Signal name, e.g. "pressed" or "body_entered"'),
+            from: z.string().describe('Path of the node emitting the signal ("." for the scene root)'),
+            to: z.string().describe('Path of the node receiving the signal'),
+            method: z.string().describe('Method called on the receiving node'),
+            flags: z.array(z.enum(['deferred', 'one_shot', 'reference_counted'])).optional().describe('Connection flags'),
+            binds: z.array(z.any()).optional().describe('Extra arguments passed to the method after the signal arguments'),
+            unbinds: z.number().int().min(0).optional().describe('Number of signal arguments to drop, from the end'),
+            createMethod: z.boolean().optional().describe('Add a stub for the method to the receiving script if it is missing')
+        },
+        async ({ projectPath, scenePath, signal, from, to, method, flags, binds, unbinds, createMethod }) => {
+            try {
+                const result = await operations.connectSignal(projectPath, scenePath, signal, from, to, method, { flags, binds, unbinds, createMethod });
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.success
+                            ? result.message
+                            : `Error: ${result.error}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error connecting signal: ${error.message}` }]
+                };
+            }
+        }
+    );
+
+    // Disconnect a signal
+    registerTool(
+        server,
+        'disconnect_signal',
+        {
+            projectPath: z.string().describe('Absolute path to the Godot project directory'),
+            scenePath: z.string().describe('Scene file to edit (res:// path or absolute path)'),
+            signal: z.string().describe('Signal name'),
+            from: z.string().describe('Path of the node emitting the signal'),
+            to: z.string().describe('Path of the node receiving the signal'),
+            method: z.string().describe('Method the signal is connected to')
+        },
+        async ({ projectPath, scenePath, signal, from, to, method }) => {
+            try {
+                const result = await operations.disconnectSignal(projectPath, scenePath, signal, from, to, method);
+                return {
+                    content: [{
+                        type: 'text',
+                        text: result.success
+                            ? result.message
+                            : `Error: ${result.error}`
+                    }]
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: 'text', text: `Error disconnecting signal: ${error.message}` }]
                 };
             }
         }
@@ -0,0 +1,35 @@
+import { McpServer, ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ZodRawShape, ZodTypeAny, z } from 'zod';
+import { changesFiles, checkToolCall } from '../utils/sandbox.js';
+import { recordChange } from '../utils/history.js';
+
+// Handler of a tool with parameters (ToolCallback<Args> with the parameters resolved)
+type ToolHandler<Args extends ZodRawShape> = (
+    params: z.objectOutputType<Args, ZodTypeAny>,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => CallToolResult | Promise<CallToolResult>;
+
+// Register a tool with the MCP server. Each call is checked against the sandbox first;
+// calls that change files are then recorded in the project's history so they can be reverted.
+export function registerTool<Args extends ZodRawShape>(
+    server: McpServer,
+    name: string,
+    paramsSchema: Args,
+    handler: ToolHandler<Args>
+) {
+    const callback: ToolHandler<Args> = async (params, extra) => {
+        try {
+            await checkToolCall(name, params);
+        } catch (error: any) {
+            return {
+                content: [{ type: 'text', text: `Error: ${error.message}` }]
+            };
+        }
+        return changesFiles(name, params)
+            ? recordChange(name, params, async () => handler(params, extra))
+            : handler(params, extra);
+    };
+    return server.tool(name, paramsSchema, callback as ToolCallback<Args>);
+}
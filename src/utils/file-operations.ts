@@ -0,0 +1,484 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+export interface DirectoryEntry {
+    // Path relative to the listed directory, with "/" separators
+    path: string;
+    type: 'file' | 'directory';
+    size?: number;
+}
+
+export interface ListOptions {
+    recursive?: boolean;
+    // Glob such as "*.gd" or "scenes/**/*.tscn"; patterns without "/" match file names
+    pattern?: string;
+    includeHidden?: boolean;
+    maxEntries?: number;
+}
+
+export interface SearchMatch {
+    file: string;
+    line: number;
+    text: string;
+}
+
+export interface SearchOptions {
+    // Only search files matching this glob
+    glob?: string;
+    caseSensitive?: boolean;
+    maxResults?: number;
+}
+
+// A search/replace edit; the search text must match exactly once unless all is set
+export interface TextEdit {
+    search: string;
+    replace: string;
+    all?: boolean;
+}
+
+// Directories that are never listed or searched: Godot's import cache and VCS data
+const SKIPPED_DIRECTORIES = ['.godot', '.git'];
+// Files bigger than this are not searched
+const MAX_SEARCH_FILE_SIZE = 2 * 1024 * 1024;
+// Godot keeps import settings and UIDs next to the files they belong to
+const SIDECAR_EXTENSIONS = ['.import', '.uid'];
+
+// Convert a glob to a regular expression: "**" matches across directories, "*" and "?" within a name
+export function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*' && glob[i + 1] === '*') {
+            pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += glob[i + 2] === '/' ? 2 : 1;
+        } else if (ch === '*') {
+            pattern += '[^/]*';
+        } else if (ch === '?') {
+            pattern += '[^/]';
+        } else if (ch === '{') {
+            const end = glob.indexOf('}', i);
+            if (end === -1) {
+                pattern += '\\{';
+                continue;
+            }
+            pattern += `(?:${glob.slice(i + 1, end).split(',').map(part => part.replace(/[.+^$()|[\]\\]/g, '\\$&')).join('|')})`;
+            i = end;
+        } else {
+            pattern += ch.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${pattern}$`);
+}
+
+// Build a matcher for a glob; globs without "/" are matched against the file name
+function globMatcher(glob: string | undefined): (relativePath: string) => boolean {
+    if (!glob) {
+        return () => true;
+    }
+    const regex = globToRegExp(glob);
+    return glob.includes('/')
+        ? relativePath => regex.test(relativePath)
+        : relativePath => regex.test(relativePath.split('/').pop()!);
+}
+
+// Walk a directory tree, skipping Godot's cache, hidden folders and folders with a .gdignore file
+function walk(
+    directory: string,
+    includeHidden: boolean,
+    recursive: boolean,
+    visit: (fullPath: string, relativePath: string, entry: fs.Dirent) => boolean,
+    prefix: string = ''
+): boolean {
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(directory, { withFileTypes: true });
+    } catch (error) {
+        return true;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+        if (SKIPPED_DIRECTORIES.includes(entry.name) || (!includeHidden && entry.name.startsWith('.'))) {
+            continue;
+        }
+        const fullPath = path.join(directory, entry.name);
+        const relativePath = prefix + entry.name;
+        if (entry.isDirectory() && fs.existsSync(path.join(fullPath, '.gdignore'))) {
+            continue;
+        }
+        if (!visit(fullPath, relativePath, entry)) {
+            return false;
+        }
+        if (recursive && entry.isDirectory() && !walk(fullPath, includeHidden, recursive, visit, `${relativePath}/`)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+// List a directory; returns the entries and whether the list was cut off at maxEntries
+export function listDirectory(directory: string, options: ListOptions = {}): { entries: DirectoryEntry[]; truncated: boolean } {
+    if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+        throw new Error(`Directory not found: ${directory}`);
+    }
+
+    const maxEntries = options.maxEntries ?? 1000;
+    const matches = globMatcher(options.pattern);
+    const entries: DirectoryEntry[] = [];
+    let truncated = false;
+
+    walk(directory, options.includeHidden ?? false, options.recursive ?? false, (fullPath, relativePath, entry) => {
+        // With a pattern, only matching files are listed
+        if (options.pattern && (entry.isDirectory() || !matches(relativePath))) {
+            return true;
+        }
+        if (entries.length >= maxEntries) {
+            truncated = true;
+            return false;
+        }
+        entries.push(entry.isDirectory()
+            ? { path: relativePath, type: 'directory' }
+            : { path: relativePath, type: 'file', size: fs.statSync(fullPath).size });
+        return true;
+    });
+
+    return { entries, truncated };
+}
+
+// Search text files under a directory with a regular expression
+export function searchFiles(directory: string, pattern: string, options: SearchOptions = {}): { matches: SearchMatch[]; truncated: boolean } {
+    let regex: RegExp;
+    try {
+        regex = new RegExp(pattern, options.caseSensitive === false ? 'i' : '');
+    } catch (error: any) {
+        throw new Error(`Invalid regular expression: ${error.message}`);
+    }
+
+    const maxResults = options.maxResults ?? 200;
+    const matchesGlob = globMatcher(options.glob);
+    const matches: SearchMatch[] = [];
+    let truncated = false;
+
+    walk(directory, false, true, (fullPath, relativePath, entry) => {
+        if (!entry.isFile() || !matchesGlob(relativePath) || fs.statSync(fullPath).size > MAX_SEARCH_FILE_SIZE) {
+            return true;
+        }
+        const buffer = fs.readFileSync(fullPath);
+        // Skip binary files
+        if (buffer.subarray(0, 8000).includes(0)) {
+            return true;
+        }
+
+        const lines = buffer.toString('utf8').split(/\r?\n/);
+        for (let i = 0; i < lines.length; i++) {
+            if (regex.test(lines[i])) {
+                if (matches.length >= maxResults) {
+                    truncated = true;
+                    return false;
+                }
+                matches.push({ file: relativePath, line: i + 1, text: lines[i].trim() });
+            }
+        }
+        return true;
+    });
+
+    return { matches, truncated };
+}
+
+// Read part of a text file. Lines are 1-based and inclusive; output is cut off at maxBytes.
+export function readFileRange(
+    filePath: string,
+    startLine?: number,
+    endLine?: number,
+    maxBytes: number = 256 * 1024
+): { content: string; startLine: number; endLine: number; totalLines: number; truncated: boolean } {
+    const lines = fs.readFileSync(filePath, 'utf8').split(/\r?\n/);
+    if (lines.length > 1 && lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+
+    const start = Math.max(1, startLine ?? 1);
+    const end = Math.min(lines.length, endLine ?? lines.length);
+    let content = '';
+    let bytes = 0;
+    let last = start - 1;
+    let truncated = false;
+
+    for (let i = start; i <= end; i++) {
+        const line = lines[i - 1] + '\n';
+        bytes += Buffer.byteLength(line);
+        if (bytes > maxBytes) {
+            truncated = true;
+            break;
+        }
+        content += line;
+        last = i;
+    }
+
+    return { content, startLine: start, endLine: last, totalLines: lines.length, truncated };
+}
+
+interface Hunk {
+    oldStart: number;
+    lines: string[];
+}
+
+// Parse the hunks of a unified diff for a single file
+function parseUnifiedDiff(patch: string): Hunk[] {
+    const hunks: Hunk[] = [];
+    let current: Hunk | null = null;
+
+    for (const line of patch.split(/\r?\n/)) {
+        const header = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/.exec(line);
+        if (header) {
+            current = { oldStart: Number(header[1]), lines: [] };
+            hunks.push(current);
+        } else if (current && /^[ +-]/.test(line)) {
+            current.lines.push(line);
+        } else if (current && line === '') {
+            // Some tools drop the space in front of empty context lines
+            current.lines.push(' ');
+        }
+    }
+
+    // Trailing empty context lines are usually just the end of the patch text
+    for (const hunk of hunks) {
+        while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1] === ' ') {
+            hunk.lines.pop();
+        }
+    }
+    if (hunks.length === 0) {
+        throw new Error('The patch contains no hunks (expected "@@ -line,count +line,count @@" headers)');
+    }
+    return hunks;
+}
+
+function linesMatch(lines: string[], expected: string[], at: number): boolean {
+    return expected.every((line, i) => lines[at + i] === line);
+}
+
+// Apply a unified diff to text. Hunks may have moved from their stated line numbers;
+// the closest place where their context matches is used.
+export function applyUnifiedDiff(text: string, patch: string): string {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const lines = text.split(/\r?\n/);
+    let offset = 0;
+
+    parseUnifiedDiff(patch).forEach((hunk, index) => {
+        const before = hunk.lines.filter(line => !line.startsWith('+')).map(line => line.slice(1));
+        const after = hunk.lines.filter(line => !line.startsWith('-')).map(line => line.slice(1));
+
+        // "@@ -5,0 ..." inserts after line 5; otherwise the hunk starts at its old line
+        const expected = (before.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset;
+        const last = lines.length - before.length;
+        let at = -1;
+        for (let distance = 0; at === -1 && distance <= lines.length; distance++) {
+            for (const candidate of [expected - distance, expected + distance]) {
+                if (candidate >= 0 && candidate <= last && linesMatch(lines, before, candidate)) {
+                    at = candidate;
+                    break;
+                }
+            }
+        }
+        if (at === -1) {
+            throw new Error(
+                `Hunk ${index + 1} (line ${hunk.oldStart}) does not match the file. Expected these lines:\n`
+                + before.join('\n')
+            );
+        }
+
+        lines.splice(at, before.length, ...after);
+        offset += at - expected + after.length - before.length;
+    });
+
+    return lines.join(eol);
+}
+
+interface DiffLine {
+    kind: ' ' | '-' | '+';
+    text: string;
+}
+
+function splitDiffLines(text: string): string[] {
+    if (text === '') {
+        return [];
+    }
+    const lines = text.split(/\r?\n/);
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    return lines;
+}
+
+// Line differences of two texts. Common leading and trailing lines are matched first;
+// the rest uses a longest common subsequence unless it is too large to compare.
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+        && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const a = oldLines.slice(prefix, oldLines.length - suffix);
+    const b = newLines.slice(prefix, newLines.length - suffix);
+    const middle: DiffLine[] = [];
+    if ((a.length + 1) * (b.length + 1) > 10_000_000) {
+        middle.push(...a.map(text => ({ kind: '-' as const, text })), ...b.map(text => ({ kind: '+' as const, text })));
+    } else {
+        // lengths[i * (b.length + 1) + j]: common subsequence length of a[i..] and b[j..]
+        const width = b.length + 1;
+        const lengths = new Uint32Array((a.length + 1) * width);
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lengths[i * width + j] = a[i] === b[j]
+                    ? lengths[(i + 1) * width + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < a.length || j < b.length) {
+            if (i < a.length && j < b.length && a[i] === b[j]) {
+                middle.push({ kind: ' ', text: a[i++] });
+                j++;
+            } else if (j >= b.length || (i < a.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+                middle.push({ kind: '-', text: a[i++] });
+            } else {
+                middle.push({ kind: '+', text: b[j++] });
+            }
+        }
+    }
+
+    return [
+        ...oldLines.slice(0, prefix).map(text => ({ kind: ' ' as const, text })),
+        ...middle,
+        ...oldLines.slice(oldLines.length - suffix).map(text => ({ kind: ' ' as const, text }))
+    ];
+}
+
+// Unified diff between two versions of a file; empty when they have the same lines
+export function createUnifiedDiff(oldText: string, newText: string, fileName: string, context: number = 3): string {
+    const lines = diffLines(splitDiffLines(oldText), splitDiffLines(newText));
+    const changes = lines.flatMap((line, index) => line.kind === ' ' ? [] : [index]);
+    if (changes.length === 0) {
+        return '';
+    }
+
+    // Line numbers before each diff line, in the old and the new text
+    const oldNumbers: number[] = [];
+    const newNumbers: number[] = [];
+    let oldLine = 0;
+    let newLine = 0;
+    for (const line of lines) {
+        oldNumbers.push(oldLine);
+        newNumbers.push(newLine);
+        oldLine += line.kind === '+' ? 0 : 1;
+        newLine += line.kind === '-' ? 0 : 1;
+    }
+
+    // Changes closer than twice the context share a hunk
+    const ranges: { start: number; end: number }[] = [];
+    for (const index of changes) {
+        const start = Math.max(0, index - context);
+        const end = Math.min(lines.length, index + context + 1);
+        const last = ranges[ranges.length - 1];
+        if (last && start <= last.end) {
+            last.end = end;
+        } else {
+            ranges.push({ start, end });
+        }
+    }
+
+    let diff = `--- a/${fileName}\n+++ b/${fileName}\n`;
+    for (const { start, end } of ranges) {
+        const hunk = lines.slice(start, end);
+        const oldCount = hunk.filter(line => line.kind !== '+').length;
+        const newCount = hunk.filter(line => line.kind !== '-').length;
+        // Empty ranges are numbered by the line before them
+        const oldStart = oldNumbers[start] + (oldCount > 0 ? 1 : 0);
+        const newStart = newNumbers[start] + (newCount > 0 ? 1 : 0);
+        diff += `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`;
+        diff += hunk.map(line => `${line.kind}${line.text}\n`).join('');
+    }
+    return diff;
+}
+
+// Apply search/replace edits to text, in order
+export function applyTextEdits(text: string, edits: TextEdit[]): string {
+    let result = text;
+    edits.forEach((edit, index) => {
+        if (edit.search === '') {
+            throw new Error(`Edit ${index + 1}: the search text is empty`);
+        }
+        const count = result.split(edit.search).length - 1;
+        if (count === 0) {
+            throw new Error(`Edit ${index + 1}: the search text was not found:\n${edit.search}`);
+        }
+        if (count > 1 && !edit.all) {
+            throw new Error(`Edit ${index + 1}: the search text matches ${count} times; add surrounding lines to make it unique or set "all"`);
+        }
+        result = result.split(edit.search).join(edit.replace);
+    });
+    return result;
+}
+
+// Move a file or directory, together with Godot's .import/.uid files for it
+export function moveFile(source: string, destination: string, overwrite: boolean = false): string[] {
+    if (!fs.existsSync(source)) {
+        throw new Error(`File not found: ${source}`);
+    }
+    if (fs.existsSync(destination) && !overwrite) {
+        throw new Error(`Destination already exists: ${destination}`);
+    }
+
+    fs.mkdirSync(path.dirname(destination), { recursive: true });
+    fs.renameSync(source, destination);
+    const moved = [destination];
+
+    for (const extension of SIDECAR_EXTENSIONS) {
+        if (fs.existsSync(source + extension)) {
+            fs.renameSync(source + extension, destination + extension);
+            moved.push(destination + extension);
+        }
+    }
+    return moved;
+}
+
+// Whether a directory is or holds a Godot project
+function containsProject(directory: string): boolean {
+    return fs.existsSync(path.join(directory, 'project.godot'))
+        || fs.readdirSync(directory, { withFileTypes: true })
+            .some(entry => entry.isDirectory() && containsProject(path.join(directory, entry.name)));
+}
+
+// Delete a file (with its .import/.uid files) or, when recursive is set, a directory.
+// Directories that are or hold a Godot project are never deleted.
+export function deleteFile(filePath: string, recursive: boolean = false): string[] {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`File not found: ${filePath}`);
+    }
+    if (fs.statSync(filePath).isDirectory()) {
+        if (!recursive) {
+            throw new Error(`${filePath} is a directory; set recursive to delete it with its contents`);
+        }
+        if (containsProject(filePath)) {
+            throw new Error(`Refusing to delete ${filePath}: it holds a Godot project`);
+        }
+        fs.rmSync(filePath, { recursive: true });
+        return [filePath];
+    }
+
+    fs.unlinkSync(filePath);
+    const deleted = [filePath];
+    for (const extension of SIDECAR_EXTENSIONS) {
+        if (fs.existsSync(filePath + extension)) {
+            fs.unlinkSync(filePath + extension);
+            deleted.push(filePath + extension);
+        }
+    }
+    return deleted;
+}
@@ -3,6 +3,7 @@ import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { assertAllowed } from './sandbox.js';
 
 const execAsync = promisify(exec);
 
@@ -26,54 +27,99 @@ const GODOT_PATHS = {
     ]
 };
 
-// Find Godot executable
-export async function findGodotPath(): Promise<string | null> {
-    // Check environment variable first
-    if (process.env.GODOT_PATH) {
-        if (fs.existsSync(process.env.GODOT_PATH)) {
-            return process.env.GODOT_PATH;
+// Downloaded builds in a directory, such as Godot_v4.3-stable_linux.x86_64, macOS app bundles,
+// and with searchFolders the builds one level down in extracted folders (the .NET builds
+// come as a Godot_v4.3-stable_mono_linux_x86_64 folder holding the executable)
+function godotBinariesIn(directory: string, searchFolders: boolean): string[] {
+    const binaries: string[] = [];
+    for (const name of fs.readdirSync(directory).sort()) {
+        if (!/godot/i.test(name) || /\.(zip|tar|gz|xz|dmg|txt|pck)$/i.test(name)) {
+            continue;
+        }
+        const entry = path.join(directory, name);
+        if (name.endsWith('.app')) {
+            binaries.push(path.join(entry, 'Contents', 'MacOS', 'Godot'));
+        } else if (searchFolders && fs.statSync(entry).isDirectory()) {
+            binaries.push(...godotBinariesIn(entry, false));
+        } else {
+            binaries.push(entry);
         }
     }
+    return binaries;
+}
 
-    // Check platform-specific paths
+// Paths that may hold a Godot executable, most preferred first: GODOT_PATH, the entries of
+// GODOT_PATHS (separated like PATH; directories are searched for Godot builds), the default
+// install locations and the godot commands on the PATH. Only existing files are returned.
+export async function findGodotPaths(env: NodeJS.ProcessEnv = process.env): Promise<string[]> {
     const platform = os.platform() as 'darwin' | 'linux' | 'win32';
-    const potentialPaths = GODOT_PATHS[platform] || [];
+    const candidates: string[] = [];
 
-    for (const path of potentialPaths) {
-        if (fs.existsSync(path)) {
-            return path;
+    if (env.GODOT_PATH) {
+        candidates.push(env.GODOT_PATH);
+    }
+    for (const entry of (env.GODOT_PATHS ?? '').split(path.delimiter).map(entry => entry.trim()).filter(entry => entry !== '')) {
+        if (fs.existsSync(entry) && fs.statSync(entry).isDirectory()) {
+            candidates.push(...godotBinariesIn(entry, true));
+        } else {
+            candidates.push(entry);
         }
     }
+    candidates.push(...(GODOT_PATHS[platform] || []));
 
-    // Try to find via command line (which godot)
-    try {
-        if (platform !== 'win32') {
-            const { stdout } = await execAsync('which godot');
-            const godotPath = stdout.trim();
-            if (godotPath && fs.existsSync(godotPath)) {
-                return godotPath;
-            }
+    // Godot commands on the PATH; "which -a" lists the ones it finds even when others are missing
+    if (platform !== 'win32') {
+        try {
+            const { stdout } = await execAsync('which -a godot godot4 godot3');
+            candidates.push(...stdout.split('\n'));
+        } catch (error: any) {
+            candidates.push(...String(error.stdout ?? '').split('\n'));
         }
-    } catch (error) {
-        // Command failed, continue with search
     }
 
-    return null;
+    const found: string[] = [];
+    for (const candidate of candidates.map(entry => entry.trim()).filter(entry => entry !== '')) {
+        if (fs.existsSync(candidate) && fs.statSync(candidate).isFile() && !found.includes(candidate)) {
+            found.push(candidate);
+        }
+    }
+    return found;
+}
+
+// Quote a command line argument for the shell when needed
+function quoteArg(arg: string): string {
+    return /^[A-Za-z0-9_\-./:=@,+]+$/.test(arg) ? arg : `"${arg.replace(/(["\\$`])/g, '\\$1')}"`;
+}
+
+// Result of a Godot command; exitCode and timedOut let callers tell failures apart
+export interface GodotCommandResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number;
+    timedOut: boolean;
 }
 
 // Run a Godot command and return the output
 export async function runGodotCommand(
     godotPath: string,
     args: string[],
-    cwd?: string
-): Promise<{ stdout: string; stderr: string }> {
+    cwd?: string,
+    timeoutMs?: number
+): Promise<GodotCommandResult> {
     try {
-        return await execAsync(`"${godotPath}" ${args.join(' ')}`, { cwd });
+        const { stdout, stderr } = await execAsync(`"${godotPath}" ${args.map(quoteArg).join(' ')}`, {
+            cwd,
+            timeout: timeoutMs,
+            maxBuffer: 64 * 1024 * 1024
+        });
+        return { stdout, stderr, exitCode: 0, timedOut: false };
     } catch (error: any) {
-        if (error.stdout || error.stderr) {
+        if (error.stdout || error.stderr || error.killed) {
             return {
                 stdout: error.stdout || '',
-                stderr: error.stderr || ''
+                stderr: error.stderr || '',
+                exitCode: typeof error.code === 'number' ? error.code : 1,
+                timedOut: error.killed === true
             };
         }
         throw error;
@@ -88,4 +134,27 @@ export async function isGodotProject(projectPath: string): Promise<boolean> {
     } catch (error) {
         return false;
     }
-}
\ No newline at end of file
+}
+
+// Resolve a res:// path (or a path relative to the project) to an absolute file path
+export function resolveResPath(projectPath: string, resourcePath: string): string {
+    if (resourcePath.startsWith('res://')) {
+        const filePath = path.join(projectPath, resourcePath.slice('res://'.length));
+        if (path.relative(projectPath, filePath).startsWith('..')) {
+            throw new Error(`Path is outside the project: ${resourcePath}`);
+        }
+        // A symbolic link inside the project must not lead out of the allowed roots
+        assertAllowed(filePath);
+        return filePath;
+    }
+    return path.resolve(projectPath, resourcePath);
+}
+
+// Convert an absolute file path inside a project to a res:// path
+export function toResPath(projectPath: string, filePath: string): string {
+    if (filePath.startsWith('res://')) {
+        return filePath;
+    }
+    const relative = path.relative(projectPath, path.resolve(projectPath, filePath));
+    return `res://${relative.split(path.sep).join('/')}`;
+}
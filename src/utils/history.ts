@@ -0,0 +1,400 @@
+import { PATH_ARGUMENTS, resolveSandboxPath } from './sandbox.js';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// A file changed by a tool call
+export interface ChangedFile {
+    // Relative to the project with "/" separators, or absolute for files outside it
+    path: string;
+    change: 'added' | 'modified' | 'deleted';
+    // Hash of the saved previous content; missing for added files and files too large to save
+    before?: string;
+    // Hash of the content the tool left; missing for deleted files
+    after?: string;
+}
+
+// A journal entry: one tool call that changed files
+export interface ChangeEntry {
+    id: number;
+    time: string;
+    tool: string;
+    arguments: Record<string, unknown>;
+    files: ChangedFile[];
+}
+
+interface FileState {
+    size: number;
+    mtimeMs: number;
+    content?: Buffer;
+}
+
+// The journal lives in Godot's cache folder, which is neither imported nor committed
+const HISTORY_DIRECTORY = path.join('.godot', 'mcp_history');
+// Folders whose changes are not recorded
+const SKIPPED_DIRECTORIES = ['.godot', '.git'];
+// Text files, saved before the calls of tools that can change them anywhere in the project
+const TEXT_EXTENSIONS = [
+    '.tscn', '.tres', '.gd', '.cs', '.gdshader', '.gdshaderinc', '.godot', '.cfg', '.import', '.uid',
+    '.json', '.txt', '.md', '.csv', '.xml', '.yml', '.yaml', '.ini', '.gitignore', '.gitattributes'
+];
+const MAX_TEXT_FILE_SIZE = 1024 * 1024;
+const MAX_ARGUMENT_FILE_SIZE = 64 * 1024 * 1024;
+// Most content saved before one call; files past it are recorded without their previous content
+const MAX_SAVED_CONTENT = 64 * 1024 * 1024;
+// Files saved before every call: the project settings and export presets
+const SETTINGS_FILES = ['project.godot', 'export_presets.cfg'];
+// Tools that change files their arguments do not name (references to a moved resource,
+// repaired dependencies, method stubs in scripts); every text file is saved before them
+const PROJECT_WIDE_TOOLS = ['move_resource', 'check_dependencies', 'connect_signal'];
+// Arguments naming files a tool may change; move_file calls its paths source and destination
+const FILE_ARGUMENTS = [...PATH_ARGUMENTS.filter(argument => argument !== 'projectPath' && argument !== 'parentDirectory'), 'source', 'destination'];
+// Argument values longer than this are shortened in the journal
+const MAX_ARGUMENT_LENGTH = 200;
+
+// Recorded calls on the same project run one at a time so each entry only holds its own changes
+const queues = new Map<string, Promise<unknown>>();
+
+function hash(content: Buffer): string {
+    return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+function historyDir(projectRoot: string): string {
+    return path.join(projectRoot, HISTORY_DIRECTORY);
+}
+
+function isInside(filePath: string, directory: string): boolean {
+    const relative = path.relative(directory, filePath);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+// Journal path of a file: relative inside the project, absolute outside
+function journalPath(projectRoot: string, filePath: string): string {
+    return isInside(filePath, projectRoot) ? path.relative(projectRoot, filePath).split(path.sep).join('/') : filePath;
+}
+
+function absolutePath(projectRoot: string, journalFile: string): string {
+    return path.isAbsolute(journalFile) ? journalFile : path.join(projectRoot, journalFile);
+}
+
+// Closest directory holding a project.godot, starting from a path that may not exist yet
+function findProjectRoot(filePath: string): string | undefined {
+    let current = path.resolve(filePath);
+    while (true) {
+        if (fs.existsSync(path.join(current, 'project.godot'))) {
+            return current;
+        }
+        const parent = path.dirname(current);
+        if (parent === current) {
+            return undefined;
+        }
+        current = parent;
+    }
+}
+
+// Values of the file arguments, including those nested in lists of edits and in options
+function fileArgumentValues(value: unknown): string[] {
+    if (Array.isArray(value)) {
+        return value.flatMap(fileArgumentValues);
+    }
+    if (typeof value !== 'object' || value === null) {
+        return [];
+    }
+    return Object.entries(value).flatMap(([key, item]) => typeof item === 'string'
+        ? (FILE_ARGUMENTS.includes(key) ? [item] : [])
+        : fileArgumentValues(item));
+}
+
+// Project a tool call belongs to, and the files its path arguments name
+async function resolveCall(name: string, params: Record<string, unknown>): Promise<{ projectRoot?: string; paths: string[] }> {
+    const projectPath = typeof params.projectPath === 'string' ? params.projectPath : undefined;
+    const paths: string[] = [];
+    for (const value of fileArgumentValues(params)) {
+        try {
+            paths.push(await resolveSandboxPath(value, projectPath));
+        } catch (error) {
+            // Paths the tool itself cannot resolve are not recorded
+        }
+    }
+
+    if (name === 'create_project' && typeof params.parentDirectory === 'string' && typeof params.projectName === 'string') {
+        return { projectRoot: path.resolve(params.parentDirectory, params.projectName), paths };
+    }
+    if (projectPath) {
+        return { projectRoot: path.resolve(projectPath), paths };
+    }
+    return { projectRoot: paths.map(findProjectRoot).find(root => root !== undefined), paths };
+}
+
+function walkFiles(directory: string, visit: (filePath: string, stat: fs.Stats) => void) {
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(directory, { withFileTypes: true });
+    } catch (error) {
+        return;
+    }
+    for (const entry of entries) {
+        const fullPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            if (!SKIPPED_DIRECTORIES.includes(entry.name)) {
+                walkFiles(fullPath, visit);
+            }
+        } else if (entry.isFile()) {
+            visit(fullPath, fs.statSync(fullPath));
+        }
+    }
+}
+
+// Largest size of each file whose previous content is saved before a call (-1 for files
+// that are not saved): the files the arguments name with their .uid and .import files,
+// the settings, and for project-wide tools every text file
+function savedContentLimit(name: string, projectRoot: string, paths: string[]): (filePath: string) => number {
+    const companions = new Set(paths.flatMap(filePath => [`${filePath}.uid`, `${filePath}.import`]));
+    const settings = SETTINGS_FILES.map(file => path.join(projectRoot, file));
+    const projectWide = PROJECT_WIDE_TOOLS.includes(name);
+    return filePath => {
+        if (companions.has(filePath) || paths.some(argumentPath => isInside(filePath, argumentPath))) {
+            return MAX_ARGUMENT_FILE_SIZE;
+        }
+        if (settings.includes(filePath) || (projectWide && TEXT_EXTENSIONS.includes(path.extname(filePath).toLowerCase()))) {
+            return MAX_TEXT_FILE_SIZE;
+        }
+        return -1;
+    };
+}
+
+// Size and modification time of the project's files and of the files named by arguments.
+// With a limit, the content of the files it allows is kept so it can be restored, up to
+// MAX_SAVED_CONTENT in total; the files named by arguments come first.
+function takeSnapshot(projectRoot: string, paths: string[], limit?: (filePath: string) => number): Map<string, FileState> {
+    const snapshot = new Map<string, FileState>();
+    let saved = 0;
+    const add = (filePath: string, stat: fs.Stats) => {
+        if (snapshot.has(filePath)) {
+            return;
+        }
+        const state: FileState = { size: stat.size, mtimeMs: stat.mtimeMs };
+        if (limit && stat.size <= limit(filePath) && saved + stat.size <= MAX_SAVED_CONTENT) {
+            state.content = fs.readFileSync(filePath);
+            saved += stat.size;
+        }
+        snapshot.set(filePath, state);
+    };
+
+    for (const argumentPath of paths) {
+        if (!fs.existsSync(argumentPath)) {
+            continue;
+        }
+        const stat = fs.statSync(argumentPath);
+        if (stat.isDirectory()) {
+            walkFiles(argumentPath, add);
+        } else if (stat.isFile()) {
+            add(argumentPath, stat);
+        }
+    }
+    walkFiles(projectRoot, add);
+    return snapshot;
+}
+
+// Files that differ between two snapshots; unchanged content counts as unchanged even if rewritten
+function compareSnapshots(projectRoot: string, before: Map<string, FileState>, after: Map<string, FileState>): ChangedFile[] {
+    const changes: ChangedFile[] = [];
+    for (const filePath of new Set([...before.keys(), ...after.keys()])) {
+        const old = before.get(filePath);
+        const current = after.get(filePath);
+        if (old && current && old.size === current.size && old.mtimeMs === current.mtimeMs) {
+            continue;
+        }
+        const content = current ? fs.readFileSync(filePath) : undefined;
+        if (old?.content && content && old.content.equals(content)) {
+            continue;
+        }
+        changes.push({
+            path: journalPath(projectRoot, filePath),
+            change: !old ? 'added' : !current ? 'deleted' : 'modified',
+            ...(old?.content ? { before: hash(old.content) } : {}),
+            ...(content ? { after: hash(content) } : {})
+        });
+    }
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Shorten long argument values, such as the content of write_file
+function summarizeArguments(params: Record<string, unknown>): Record<string, unknown> {
+    const text = JSON.stringify(params, (_key, value) =>
+        typeof value === 'string' && value.length > MAX_ARGUMENT_LENGTH
+            ? `${value.slice(0, MAX_ARGUMENT_LENGTH)}... (${value.length} characters)`
+            : value);
+    return text === undefined ? {} : JSON.parse(text);
+}
+
+// Read a project's journal, oldest entry first
+export function readJournal(projectRoot: string): ChangeEntry[] {
+    const journalFile = path.join(historyDir(projectRoot), 'journal.jsonl');
+    if (!fs.existsSync(journalFile)) {
+        return [];
+    }
+    return fs.readFileSync(journalFile, 'utf8')
+        .split('\n')
+        .filter(line => line.trim() !== '')
+        .map(line => JSON.parse(line) as ChangeEntry);
+}
+
+function appendEntry(projectRoot: string, entry: Omit<ChangeEntry, 'id'>, before: Map<string, FileState>): ChangeEntry {
+    const directory = historyDir(projectRoot);
+    fs.mkdirSync(path.join(directory, 'blobs'), { recursive: true });
+    for (const file of entry.files) {
+        const content = before.get(absolutePath(projectRoot, file.path))?.content;
+        const blobPath = path.join(directory, 'blobs', file.before ?? '');
+        if (file.before && content && !fs.existsSync(blobPath)) {
+            fs.writeFileSync(blobPath, content);
+        }
+    }
+
+    const entries = readJournal(projectRoot);
+    const recorded: ChangeEntry = { id: (entries[entries.length - 1]?.id ?? 0) + 1, ...entry };
+    fs.appendFileSync(path.join(directory, 'journal.jsonl'), `${JSON.stringify(recorded)}\n`);
+    return recorded;
+}
+
+// Run a tool call and record the files it changed in its project's journal.
+// Recording errors are logged and never fail the call.
+export async function recordChange<T>(name: string, params: Record<string, unknown>, run: () => Promise<T>): Promise<T> {
+    let call: { projectRoot?: string; paths: string[] } | undefined;
+    try {
+        call = await resolveCall(name, params);
+    } catch (error) {
+        console.error(`Failed to snapshot files before ${name}:`, error);
+    }
+
+    const key = call?.projectRoot ?? '';
+    const task = (queues.get(key) ?? Promise.resolve()).then(async () => {
+        let prepared: { projectRoot: string; paths: string[]; before: Map<string, FileState> } | undefined;
+        try {
+            if (call?.projectRoot) {
+                const { projectRoot } = call;
+                const paths = [...call.paths];
+                // A revert can touch any file of the journal, as it is once the calls before it are recorded
+                if (name === 'revert_change') {
+                    paths.push(...new Set(readJournal(projectRoot).flatMap(entry => entry.files.map(file => absolutePath(projectRoot, file.path)))));
+                }
+                prepared = { projectRoot, paths, before: takeSnapshot(projectRoot, paths, savedContentLimit(name, projectRoot, paths)) };
+            }
+        } catch (error) {
+            console.error(`Failed to snapshot files before ${name}:`, error);
+        }
+
+        const result = await run();
+
+        if (prepared) {
+            try {
+                const { projectRoot, paths, before } = prepared;
+                const files = compareSnapshots(projectRoot, before, takeSnapshot(projectRoot, paths));
+                if (files.length > 0) {
+                    appendEntry(projectRoot, { time: new Date().toISOString(), tool: name, arguments: summarizeArguments(params), files }, before);
+                }
+            } catch (error) {
+                console.error(`Failed to record the changes of ${name}:`, error);
+            }
+        }
+        return result;
+    });
+    const tail = task.catch(() => undefined);
+    queues.set(key, tail);
+    tail.then(() => {
+        if (queues.get(key) === tail) {
+            queues.delete(key);
+        }
+    });
+    return task;
+}
+
+function currentHash(filePath: string): string | undefined {
+    return fs.existsSync(filePath) ? hash(fs.readFileSync(filePath)) : undefined;
+}
+
+// Remove a deleted file's folders when they are left empty, up to the project
+function removeEmptyParents(projectRoot: string, filePath: string) {
+    let directory = path.dirname(filePath);
+    while (directory !== projectRoot && isInside(directory, projectRoot)) {
+        try {
+            fs.rmdirSync(directory);
+        } catch (error) {
+            return;
+        }
+        directory = path.dirname(directory);
+    }
+}
+
+// Restore the files of journal entries: one entry by id, or every entry made after a time.
+// Entries are undone newest first. A file changed since an entry (by a later change that is
+// not reverted, or outside the server) is a conflict and stops the revert unless force is set.
+export function revertChanges(
+    projectPath: string,
+    options: { id?: number; time?: string; force?: boolean }
+): { entries: number[]; files: { path: string; action: 'restored' | 'deleted' }[]; skipped: string[] } {
+    const projectRoot = path.resolve(projectPath);
+    const journal = readJournal(projectRoot);
+    let entries: ChangeEntry[];
+    if (options.id !== undefined) {
+        const entry = journal.find(candidate => candidate.id === options.id);
+        if (!entry) {
+            throw new Error(`No change with id ${options.id}`);
+        }
+        entries = [entry];
+    } else if (options.time !== undefined) {
+        const time = Date.parse(options.time);
+        if (Number.isNaN(time)) {
+            throw new Error(`Invalid time: ${options.time} (expected ISO 8601, e.g. 2025-01-31T14:00:00Z)`);
+        }
+        entries = journal.filter(entry => Date.parse(entry.time) > time);
+    } else {
+        throw new Error('Either an id or a time is needed');
+    }
+    entries = [...entries].reverse();
+
+    // Work out the content each file ends up with before touching anything
+    const expected = new Map<string, string | undefined>();
+    const skipped: string[] = [];
+    for (const entry of entries) {
+        for (const file of entry.files) {
+            const filePath = absolutePath(projectRoot, file.path);
+            const current = expected.has(filePath) ? expected.get(filePath) : currentHash(filePath);
+            if (current !== file.after && !options.force) {
+                throw new Error(`${file.path} was changed after change ${entry.id} (${entry.tool}); set force to revert anyway`);
+            }
+            if (file.change !== 'added' && !file.before) {
+                if (!options.force) {
+                    throw new Error(`The previous content of ${file.path} from change ${entry.id} was not saved (file too large); set force to skip it`);
+                }
+                skipped.push(file.path);
+                continue;
+            }
+            expected.set(filePath, file.before);
+        }
+    }
+
+    const blobs = path.join(historyDir(projectRoot), 'blobs');
+    for (const target of expected.values()) {
+        if (target && !fs.existsSync(path.join(blobs, target))) {
+            throw new Error(`The saved content ${target} is missing from ${blobs}`);
+        }
+    }
+
+    const files: { path: string; action: 'restored' | 'deleted' }[] = [];
+    for (const [filePath, target] of expected) {
+        if (currentHash(filePath) === target) {
+            continue;
+        }
+        if (target) {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.copyFileSync(path.join(blobs, target), filePath);
+        } else {
+            fs.rmSync(filePath, { force: true });
+            removeEmptyParents(projectRoot, filePath);
+        }
+        files.push({ path: journalPath(projectRoot, filePath), action: target ? 'restored' : 'deleted' });
+    }
+
+    return { entries: entries.map(entry => entry.id), files, skipped };
+}
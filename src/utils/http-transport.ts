@@ -0,0 +1,220 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+import * as http from 'http';
+
+export interface HttpOptions {
+    port: number;
+    // Clients must send "Authorization: Bearer <token>" when set
+    token?: string;
+    // Origins allowed to call the server from a browser; requests from other origins are rejected
+    allowedOrigins: string[];
+    // Sessions without an open request for this long are closed
+    sessionTimeoutMs: number;
+}
+
+// A client session: its transport and server, and the requests (including event streams) it has open
+interface HttpSession {
+    transport: StreamableHTTPServerTransport;
+    server: McpServer;
+    openRequests: number;
+    idleTimer?: NodeJS.Timeout;
+}
+
+// The server only listens on the loopback interface
+const HOST = '127.0.0.1';
+const DEFAULT_PORT = 3100;
+const ENDPOINT = '/mcp';
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+const DEFAULT_SESSION_TIMEOUT_MINUTES = 30;
+
+// HTTP settings from the command line (--http, --port <port>) and the environment
+// (GODOT_MCP_HTTP_PORT, GODOT_MCP_HTTP_TOKEN, GODOT_MCP_ALLOWED_ORIGINS,
+// GODOT_MCP_HTTP_SESSION_TIMEOUT in minutes); null to use stdio
+export function readHttpOptions(args: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): HttpOptions | null {
+    const portIndex = args.findIndex(arg => arg === '--port' || arg.startsWith('--port='));
+    const portArgument = portIndex === -1
+        ? undefined
+        : args[portIndex].includes('=') ? args[portIndex].split('=')[1] : args[portIndex + 1];
+    const portText = portArgument ?? env.GODOT_MCP_HTTP_PORT;
+    if (!args.includes('--http') && portText === undefined) {
+        return null;
+    }
+
+    const port = portText === undefined ? DEFAULT_PORT : Number(portText);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid HTTP port: ${portText}`);
+    }
+    const timeoutText = env.GODOT_MCP_HTTP_SESSION_TIMEOUT;
+    const timeoutMinutes = timeoutText ? Number(timeoutText) : DEFAULT_SESSION_TIMEOUT_MINUTES;
+    if (!(timeoutMinutes > 0)) {
+        throw new Error(`Invalid session timeout: ${timeoutText} (expected minutes)`);
+    }
+    return {
+        port,
+        token: env.GODOT_MCP_HTTP_TOKEN || undefined,
+        allowedOrigins: (env.GODOT_MCP_ALLOWED_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(origin => origin !== ''),
+        sessionTimeoutMs: timeoutMinutes * 60 * 1000
+    };
+}
+
+function sendError(res: http.ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_SIZE) {
+                reject(new Error(`Request body larger than ${MAX_BODY_SIZE} bytes`));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+function hasToken(req: http.IncomingMessage, token: string): boolean {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+    if (!match) {
+        return false;
+    }
+    const given = Buffer.from(match[1].trim());
+    const expected = Buffer.from(token);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+// Only accept Host headers naming the loopback interface, so a web page cannot reach the
+// server through a DNS name that resolves to 127.0.0.1
+function isLocalHost(host: string | undefined, port: number): boolean {
+    return [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`].includes((host ?? '').toLowerCase());
+}
+
+// Count a request as activity of a session; once none is open, the session is closed
+// after the idle timeout (closing its server also ends its resource subscriptions)
+function trackRequest(session: HttpSession, res: http.ServerResponse, timeoutMs: number) {
+    session.openRequests++;
+    clearTimeout(session.idleTimer);
+    res.on('close', () => {
+        session.openRequests--;
+        if (session.openRequests === 0) {
+            session.idleTimer = setTimeout(() => {
+                session.server.close().catch(error => console.error('Error closing idle HTTP session:', error));
+            }, timeoutMs);
+            session.idleTimer.unref();
+        }
+    });
+}
+
+// Serve MCP over Streamable HTTP on localhost. Every client session gets its own server from
+// createServer; run sessions, workers and other module state are shared by all of them and
+// outlive the sessions.
+export async function startHttpServer(createServer: () => McpServer, options: HttpOptions): Promise<http.Server> {
+    const sessions = new Map<string, HttpSession>();
+
+    const httpServer = http.createServer(async (req, res) => {
+        try {
+            const origin = req.headers.origin;
+            if (origin !== undefined && !options.allowedOrigins.includes(origin)) {
+                sendError(res, 403, -32000, `Origin not allowed: ${origin}`);
+                return;
+            }
+            if (origin !== undefined) {
+                res.setHeader('Access-Control-Allow-Origin', origin);
+                res.setHeader('Vary', 'Origin');
+                res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, Last-Event-ID');
+                res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+                res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+            }
+            if (req.method === 'OPTIONS') {
+                res.writeHead(204);
+                res.end();
+                return;
+            }
+
+            if (!isLocalHost(req.headers.host, (httpServer.address() as AddressInfo).port)) {
+                sendError(res, 403, -32000, `Host not allowed: ${req.headers.host}`);
+                return;
+            }
+            if (new URL(req.url ?? '/', `http://${HOST}`).pathname !== ENDPOINT) {
+                sendError(res, 404, -32000, `Not found; the MCP endpoint is ${ENDPOINT}`);
+                return;
+            }
+            if (options.token && !hasToken(req, options.token)) {
+                sendError(res, 401, -32001, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+                return;
+            }
+
+            let body: unknown;
+            if (req.method === 'POST') {
+                try {
+                    body = JSON.parse(await readBody(req));
+                } catch (error: any) {
+                    sendError(res, 400, -32700, `Parse error: ${error.message}`);
+                    return;
+                }
+            }
+
+            const sessionId = req.headers['mcp-session-id'];
+            if (typeof sessionId === 'string') {
+                const session = sessions.get(sessionId);
+                if (!session) {
+                    sendError(res, 404, -32001, `Session not found: ${sessionId}`);
+                    return;
+                }
+                trackRequest(session, res, options.sessionTimeoutMs);
+                await session.transport.handleRequest(req, res, body);
+                return;
+            }
+
+            if (req.method !== 'POST' || !isInitializeRequest(body)) {
+                sendError(res, 400, -32000, 'Bad Request: no session ID; start a session with an initialize request');
+                return;
+            }
+
+            const server = createServer();
+            const transport = new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => crypto.randomUUID(),
+                onsessioninitialized: id => {
+                    const session: HttpSession = { transport, server, openRequests: 0 };
+                    sessions.set(id, session);
+                    trackRequest(session, res, options.sessionTimeoutMs);
+                }
+            });
+            await server.connect(transport);
+            // connect() sets the transport's onclose to the server's; forget the session after it
+            const closeServer = transport.onclose;
+            transport.onclose = () => {
+                closeServer?.();
+                if (transport.sessionId) {
+                    clearTimeout(sessions.get(transport.sessionId)?.idleTimer);
+                    sessions.delete(transport.sessionId);
+                }
+            };
+            await transport.handleRequest(req, res, body);
+        } catch (error: any) {
+            console.error('Error handling HTTP request:', error);
+            if (!res.headersSent) {
+                sendError(res, 500, -32603, `Internal error: ${error.message}`);
+            }
+        }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once('error', reject);
+        httpServer.listen(options.port, HOST, () => {
+            httpServer.off('error', reject);
+            resolve();
+        });
+    });
+    return httpServer;
+}
@@ -0,0 +1,137 @@
+// Minimal JUnit XML reading and writing for test reports
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestCaseResult {
+    name: string;
+    status: TestStatus;
+    durationMs: number;
+    message?: string;
+    file?: string;
+    line?: number;
+}
+
+export interface TestSuiteResult {
+    name: string;
+    file?: string;
+    durationMs: number;
+    cases: TestCaseResult[];
+}
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&amp;/g, '&');
+}
+
+function encodeEntities(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of text.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+        attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+    }
+    return attributes;
+}
+
+// Find "file:line" or "line N" in a failure message
+function findLocation(text: string): { file?: string; line?: number } {
+    const fileLine = /((?:res:\/\/)?[\w\/.-]+\.gd):(\d+)/.exec(text);
+    if (fileLine) {
+        return { file: fileLine[1], line: Number(fileLine[2]) };
+    }
+    const line = /line[:\s]+(\d+)/i.exec(text);
+    return line ? { line: Number(line[1]) } : {};
+}
+
+// Parse the <testsuite>/<testcase> elements of a JUnit XML report
+export function parseJUnitXml(xml: string): TestSuiteResult[] {
+    const suites: TestSuiteResult[] = [];
+
+    for (const suiteMatch of xml.matchAll(/<testsuite\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testsuite>)/g)) {
+        const suiteAttributes = parseAttributes(suiteMatch[1]);
+        const body = suiteMatch[2] ?? '';
+        const suiteName = suiteAttributes.name ?? 'tests';
+        const suiteFile = suiteAttributes.file
+            ?? (suiteName.endsWith('.gd') ? suiteName : undefined);
+        const cases: TestCaseResult[] = [];
+
+        for (const caseMatch of body.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+            const caseAttributes = parseAttributes(caseMatch[1]);
+            const caseBody = caseMatch[2] ?? '';
+            const failure = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/.exec(caseBody);
+            const skipped = /<skipped\b/.test(caseBody);
+
+            const result: TestCaseResult = {
+                name: caseAttributes.name ?? 'test',
+                status: failure ? 'failed' : skipped ? 'skipped' : 'passed',
+                durationMs: Math.round(Number(caseAttributes.time ?? 0) * 1000)
+            };
+
+            if (failure) {
+                const message = parseAttributes(failure[2]).message;
+                const details = decodeEntities(failure[3] ?? '').trim();
+                result.message = [message, details !== message ? details : ''].filter(Boolean).join('\n');
+                const location = findLocation(result.message);
+                result.file = location.file ?? caseAttributes.file ?? suiteFile;
+                result.line = location.line ?? (caseAttributes.line ? Number(caseAttributes.line) : undefined);
+            }
+            cases.push(result);
+        }
+
+        suites.push({
+            name: suiteName,
+            file: suiteFile,
+            durationMs: Math.round(Number(suiteAttributes.time ?? 0) * 1000),
+            cases
+        });
+    }
+
+    return suites;
+}
+
+// Write test suites as a JUnit XML report
+export function toJUnitXml(suites: TestSuiteResult[], name: string = 'tests'): string {
+    const count = (status: TestStatus, cases: TestCaseResult[]) => cases.filter(c => c.status === status).length;
+    const allCases = suites.flatMap(suite => suite.cases);
+    const seconds = (ms: number) => (ms / 1000).toFixed(3);
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${encodeEntities(name)}" tests="${allCases.length}" failures="${count('failed', allCases)}" skipped="${count('skipped', allCases)}" time="${seconds(suites.reduce((sum, s) => sum + s.durationMs, 0))}">`
+    ];
+
+    for (const suite of suites) {
+        lines.push(`  <testsuite name="${encodeEntities(suite.name)}" tests="${suite.cases.length}" failures="${count('failed', suite.cases)}" skipped="${count('skipped', suite.cases)}" time="${seconds(suite.durationMs)}"${suite.file ? ` file="${encodeEntities(suite.file)}"` : ''}>`);
+        for (const testCase of suite.cases) {
+            const attributes = `name="${encodeEntities(testCase.name)}" classname="${encodeEntities(suite.name)}" time="${seconds(testCase.durationMs)}"`
+                + (testCase.file ? ` file="${encodeEntities(testCase.file)}"` : '')
+                + (testCase.line !== undefined ? ` line="${testCase.line}"` : '');
+            if (testCase.status === 'passed') {
+                lines.push(`    <testcase ${attributes}/>`);
+            } else if (testCase.status === 'skipped') {
+                lines.push(`    <testcase ${attributes}>`, `      <skipped${testCase.message ? ` message="${encodeEntities(testCase.message)}"` : ''}/>`, '    </testcase>');
+            } else {
+                lines.push(
+                    `    <testcase ${attributes}>`,
+                    `      <failure message="${encodeEntities(testCase.message?.split('\n')[0] ?? 'failed')}">${encodeEntities(testCase.message ?? '')}</failure>`,
+                    '    </testcase>'
+                );
+            }
+        }
+        lines.push('  </testsuite>');
+    }
+
+    lines.push('</testsuites>', '');
+    return lines.join('\n');
+}
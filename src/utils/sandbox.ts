@@ -0,0 +1,150 @@
+import { getUserDataDir } from '../godot/project-settings.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// Directories the tools may access (GODOT_MCP_ROOTS, separated like PATH); no roots means no restriction
+let allowedRoots: string[] = [];
+// Reject every tool that changes files or runs the project (GODOT_MCP_READ_ONLY=1)
+let readOnly = false;
+
+// Tools that create, change or delete files
+const MUTATING_TOOLS = new Set([
+    'write_file', 'apply_patch', 'move_file', 'delete_file', 'create_project', 'create_scene', 'create_script', 'add_node', 'remove_node', 'rename_node', 'reparent_node',
+    'duplicate_node', 'reorder_node', 'set_node_properties', 'connect_signal', 'disconnect_signal', 'set_project_setting', 'set_main_scene',
+    'add_autoload', 'remove_autoload', 'reorder_autoload', 'set_window_size', 'set_layer_name',
+    'set_rendering_method', 'add_input_action', 'remove_input_action', 'bind_input_event',
+    'create_export_preset', 'update_export_preset', 'export_project', 'move_resource', 'revert_change'
+]);
+// Tools that run project code or open the editor, which can change files themselves; they are
+// not recorded in the history, but read-only mode rejects them too
+const EXECUTING_TOOLS = new Set(['launch_editor', 'run_project', 'run_tests']);
+
+// Tool arguments holding paths; relative paths are resolved against the project
+export const PATH_ARGUMENTS = [
+    'projectPath', 'parentDirectory', 'directoryPath', 'filePath', 'scenePath', 'scriptPath', 'sourcePath', 'destinationPath',
+    'junitPath', 'outputPath', 'exportPath', 'scene', 'file', 'path', 'testsDir'
+];
+// Path arguments that name files a tool writes
+const OUTPUT_ARGUMENTS = ['junitPath', 'outputPath', 'exportPath'];
+
+// Whether a tool call changes files: the mutating tools, and tools that only write with an option set
+export function changesFiles(name: string, params: Record<string, unknown>): boolean {
+    return MUTATING_TOOLS.has(name)
+        || (name === 'apply_scene_edits' && params.dryRun !== true)
+        || (name === 'check_dependencies' && params.repair === true);
+}
+
+// Read the sandbox settings from the environment
+export function configureSandbox(env: NodeJS.ProcessEnv = process.env) {
+    allowedRoots = (env.GODOT_MCP_ROOTS ?? '')
+        .split(path.delimiter)
+        .filter(root => root.trim() !== '')
+        .map(root => realPath(path.resolve(root.trim())));
+    readOnly = ['1', 'true', 'yes'].includes((env.GODOT_MCP_READ_ONLY ?? '').toLowerCase());
+}
+
+// Current sandbox settings, for logging
+export function getSandboxInfo() {
+    return { roots: [...allowedRoots], readOnly };
+}
+
+// Resolve symlinks, including for paths that do not exist yet (through their closest existing parent)
+function realPath(filePath: string): string {
+    const missing: string[] = [];
+    let current = filePath;
+    while (!fs.existsSync(current)) {
+        const parent = path.dirname(current);
+        if (parent === current) {
+            break;
+        }
+        missing.unshift(path.basename(current));
+        current = parent;
+    }
+    try {
+        return path.join(fs.realpathSync(current), ...missing);
+    } catch (error) {
+        return filePath;
+    }
+}
+
+function isInside(filePath: string, directory: string): boolean {
+    const relative = path.relative(directory, filePath);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+// Throw unless a path (after resolving symlinks) is inside one of the allowed roots
+export function assertAllowed(filePath: string): string {
+    const resolved = realPath(path.resolve(filePath));
+    if (allowedRoots.length > 0 && !allowedRoots.some(root => isInside(resolved, root))) {
+        throw new Error(`Access denied: ${filePath} is outside the allowed project roots`);
+    }
+    return resolved;
+}
+
+// Throw in read-only mode
+export function assertWritable(description: string = 'This operation') {
+    if (readOnly) {
+        throw new Error(`${description} is not allowed: the server is in read-only mode`);
+    }
+}
+
+// Resolve a file tool path: absolute paths, paths relative to the project, res:// (the project
+// directory) and user:// (the project's user data directory). The result must stay inside
+// the allowed roots, or for user:// paths inside the user data directory.
+export async function resolveSandboxPath(filePath: string, projectPath?: string): Promise<string> {
+    const godotPath = /^(res|user):\/\/(.*)$/.exec(filePath);
+    if (!godotPath && path.isAbsolute(filePath)) {
+        return assertAllowed(filePath);
+    }
+    if (!projectPath) {
+        throw new Error(`A projectPath is needed to resolve ${filePath}`);
+    }
+
+    const project = assertAllowed(projectPath);
+    if (godotPath?.[1] === 'user') {
+        const userDir = realPath(await getUserDataDir(project));
+        const resolved = realPath(path.resolve(userDir, godotPath[2]));
+        if (!isInside(resolved, userDir)) {
+            throw new Error(`Access denied: ${filePath} is outside the project's user data directory`);
+        }
+        return resolved;
+    }
+
+    const resolved = realPath(path.resolve(project, godotPath ? godotPath[2] : filePath));
+    if (!isInside(resolved, project)) {
+        throw new Error(`Access denied: ${filePath} is outside the project`);
+    }
+    return assertAllowed(resolved);
+}
+
+// Check a tool call against the sandbox: path arguments must be inside the allowed roots,
+// and mutating and executing tools are rejected in read-only mode
+export async function checkToolCall(name: string, params: Record<string, unknown>) {
+    if (MUTATING_TOOLS.has(name) || EXECUTING_TOOLS.has(name)) {
+        assertWritable(name);
+    }
+    for (const argument of PATH_ARGUMENTS) {
+        const value = params[argument];
+        if (typeof value !== 'string') {
+            continue;
+        }
+        if (OUTPUT_ARGUMENTS.includes(argument)) {
+            assertWritable(`Writing ${argument}`);
+        }
+        const projectPath = typeof params.projectPath === 'string' ? params.projectPath : undefined;
+        if (value.startsWith('res://')) {
+            // Symbolic links inside the project must not lead out of the allowed roots
+            if (projectPath) {
+                assertAllowed(path.join(projectPath, value.slice('res://'.length)));
+            }
+            continue;
+        }
+        if (value.startsWith('user://')) {
+            if (projectPath) {
+                await resolveSandboxPath(value, projectPath);
+            }
+            continue;
+        }
+        assertAllowed(path.resolve(projectPath ?? process.cwd(), value));
+    }
+}
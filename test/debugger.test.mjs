@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as net from 'net';
+import * as remoteDebugger from '../build/godot/debugger.js';
+import { decodeVariant, encodeVariant } from '../build/godot/marshalls.js';
+
+// A fake game on the other end of the debugger connection. Messages are framed and encoded
+// like Godot does ([command, thread id, data] with a length prefix); answers maps the
+// commands the server sends to the messages sent back.
+function connectPeer(port, answers) {
+    const socket = net.connect(port, '127.0.0.1');
+    const received = [];
+    let buffer = Buffer.alloc(0);
+    const send = (command, data) => {
+        const payload = encodeVariant([command, 1, data]);
+        const header = Buffer.alloc(4);
+        header.writeUInt32LE(payload.length);
+        socket.write(Buffer.concat([header, payload]));
+    };
+    socket.on('data', chunk => {
+        buffer = Buffer.concat([buffer, chunk]);
+        while (buffer.length >= 4 && buffer.length >= 4 + buffer.readUInt32LE(0)) {
+            const length = buffer.readUInt32LE(0);
+            const message = decodeVariant(buffer.subarray(4, 4 + length)).value;
+            buffer = buffer.subarray(4 + length);
+            received.push(message);
+            for (const [command, data] of answers[message[0]]?.(message[2]) ?? []) {
+                send(command, data);
+            }
+        }
+    });
+    return new Promise(resolve => socket.once('connect', () => resolve({ socket, received, send })));
+}
+
+function waitFor(condition, timeoutMs = 2000) {
+    const start = Date.now();
+    return new Promise((resolve, reject) => {
+        const check = () => {
+            if (condition()) {
+                resolve();
+            } else if (Date.now() - start > timeoutMs) {
+                reject(new Error('Timed out'));
+            } else {
+                setTimeout(check, 10);
+            }
+        };
+        check();
+    });
+}
+
+test('stops, reads the stack and variables, steps and collects errors', async () => {
+    const session = await remoteDebugger.startDebugSession('/tmp/project', true);
+    let line = 12;
+    const peer = await connectPeer(session.port, {
+        get_stack_dump: () => [['stack_dump', [6, 'res://player.gd', line, 'jump', 'res://main.gd', 4, '_ready']]],
+        get_stack_frame_vars: ([frame]) => [
+            ['stack_frame_vars', [2]],
+            ['stack_frame_var', ['speed', 0, 3, frame === 0 ? 2.5 : 0]],
+            ['stack_frame_var', ['id', 1, 2, 9007199254740993n]]
+        ],
+        next: () => {
+            line++;
+            return [['debug_exit', []], ['debug_enter', [true, '', true, 'Main']]];
+        }
+    });
+
+    try {
+        peer.send('debug_enter', [true, 'Breakpoint', true, 'Main']);
+        const stop = await remoteDebugger.pause(session);
+        assert.equal(stop.reason, 'Breakpoint');
+        assert.deepEqual(stop.location, { file: 'res://player.gd', line: 12, function: 'jump' });
+        assert.equal(remoteDebugger.getStackTrace(session).length, 2);
+
+        const variables = await remoteDebugger.getStackVariables(session, 0);
+        assert.deepEqual(variables, [
+            { name: 'speed', scope: 'local', type: 'float', value: 2.5 },
+            { name: 'id', scope: 'member', type: 'int', value: '9007199254740993' }
+        ]);
+
+        const stepped = await remoteDebugger.step(session, 'over');
+        assert.equal(stepped.location.line, 13);
+        // Commands while stopped go to the thread that stopped
+        assert.deepEqual(peer.received.find(message => message[0] === 'next'), ['next', 1, []]);
+
+        peer.send('error', [0, 0, 1, 0, 'res://player.gd', 'jump', 13, 'Division by zero', '', false, 3, 'res://player.gd', 'jump', 13]);
+        await waitFor(() => remoteDebugger.getRuntimeErrors(session).length > 0);
+        const [error] = remoteDebugger.getRuntimeErrors(session);
+        assert.equal(error.message, 'Division by zero');
+        assert.deepEqual(error.backtrace, [{ file: 'res://player.gd', function: 'jump', line: 13 }]);
+    } finally {
+        peer.socket.destroy();
+        remoteDebugger.closeDebugSession(session);
+    }
+});
+
+test('decodes the binary Variant format', () => {
+    const value = [
+        'stack_dump', 1, -7, 9007199254740993n, true, null, 0.5,
+        { kind: 'string_name', value: 'ready' },
+        { kind: 'node_path', value: '/root/Main:position:x' },
+        { kind: 'dictionary', entries: [['a', [1, 2]]] }
+    ];
+    const encoded = encodeVariant(value);
+    const decoded = decodeVariant(encoded);
+    assert.equal(decoded.length, encoded.length);
+    assert.deepEqual(decoded.value, value);
+    assert.throws(() => decodeVariant(encoded.subarray(0, encoded.length - 1)), /Truncated/);
+});
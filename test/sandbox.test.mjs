@@ -0,0 +1,73 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkToolCall, configureSandbox, resolveSandboxPath } from '../build/utils/sandbox.js';
+import { createProject } from '../build/godot/commands.js';
+
+// A temporary root holding a project, and a folder outside the root with a symbolic link to it
+let base;
+let root;
+let project;
+let outside;
+
+before(() => {
+    base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'godot_sandbox_')));
+    root = path.join(base, 'root');
+    project = path.join(root, 'game');
+    outside = path.join(base, 'outside');
+    fs.mkdirSync(project, { recursive: true });
+    fs.mkdirSync(outside);
+    fs.writeFileSync(path.join(project, 'project.godot'), 'config_version=5\n\n[application]\n\nconfig/name="Game"\n');
+    fs.symlinkSync(outside, path.join(project, 'link'));
+    // user:// resolves under the data directory
+    process.env.XDG_DATA_HOME = path.join(base, 'data');
+    configureSandbox({ GODOT_MCP_ROOTS: root });
+});
+
+after(() => {
+    configureSandbox({});
+    fs.rmSync(base, { recursive: true, force: true });
+});
+
+test('allows paths inside the roots', async () => {
+    await checkToolCall('read_file', { projectPath: project, filePath: 'scenes/main.tscn' });
+    await checkToolCall('get_scene_tree', { projectPath: project, scenePath: 'res://main.tscn' });
+    assert.equal(await resolveSandboxPath('res://player.gd', project), path.join(project, 'player.gd'));
+    assert.equal(
+        await resolveSandboxPath('user://save.json', project),
+        path.join(base, 'data', 'godot', 'app_userdata', 'Game', 'save.json')
+    );
+});
+
+test('rejects paths that leave the roots with ..', async () => {
+    await assert.rejects(checkToolCall('read_file', { projectPath: project, filePath: '../../outside/x.txt' }), /Access denied/);
+    await assert.rejects(checkToolCall('list_projects', { directoryPath: `${root}/../outside` }), /Access denied/);
+    await assert.rejects(resolveSandboxPath('res://../../outside/x.txt', project), /Access denied/);
+    await assert.rejects(resolveSandboxPath('user://../../x.txt', project), /Access denied/);
+});
+
+test('rejects paths that leave the roots through symbolic links', async () => {
+    await assert.rejects(checkToolCall('read_file', { projectPath: project, filePath: 'link/x.txt' }), /Access denied/);
+    await assert.rejects(checkToolCall('get_scene_tree', { projectPath: project, scenePath: 'res://link/main.tscn' }), /Access denied/);
+    await assert.rejects(resolveSandboxPath('res://link/x.txt', project), /Access denied/);
+    await assert.rejects(resolveSandboxPath(path.join(project, 'link', 'new', 'file.txt')), /Access denied/);
+});
+
+test('rejects project names that leave the parent directory', async () => {
+    await assert.rejects(createProject(root, '../../outside/game'), /Access denied/);
+    assert.deepEqual(fs.readdirSync(outside), []);
+});
+
+test('read-only mode rejects changes and running code, but not reading', async () => {
+    configureSandbox({ GODOT_MCP_ROOTS: root, GODOT_MCP_READ_ONLY: '1' });
+    try {
+        await checkToolCall('read_file', { projectPath: project, filePath: 'project.godot' });
+        await assert.rejects(checkToolCall('write_file', { projectPath: project, filePath: 'a.txt' }), /read-only/);
+        await assert.rejects(checkToolCall('run_project', { projectPath: project }), /read-only/);
+        await assert.rejects(checkToolCall('run_tests', { projectPath: project, junitPath: 'report.xml' }), /read-only/);
+    } finally {
+        configureSandbox({ GODOT_MCP_ROOTS: root });
+    }
+});
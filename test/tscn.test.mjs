@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getProperty, getSections, parseTscn, serializeTscn, setProperty } from '../build/godot/tscn.js';
+import { formatVariant, parseVariant } from '../build/godot/variant.js';
+import { findNode, removeNode } from '../build/godot/scene.js';
+
+const SCENE = `[gd_scene load_steps=4 format=3 uid="uid://b8x1q2w3e4r5t"]
+
+[ext_resource type="Script" uid="uid://c1a2b3c4d5e6f" path="res://player.gd" id="1_abcde"]
+[ext_resource type="Texture2D" path="res://icon.svg" id="2_fghij"]
+
+[sub_resource type="RectangleShape2D" id="RectangleShape2D_k1"]
+size = Vector2(32, 64)
+
+[node name="Main" type="Node2D"]
+
+[node name="Player" type="CharacterBody2D" parent="." groups=["players"]]
+position = Vector2(100, 200.5)
+script = ExtResource("1_abcde")
+tags = PackedStringArray("hero", "fast")
+stats = {
+"hp": 10,
+"inventory": {
+"keys": [1, 2]
+}
+}
+
+; Collision for the player
+[node name="Shape" type="CollisionShape2D" parent="Player"]
+shape = SubResource("RectangleShape2D_k1")
+
+[node name="Sprite" type="Sprite2D" parent="Player"]
+texture = ExtResource("2_fghij")
+modulate = Color(1, 0.5, 0.25, 1)
+
+[connection signal="body_entered" from="Player" to="." method="_on_body_entered"]
+`;
+
+test('writes an unchanged document back byte for byte', () => {
+    assert.equal(serializeTscn(parseTscn(SCENE)), SCENE);
+
+    const crlf = SCENE.replace(/\n/g, '\r\n');
+    assert.equal(serializeTscn(parseTscn(crlf)), crlf);
+
+    const projectFile = '; Engine configuration file.\n\nconfig_version=5\n\n[application]\n\nconfig/name="Game"\nconfig/features=PackedStringArray("4.3", "Forward Plus")\n';
+    assert.equal(serializeTscn(parseTscn(projectFile)), projectFile);
+});
+
+test('reads sections and their values', () => {
+    const doc = parseTscn(SCENE);
+    assert.deepEqual(getSections(doc, 'ext_resource').map(section => section.attributes.id), ['1_abcde', '2_fghij']);
+
+    const player = findNode(doc, 'Player');
+    assert.deepEqual(player.attributes.groups, ['players']);
+    assert.deepEqual(getProperty(player, 'script'), { kind: 'ext_resource', id: '1_abcde' });
+    assert.deepEqual(getProperty(player, 'tags'), { kind: 'constructor', name: 'PackedStringArray', args: ['hero', 'fast'] });
+    assert.deepEqual(getProperty(player, 'stats'), {
+        kind: 'dictionary',
+        entries: [['hp', 10], ['inventory', { kind: 'dictionary', entries: [['keys', [1, 2]]] }]]
+    });
+});
+
+test('writes edited sections back without touching other lines', () => {
+    const doc = parseTscn(SCENE);
+    setProperty(findNode(doc, 'Player'), 'position', parseVariant('Vector2(0, 0)'));
+    setProperty(findNode(doc, 'Player/Sprite'), 'visible', false);
+
+    const expected = SCENE
+        .replace('position = Vector2(100, 200.5)', 'position = Vector2(0, 0)')
+        .replace('modulate = Color(1, 0.5, 0.25, 1)\n', 'modulate = Color(1, 0.5, 0.25, 1)\nvisible = false\n');
+    assert.equal(serializeTscn(doc), expected);
+});
+
+test('removing nodes drops their connections and the resources only they used', () => {
+    const doc = parseTscn(SCENE);
+    removeNode(doc, 'Player');
+    assert.equal(serializeTscn(doc), `[gd_scene load_steps=1 format=3 uid="uid://b8x1q2w3e4r5t"]
+
+[node name="Main" type="Node2D"]
+`);
+});
+
+test('parses and formats Variant literals', () => {
+    const literals = [
+        'PackedStringArray("a", "b \\"quoted\\"")',
+        'PackedVector2Array(0, 1, 2.5, -3)',
+        'ExtResource("1_abcde")',
+        'SubResource("BoxMesh_xyz")',
+        'Transform3D(1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 2.5, -1)',
+        'NodePath("Player/Sprite:modulate")',
+        '&"ready"',
+        '{\n"a": {\n"b": [1, 2.5, "c"]\n},\n1: null\n}',
+        'Array[int]([1, 2, 3])',
+        'Array[ExtResource("1_abcde")]([])',
+        'Object(InputEventKey,"resource_local_to_scene":false,"keycode":65,"script":null)',
+        'inf',
+        'inf_neg',
+        'nan'
+    ];
+    for (const literal of literals) {
+        assert.equal(formatVariant(parseVariant(literal)), literal, literal);
+    }
+
+    assert.deepEqual(parseVariant('Transform3D(1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 2.5, -1)'), {
+        kind: 'constructor',
+        name: 'Transform3D',
+        args: [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 2.5, -1]
+    });
+    assert.deepEqual(parseVariant('{ "key": [true, &"name", ^"path"] }'), {
+        kind: 'dictionary',
+        entries: [['key', [true, { kind: 'string_name', value: 'name' }, { kind: 'node_path', value: 'path' }]]]
+    });
+    assert.throws(() => parseVariant('Vector2(1, '));
+});